@@ -13,6 +13,10 @@ export default defineConfig({
     './src/db/schema/raw-responses.ts',
     './src/db/schema/history.ts',
     './src/db/schema/monitoring.ts',
+    './src/db/schema/metadata.ts',
+    './src/db/schema/change-events.ts',
+    './src/db/schema/webhooks.ts',
+    './src/db/schema/saved-searches.ts',
   ],
   out: './drizzle',
   dialect: 'postgresql',
@@ -0,0 +1,18 @@
+ALTER TABLE "replication_runs" ADD COLUMN "originating_system" varchar;--> statement-breakpoint
+-- Runs recorded before multi-system replication belong to the one system this database
+-- replicated; take it from the stored listings instead of assuming one, so HWMs carry over.
+DO $$
+DECLARE
+  systems varchar[];
+BEGIN
+  IF EXISTS (SELECT 1 FROM "replication_runs") THEN
+    SELECT array_agg(DISTINCT "originating_system") INTO systems FROM "properties";
+    IF coalesce(array_length(systems, 1), 0) <> 1 THEN
+      RAISE EXCEPTION 'Cannot infer replication_runs.originating_system: properties hold % originating systems (%); backfill it by hand',
+        coalesce(array_length(systems, 1), 0), systems;
+    END IF;
+    UPDATE "replication_runs" SET "originating_system" = systems[1];
+  END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "replication_runs" ALTER COLUMN "originating_system" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_repl_runs_system_resource" ON "replication_runs" USING btree ("originating_system","resource_type","started_at");
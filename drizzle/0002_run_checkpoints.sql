@@ -0,0 +1,3 @@
+ALTER TABLE "replication_runs" ADD COLUMN "next_link" text;--> statement-breakpoint
+ALTER TABLE "replication_runs" ADD COLUMN "pages_completed" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "replication_runs" ADD COLUMN "resumed_from_run_id" bigint;
\ No newline at end of file
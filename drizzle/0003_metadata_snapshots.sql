@@ -0,0 +1,29 @@
+CREATE TABLE "metadata_snapshots" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"fetched_at" timestamp with time zone NOT NULL,
+	"last_checked_at" timestamp with time zone NOT NULL,
+	"content_hash" varchar NOT NULL,
+	"document_bytes" integer NOT NULL,
+	"document" text NOT NULL,
+	"entity_fields" jsonb NOT NULL,
+	"diff" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE "schema_drift_fields" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"resource_type" varchar NOT NULL,
+	"originating_system" varchar NOT NULL,
+	"field_name" varchar NOT NULL,
+	"stored_in" varchar NOT NULL,
+	"in_metadata" boolean,
+	"edm_type" varchar,
+	"occurrences" bigint DEFAULT 0 NOT NULL,
+	"sample_value" jsonb,
+	"sample_key" varchar,
+	"first_seen_at" timestamp with time zone NOT NULL,
+	"last_seen_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_metadata_snapshots_fetched" ON "metadata_snapshots" USING btree ("fetched_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_schema_drift_field" ON "schema_drift_fields" USING btree ("resource_type","originating_system","field_name");--> statement-breakpoint
+CREATE INDEX "idx_schema_drift_last_seen" ON "schema_drift_fields" USING btree ("last_seen_at");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "retransform_jobs" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"status" varchar NOT NULL,
+	"originating_system" varchar,
+	"batch_size" integer NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone,
+	"last_listing_key" varchar,
+	"total_rows" integer,
+	"processed_rows" integer DEFAULT 0 NOT NULL,
+	"updated_rows" integer DEFAULT 0 NOT NULL,
+	"skipped_rows" integer DEFAULT 0 NOT NULL,
+	"error_count" integer DEFAULT 0 NOT NULL,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE INDEX "idx_retransform_jobs_started" ON "retransform_jobs" USING btree ("started_at");
\ No newline at end of file
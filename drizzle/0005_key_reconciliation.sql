@@ -0,0 +1,38 @@
+CREATE TABLE "reconciliation_refetches" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"resource_type" varchar NOT NULL,
+	"originating_system" varchar NOT NULL,
+	"record_key" varchar NOT NULL,
+	"lookup_id" varchar NOT NULL,
+	"reason" varchar NOT NULL,
+	"status" varchar NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"reconciliation_run_id" bigint,
+	"queued_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "reconciliation_runs" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"resource_type" varchar NOT NULL,
+	"originating_system" varchar NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone,
+	"status" varchar NOT NULL,
+	"remote_count" integer DEFAULT 0,
+	"local_count" integer DEFAULT 0,
+	"stale_count" integer DEFAULT 0,
+	"missing_count" integer DEFAULT 0,
+	"outdated_count" integer DEFAULT 0,
+	"soft_deleted" integer DEFAULT 0,
+	"refetch_queued" integer DEFAULT 0,
+	"refetched" integer DEFAULT 0,
+	"refetch_failed" integer DEFAULT 0,
+	"api_requests_made" integer DEFAULT 0,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_reconciliation_refetches_key" ON "reconciliation_refetches" USING btree ("resource_type","originating_system","record_key");--> statement-breakpoint
+CREATE INDEX "idx_reconciliation_refetches_status" ON "reconciliation_refetches" USING btree ("status","queued_at");--> statement-breakpoint
+CREATE INDEX "idx_reconciliation_runs_system_resource" ON "reconciliation_runs" USING btree ("originating_system","resource_type","started_at");
\ No newline at end of file
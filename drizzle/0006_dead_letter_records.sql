@@ -0,0 +1,20 @@
+CREATE TABLE "dead_letter_records" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"resource_type" varchar NOT NULL,
+	"originating_system" varchar NOT NULL,
+	"record_key" varchar NOT NULL,
+	"modification_ts" timestamp with time zone,
+	"raw_data" jsonb NOT NULL,
+	"status" varchar NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"error_message" text,
+	"error_stack" text,
+	"replication_run_id" bigint,
+	"first_failed_at" timestamp with time zone NOT NULL,
+	"last_failed_at" timestamp with time zone NOT NULL,
+	"next_retry_at" timestamp with time zone,
+	"resolved_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_dead_letter_records_key" ON "dead_letter_records" USING btree ("resource_type","originating_system","record_key");--> statement-breakpoint
+CREATE INDEX "idx_dead_letter_records_status" ON "dead_letter_records" USING btree ("status","next_retry_at");
\ No newline at end of file
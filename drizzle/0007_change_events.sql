@@ -0,0 +1,16 @@
+CREATE TABLE "change_events" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"txid" "xid8" DEFAULT pg_current_xact_id() NOT NULL,
+	"event_type" varchar NOT NULL,
+	"resource_type" varchar NOT NULL,
+	"resource_key" varchar NOT NULL,
+	"originating_system" varchar NOT NULL,
+	"changed_fields" text[],
+	"payload" jsonb,
+	"modification_ts" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_change_events_cursor" ON "change_events" USING btree ("txid","id");--> statement-breakpoint
+CREATE INDEX "idx_change_events_resource" ON "change_events" USING btree ("resource_type","resource_key");--> statement-breakpoint
+CREATE INDEX "idx_change_events_created" ON "change_events" USING btree ("created_at");
\ No newline at end of file
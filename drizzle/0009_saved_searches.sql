@@ -0,0 +1,47 @@
+CREATE TABLE "saved_searches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" varchar,
+	"min_price" numeric,
+	"max_price" numeric,
+	"min_beds" numeric,
+	"max_beds" numeric,
+	"min_baths" numeric,
+	"max_baths" numeric,
+	"property_types" text[],
+	"cities" text[],
+	"postal_codes" text[],
+	"area" geography(POLYGON, 4326),
+	"center" geography(POINT, 4326),
+	"radius_meters" integer,
+	"keywords" text[],
+	"alert_types" text[],
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_notifications" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"saved_search_id" integer,
+	"listing_key" varchar NOT NULL,
+	"change_type" varchar NOT NULL,
+	"old_value" text,
+	"new_value" text,
+	"dedup_key" varchar NOT NULL,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"sent_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "user_notifications" ADD CONSTRAINT "user_notifications_saved_search_id_saved_searches_id_fk" FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_user" ON "saved_searches" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_price" ON "saved_searches" USING btree ("min_price","max_price") WHERE active;--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_property_types" ON "saved_searches" USING gin ("property_types");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_cities" ON "saved_searches" USING gin ("cities");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_postal_codes" ON "saved_searches" USING gin ("postal_codes");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_area" ON "saved_searches" USING gist ("area");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_center" ON "saved_searches" USING gist ("center");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_user_notifications_dedup" ON "user_notifications" USING btree ("user_id","dedup_key");--> statement-breakpoint
+CREATE INDEX "idx_user_notifications_pending" ON "user_notifications" USING btree ("status","created_at");
\ No newline at end of file
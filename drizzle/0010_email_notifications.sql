@@ -0,0 +1,29 @@
+CREATE TABLE "notification_recipients" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"email" varchar NOT NULL,
+	"digest_frequency" varchar DEFAULT 'instant' NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification_sends" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"channel" varchar NOT NULL,
+	"recipient" varchar NOT NULL,
+	"frequency" varchar NOT NULL,
+	"status" varchar NOT NULL,
+	"notification_count" integer NOT NULL,
+	"message_id" varchar,
+	"error_message" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"sent_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "user_notifications" ADD COLUMN "send_id" bigint;--> statement-breakpoint
+ALTER TABLE "user_notifications" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_notification_sends_user" ON "notification_sends" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_notification_sends_status" ON "notification_sends" USING btree ("status");--> statement-breakpoint
+ALTER TABLE "user_notifications" ADD CONSTRAINT "user_notifications_send_id_notification_sends_id_fk" FOREIGN KEY ("send_id") REFERENCES "public"."notification_sends"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
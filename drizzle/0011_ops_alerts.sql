@@ -0,0 +1,17 @@
+CREATE TABLE "ops_alerts" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"rule_id" varchar NOT NULL,
+	"alert_key" varchar NOT NULL,
+	"severity" varchar NOT NULL,
+	"status" varchar NOT NULL,
+	"summary" text NOT NULL,
+	"details" jsonb,
+	"fired_at" timestamp with time zone NOT NULL,
+	"last_seen_at" timestamp with time zone NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"notified_status" varchar,
+	"notify_error" text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_ops_alerts_firing" ON "ops_alerts" USING btree ("alert_key") WHERE status = 'firing';--> statement-breakpoint
+CREATE INDEX "idx_ops_alerts_fired" ON "ops_alerts" USING btree ("fired_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "admin_audit_log" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"actor" varchar NOT NULL,
+	"action" varchar NOT NULL,
+	"target" varchar,
+	"params" jsonb,
+	"status_code" integer,
+	"error" text,
+	"requested_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"responded_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX "idx_admin_audit_requested" ON "admin_audit_log" USING btree ("requested_at");--> statement-breakpoint
+CREATE INDEX "idx_admin_audit_actor" ON "admin_audit_log" USING btree ("actor","requested_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "worker_instances" (
+	"instance_id" varchar PRIMARY KEY NOT NULL,
+	"hostname" varchar NOT NULL,
+	"pid" integer NOT NULL,
+	"role" varchar NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"leader_since" timestamp with time zone,
+	"last_heartbeat_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_worker_instances_heartbeat" ON "worker_instances" USING btree ("last_heartbeat_at");
\ No newline at end of file
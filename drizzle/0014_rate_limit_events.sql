@@ -0,0 +1,8 @@
+CREATE TABLE "rate_limit_events" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"kind" varchar NOT NULL,
+	"bytes" bigint,
+	"occurred_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_rate_limit_events_kind_time" ON "rate_limit_events" USING btree ("kind","occurred_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "rate_limit_events" ADD COLUMN "priority" varchar DEFAULT 'realtime' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "job_runs" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"job" varchar NOT NULL,
+	"trigger" varchar NOT NULL,
+	"instance_id" varchar NOT NULL,
+	"status" varchar NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone,
+	"duration_ms" integer,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE INDEX "idx_job_runs_job_started" ON "job_runs" USING btree ("job","started_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "replication_runs" ADD COLUMN "instance_id" varchar;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "worker_instances" ADD COLUMN "cadences_sec" jsonb;
\ No newline at end of file
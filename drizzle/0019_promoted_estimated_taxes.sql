@@ -0,0 +1 @@
+ALTER TABLE "properties" ADD COLUMN "estimated_taxes" numeric;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "replication_runs" ALTER COLUMN "originating_system" DROP DEFAULT;
\ No newline at end of file
@@ -0,0 +1,638 @@
+/**
+ * Offline MLS Grid simulator for local development and end-to-end tests.
+ *
+ * Serves:
+ *   - OData pages at /v2/{Resource} with `@odata.nextLink`, honouring the subset of
+ *     $filter the worker uses (OriginatingSystemName, ModificationTimestamp gt/ge/lt/le,
+ *     MlgCanView, key/id equality), $top, $skip, $select and $expand.
+ *   - A minimal $metadata EDMX generated from the stored records.
+ *   - Media at /media/{MediaKey} behind expiring signed URLs (403 once expired).
+ *   - A minimal S3 API (PUT object, DELETE object, POST ?delete) so R2 uploads can
+ *     be pointed at the simulator with R2_ENDPOINT=http://127.0.0.1:{port}.
+ *
+ * Faults (429s, 5xx, expired-URL 403s) can be injected per target.
+ *
+ * Run standalone with: npm run simulator -- [--port 4010] [--listings 50] [--max-top 5000]
+ */
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHmac } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+export type SimulatorResource = 'Property' | 'Member' | 'Office' | 'OpenHouse' | 'Lookup';
+
+export type SimulatorRecord = Record<string, unknown>;
+
+export type FaultTarget = 'api' | 'media' | 's3';
+
+export interface Fault {
+  target: FaultTarget;
+  status: number;
+  /** How many matching requests to fail before the fault clears. */
+  times: number;
+  /** Only fail requests whose path + query contains this substring. */
+  match?: string;
+}
+
+export interface SimulatorRequestLogEntry {
+  method: string;
+  target: FaultTarget;
+  path: string;
+  status: number;
+  at: Date;
+}
+
+export interface SimulatorOptions {
+  port?: number;
+  /** Default page size when $top is absent. */
+  defaultTop?: number;
+  /** Upper bound on page size regardless of $top, to force pagination with small fixtures. */
+  maxTop?: number;
+  /** Lifetime of signed media URLs handed out in expanded Media records. */
+  mediaUrlTtlSec?: number;
+  /** Bearer token the simulator accepts. Requests without it get a 401. */
+  token?: string;
+}
+
+const RESOURCE_KEY_FIELDS: Record<SimulatorResource, string> = {
+  Property: 'ListingKey',
+  Member: 'MemberKey',
+  Office: 'OfficeKey',
+  OpenHouse: 'OpenHouseKey',
+  Lookup: 'LookupKey',
+};
+
+const EXPANDABLE = ['Media', 'Rooms', 'UnitTypes'];
+const SIGNING_SECRET = 'mlsgrid-simulator';
+
+// Smallest payload that still looks like a JPEG to anything sniffing magic bytes
+const FAKE_JPEG_HEADER = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00]);
+
+export class MlsGridSimulator {
+  readonly records: Record<SimulatorResource, Map<string, SimulatorRecord>> = {
+    Property: new Map(),
+    Member: new Map(),
+    Office: new Map(),
+    OpenHouse: new Map(),
+    Lookup: new Map(),
+  };
+
+  /** Objects written through the S3 emulation, keyed by "{bucket}/{key}". */
+  readonly objects = new Map<string, Buffer>();
+
+  readonly requestLog: SimulatorRequestLogEntry[] = [];
+
+  /**
+   * Lifetime of media URLs handed out from now on. Set it negative to serve
+   * URLs that are already expired.
+   */
+  mediaUrlTtlSec: number;
+
+  /** Fields declared in $metadata in addition to those present on records. */
+  readonly extraMetadataFields: Partial<Record<SimulatorResource, Record<string, string>>> = {};
+
+  private faults: Fault[] = [];
+  private server: Server | null = null;
+  private port = 0;
+  private readonly options: Required<Omit<SimulatorOptions, 'mediaUrlTtlSec'>>;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      defaultTop: options.defaultTop ?? 1000,
+      maxTop: options.maxTop ?? 5000,
+      token: options.token ?? 'simulator-token',
+    };
+    this.mediaUrlTtlSec = options.mediaUrlTtlSec ?? 11 * 3600;
+  }
+
+  /** Origin the simulator listens on, e.g. http://127.0.0.1:4010 */
+  get origin(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  /** Value for MLSGRID_API_BASE_URL. */
+  get apiBaseUrl(): string {
+    return `${this.origin}/v2`;
+  }
+
+  /** Value for R2_ENDPOINT (IP host makes the S3 client use path-style URLs). */
+  get s3Endpoint(): string {
+    return this.origin;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        res.statusCode = 500;
+        res.end(String(err));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(this.options.port, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close((err) => (err ? reject(err) : resolve())));
+    this.server = null;
+  }
+
+  /** Clear records, objects, faults and the request log. */
+  reset(): void {
+    for (const map of Object.values(this.records)) map.clear();
+    this.objects.clear();
+    this.requestLog.length = 0;
+    this.faults = [];
+    for (const resource of Object.keys(this.extraMetadataFields) as SimulatorResource[]) {
+      delete this.extraMetadataFields[resource];
+    }
+  }
+
+  /**
+   * Insert or replace a record. ModificationTimestamp defaults to now, which
+   * makes the change visible to the next replication cycle.
+   */
+  upsert(resource: SimulatorResource, record: SimulatorRecord): void {
+    const key = record[RESOURCE_KEY_FIELDS[resource]] as string;
+    if (!key) throw new Error(`${resource} record is missing ${RESOURCE_KEY_FIELDS[resource]}`);
+    this.records[resource].set(key, {
+      ModificationTimestamp: new Date().toISOString(),
+      MlgCanView: true,
+      ...record,
+    });
+  }
+
+  /** Apply a partial update and bump ModificationTimestamp. */
+  modify(resource: SimulatorResource, key: string, changes: SimulatorRecord): void {
+    const existing = this.records[resource].get(key);
+    if (!existing) throw new Error(`${resource} ${key} does not exist`);
+    this.records[resource].set(key, {
+      ...existing,
+      ...changes,
+      ModificationTimestamp: (changes.ModificationTimestamp as string | undefined) ?? nextTimestamp(existing),
+    });
+  }
+
+  /** Mark a record MlgCanView=false, as MLS Grid does for deletes. */
+  hide(resource: SimulatorResource, key: string): void {
+    this.modify(resource, key, { MlgCanView: false });
+  }
+
+  injectFault(fault: Fault): void {
+    this.faults.push({ ...fault });
+  }
+
+  /** Build a signed media URL that expires `ttlSec` from now (negative = already expired). */
+  signMediaUrl(mediaKey: string, ttlSec = this.mediaUrlTtlSec): string {
+    const expires = Math.floor(Date.now() / 1000) + ttlSec;
+    const signature = sign(`${mediaKey}:${expires}`);
+    return `${this.origin}/media/${encodeURIComponent(mediaKey)}?token=${signature}&expires=${expires}`;
+  }
+
+  requestsFor(target: FaultTarget): SimulatorRequestLogEntry[] {
+    return this.requestLog.filter((r) => r.target === target);
+  }
+
+  // ─── Request Handling ──────────────────────────────────────────────────────
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.origin);
+    const method = req.method ?? 'GET';
+
+    if (url.pathname.startsWith('/v2/')) {
+      return this.handleApi(req, res, url);
+    }
+    if (url.pathname.startsWith('/media/')) {
+      return this.handleMedia(res, url, method);
+    }
+    return this.handleS3(req, res, url, method);
+  }
+
+  private handleApi(req: IncomingMessage, res: ServerResponse, url: URL): void {
+    const pathAndQuery = decodeURIComponent(url.pathname + url.search);
+    const respond = (status: number, body: unknown) => {
+      this.log('GET', 'api', pathAndQuery, status);
+      sendJson(res, status, body);
+    };
+
+    if (req.headers.authorization !== `Bearer ${this.options.token}`) {
+      return respond(401, { error: 'Unauthorized' });
+    }
+
+    const fault = this.takeFault('api', pathAndQuery);
+    if (fault) {
+      return respond(fault.status, { error: `Simulated ${fault.status}` });
+    }
+
+    if (url.pathname === '/v2/$metadata') {
+      const xml = this.buildMetadataDocument();
+      this.log('GET', 'api', pathAndQuery, 200);
+      res.writeHead(200, { 'content-type': 'application/xml', 'content-length': Buffer.byteLength(xml) });
+      res.end(xml);
+      return;
+    }
+
+    const resource = url.pathname.slice('/v2/'.length) as SimulatorResource;
+    if (!(resource in this.records)) {
+      return respond(404, { error: `Unknown resource ${resource}` });
+    }
+
+    let predicate: (record: SimulatorRecord) => boolean;
+    try {
+      predicate = parseFilter(url.searchParams.get('$filter'));
+    } catch (err) {
+      return respond(400, { error: (err as Error).message });
+    }
+
+    const top = Math.min(Number(url.searchParams.get('$top') ?? this.options.defaultTop), this.options.maxTop);
+    const skip = Number(url.searchParams.get('$skip') ?? 0);
+    const expand = (url.searchParams.get('$expand') ?? '').split(',').map((e) => e.trim()).filter(Boolean);
+    const select = (url.searchParams.get('$select') ?? '').split(',').map((e) => e.trim()).filter(Boolean);
+
+    const matches = [...this.records[resource].values()]
+      .filter(predicate)
+      .sort((a, b) =>
+        String(a.ModificationTimestamp).localeCompare(String(b.ModificationTimestamp)) ||
+        String(a[RESOURCE_KEY_FIELDS[resource]]).localeCompare(String(b[RESOURCE_KEY_FIELDS[resource]])),
+      );
+
+    const page = matches.slice(skip, skip + top).map((record) => this.shape(record, expand, select));
+
+    const body: Record<string, unknown> = {
+      '@odata.context': `${this.apiBaseUrl}/$metadata#${resource}`,
+      value: page,
+    };
+    if (skip + top < matches.length) {
+      const next = new URL(url.toString());
+      next.searchParams.set('$skip', String(skip + top));
+      body['@odata.nextLink'] = next.toString();
+    }
+
+    respond(200, body);
+  }
+
+  private handleMedia(res: ServerResponse, url: URL, method: string): void {
+    const mediaKey = decodeURIComponent(url.pathname.slice('/media/'.length));
+    const pathAndQuery = url.pathname + url.search;
+    const respond = (status: number, body: Buffer | string, contentType = 'text/plain') => {
+      this.log(method, 'media', pathAndQuery, status);
+      res.writeHead(status, { 'content-type': contentType, 'content-length': Buffer.byteLength(body) });
+      res.end(body);
+    };
+
+    const fault = this.takeFault('media', pathAndQuery);
+    if (fault) return respond(fault.status, `Simulated ${fault.status}`);
+
+    const expires = Number(url.searchParams.get('expires'));
+    const token = url.searchParams.get('token');
+    if (!expires || token !== sign(`${mediaKey}:${expires}`)) {
+      return respond(403, 'Invalid signature');
+    }
+    if (expires <= Math.floor(Date.now() / 1000)) {
+      return respond(403, 'URL expired');
+    }
+
+    // Deterministic per-key body so tests can assert on uploaded bytes
+    const body = Buffer.concat([FAKE_JPEG_HEADER, Buffer.from(`simulated-media:${mediaKey}`)]);
+    respond(200, body, 'image/jpeg');
+  }
+
+  private async handleS3(req: IncomingMessage, res: ServerResponse, url: URL, method: string): Promise<void> {
+    const objectPath = decodeURIComponent(url.pathname.replace(/^\//, ''));
+    const body = await readBody(req);
+    const respond = (status: number, payload = '', headers: Record<string, string> = {}) => {
+      this.log(method, 's3', objectPath, status);
+      res.writeHead(status, { 'content-type': 'application/xml', ...headers });
+      res.end(payload);
+    };
+
+    const fault = this.takeFault('s3', objectPath);
+    if (fault) return respond(fault.status, `<Error><Code>Simulated</Code></Error>`);
+
+    if (method === 'PUT') {
+      this.objects.set(objectPath, body);
+      return respond(200, '', { etag: `"${sign(objectPath).slice(0, 32)}"` });
+    }
+    if (method === 'DELETE') {
+      this.objects.delete(objectPath);
+      return respond(204);
+    }
+    if (method === 'POST' && url.searchParams.has('delete')) {
+      const bucket = objectPath.split('/')[0];
+      const keys = [...body.toString('utf8').matchAll(/<Key>([^<]+)<\/Key>/g)].map((m) => m[1]);
+      for (const key of keys) this.objects.delete(`${bucket}/${decodeXml(key)}`);
+      return respond(200, '<?xml version="1.0" encoding="UTF-8"?><DeleteResult></DeleteResult>');
+    }
+    if (method === 'GET' || method === 'HEAD') {
+      const object = this.objects.get(objectPath);
+      if (!object) return respond(404, '<Error><Code>NoSuchKey</Code></Error>');
+      this.log(method, 's3', objectPath, 200);
+      res.writeHead(200, { 'content-length': object.length });
+      res.end(method === 'HEAD' ? undefined : object);
+      return;
+    }
+    respond(405);
+  }
+
+  /**
+   * Apply $expand / $select. Media URLs are re-signed on every response, like
+   * MLS Grid does, so each fetch hands out fresh expiring URLs.
+   */
+  private shape(record: SimulatorRecord, expand: string[], select: string[]): SimulatorRecord {
+    let shaped: SimulatorRecord = { ...record };
+
+    for (const field of EXPANDABLE) {
+      if (!expand.includes(field)) delete shaped[field];
+    }
+    if (Array.isArray(shaped.Media)) {
+      shaped.Media = (shaped.Media as SimulatorRecord[]).map((m) => ({
+        ...m,
+        MediaURL: (m.MediaURL as string | undefined) ?? this.signMediaUrl(m.MediaKey as string),
+      }));
+    }
+
+    if (select.length > 0) {
+      shaped = Object.fromEntries(Object.entries(shaped).filter(([k]) => select.includes(k) || expand.includes(k)));
+    }
+    return shaped;
+  }
+
+  /**
+   * Minimal EDMX declaring every field present on the stored records, with
+   * types inferred from their values. Extra fields can be declared to
+   * simulate MLS Grid adding fields before they show up in records.
+   */
+  private buildMetadataDocument(): string {
+    const entityTypes = (Object.keys(this.records) as SimulatorResource[]).map((resource) => {
+      const fields = new Map<string, string>();
+      for (const record of this.records[resource].values()) {
+        for (const [field, value] of Object.entries(record)) {
+          if (EXPANDABLE.includes(field) || fields.has(field)) continue;
+          fields.set(field, edmType(value));
+        }
+      }
+      for (const [field, type] of Object.entries(this.extraMetadataFields[resource] ?? {})) {
+        fields.set(field, type);
+      }
+      const properties = [...fields]
+        .map(([field, type]) => `        <Property Name="${field}" Type="${type}" />`)
+        .join('\n');
+      return `      <EntityType Name="${resource}">\n${properties}\n      </EntityType>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<edmx:Edmx xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx" Version="4.0">',
+      '  <edmx:DataServices>',
+      '    <Schema xmlns="http://docs.oasis-open.org/odata/ns/edm" Namespace="org.reso.metadata">',
+      ...entityTypes,
+      '    </Schema>',
+      '  </edmx:DataServices>',
+      '</edmx:Edmx>',
+    ].join('\n');
+  }
+
+  private takeFault(target: FaultTarget, pathAndQuery: string): Fault | null {
+    const fault = this.faults.find(
+      (f) => f.target === target && f.times > 0 && (!f.match || pathAndQuery.includes(f.match)),
+    );
+    if (!fault) return null;
+    fault.times--;
+    this.faults = this.faults.filter((f) => f.times > 0);
+    return fault;
+  }
+
+  private log(method: string, target: FaultTarget, path: string, status: number): void {
+    this.requestLog.push({ method, target, path, status, at: new Date() });
+  }
+}
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+/**
+ * Build a Property record with expanded Media, Rooms and UnitTypes.
+ */
+export function buildPropertyFixture(
+  index: number,
+  overrides: SimulatorRecord = {},
+  originatingSystem = 'actris',
+): SimulatorRecord {
+  const listingKey = `SIM${String(index).padStart(6, '0')}`;
+  const photoCount = 3;
+  return {
+    ListingKey: listingKey,
+    ListingId: `ACT${1_000_000 + index}`,
+    OriginatingSystemName: originatingSystem,
+    StandardStatus: 'Active',
+    MlsStatus: 'Active',
+    ListPrice: 350_000 + index * 1_000,
+    OriginalListPrice: 350_000 + index * 1_000,
+    PropertyType: 'Residential',
+    PropertySubType: 'Single Family Residence',
+    BedroomsTotal: 3,
+    BathroomsTotalInteger: 2,
+    LivingArea: 1_800,
+    YearBuilt: 2005,
+    City: 'Austin',
+    StateOrProvince: 'TX',
+    PostalCode: '78704',
+    UnparsedAddress: `${100 + index} Simulated St`,
+    Latitude: 30.25 + index / 10_000,
+    Longitude: -97.75 - index / 10_000,
+    PublicRemarks: `Simulated listing ${index}`,
+    PhotosCount: photoCount,
+    PhotosChangeTimestamp: '2024-01-01T00:00:00.000Z',
+    ModificationTimestamp: new Date(Date.UTC(2024, 0, 1) + index * 1_000).toISOString(),
+    MlgCanView: true,
+    MlgCanUse: ['IDX'],
+    ACT_EstimatedTaxes: 7_500,
+    Media: Array.from({ length: photoCount }, (_, i) => ({
+      MediaKey: `${listingKey}-M${i}`,
+      Order: i,
+      MediaCategory: 'Photo',
+      MediaModificationTimestamp: '2024-01-01T00:00:00.000Z',
+    })),
+    Rooms: [
+      { RoomKey: `${listingKey}-R1`, RoomType: 'Primary Bedroom', RoomDimensions: '14x16', RoomFeatures: ['Walk-In Closet'] },
+      { RoomKey: `${listingKey}-R2`, RoomType: 'Kitchen', RoomDimensions: '12x14', RoomFeatures: ['Island'] },
+    ],
+    UnitTypes: [],
+    ...overrides,
+  };
+}
+
+export function buildMemberFixture(index: number, originatingSystem = 'actris'): SimulatorRecord {
+  return {
+    MemberKey: `SIMM${index}`,
+    MemberMlsId: `M${index}`,
+    OriginatingSystemName: originatingSystem,
+    MemberFullName: `Agent ${index}`,
+    MemberEmail: `agent${index}@example.com`,
+    OfficeKey: `SIMO${index % 3}`,
+    ModificationTimestamp: new Date(Date.UTC(2024, 0, 1) + index * 1_000).toISOString(),
+  };
+}
+
+export function buildOfficeFixture(index: number, originatingSystem = 'actris'): SimulatorRecord {
+  return {
+    OfficeKey: `SIMO${index}`,
+    OfficeMlsId: `O${index}`,
+    OriginatingSystemName: originatingSystem,
+    OfficeName: `Office ${index}`,
+    OfficeCity: 'Austin',
+    ModificationTimestamp: new Date(Date.UTC(2024, 0, 1) + index * 1_000).toISOString(),
+  };
+}
+
+// ─── OData $filter Parsing ───────────────────────────────────────────────────
+
+const CLAUSE = /^\(?\s*(\w+)\s+(eq|ne|gt|ge|lt|le)\s+(.+?)\s*\)?$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/;
+
+/**
+ * Parse a conjunction of simple comparisons ("A eq 'x' and B ge 2024-01-01T00:00:00Z")
+ * into a predicate. Disjunctions are supported one level deep for key lookups
+ * ("(ListingKey eq 'a' or ListingKey eq 'b')").
+ */
+export function parseFilter(filter: string | null): (record: SimulatorRecord) => boolean {
+  if (!filter) return () => true;
+
+  const conjuncts = splitOutsideQuotes(filter, ' and ').map((part) => {
+    const disjuncts = splitOutsideQuotes(part.trim().replace(/^\((.*)\)$/, '$1'), ' or ');
+    const predicates = disjuncts.map(parseClause);
+    return (record: SimulatorRecord) => predicates.some((p) => p(record));
+  });
+
+  return (record) => conjuncts.every((p) => p(record));
+}
+
+function parseClause(clause: string): (record: SimulatorRecord) => boolean {
+  const match = clause.trim().match(CLAUSE);
+  if (!match) throw new Error(`Unsupported $filter clause: ${clause}`);
+  const [, field, op, rawValue] = match;
+
+  let value: unknown;
+  if (rawValue.startsWith("'") && rawValue.endsWith("'")) {
+    value = rawValue.slice(1, -1).replace(/''/g, "'");
+  } else if (rawValue === 'true' || rawValue === 'false') {
+    value = rawValue === 'true';
+  } else if (ISO_TIMESTAMP.test(rawValue)) {
+    value = new Date(rawValue).getTime();
+  } else if (!Number.isNaN(Number(rawValue))) {
+    value = Number(rawValue);
+  } else {
+    throw new Error(`Unsupported $filter value: ${rawValue}`);
+  }
+
+  return (record) => {
+    let actual = record[field];
+    // MlgCanView defaults to true when absent
+    if (field === 'MlgCanView' && actual === undefined) actual = true;
+    if (typeof value === 'number' && typeof actual === 'string' && ISO_TIMESTAMP.test(actual)) {
+      actual = new Date(actual).getTime();
+    }
+    switch (op) {
+      case 'eq': return actual === value;
+      case 'ne': return actual !== value;
+      case 'gt': return (actual as number) > (value as number);
+      case 'ge': return (actual as number) >= (value as number);
+      case 'lt': return (actual as number) < (value as number);
+      case 'le': return (actual as number) <= (value as number);
+      default: return false;
+    }
+  };
+}
+
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === "'") inQuotes = !inQuotes;
+    if (!inQuotes && ch === '(') depth++;
+    if (!inQuotes && ch === ')') depth--;
+    if (!inQuotes && depth === 0 && input.startsWith(separator, i)) {
+      parts.push(current);
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function nextTimestamp(record: SimulatorRecord): string {
+  const previous = new Date(record.ModificationTimestamp as string).getTime();
+  return new Date(Math.max(Date.now(), previous + 1_000)).toISOString();
+}
+
+function edmType(value: unknown): string {
+  if (typeof value === 'boolean') return 'Edm.Boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'Edm.Int64' : 'Edm.Decimal';
+  if (Array.isArray(value)) return 'Collection(Edm.String)';
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) return 'Edm.DateTimeOffset';
+  return 'Edm.String';
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', SIGNING_SECRET).update(value).digest('hex');
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, { 'content-type': 'application/json', 'content-length': Buffer.byteLength(payload) });
+  res.end(payload);
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// ─── Standalone Entry Point ──────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  const argValue = (name: string, fallback: number) => {
+    const i = args.indexOf(name);
+    return i >= 0 ? Number(args[i + 1]) : fallback;
+  };
+
+  const simulator = new MlsGridSimulator({ port: argValue('--port', 4010), maxTop: argValue('--max-top', 5000) });
+  const listings = argValue('--listings', 50);
+  for (let i = 1; i <= listings; i++) simulator.upsert('Property', buildPropertyFixture(i));
+  for (let i = 1; i <= 10; i++) simulator.upsert('Member', buildMemberFixture(i));
+  for (let i = 0; i < 3; i++) simulator.upsert('Office', buildOfficeFixture(i));
+
+  await simulator.start();
+  console.log(`MLS Grid simulator listening on ${simulator.origin}`);
+  console.log(`  MLSGRID_API_BASE_URL=${simulator.apiBaseUrl}`);
+  console.log(`  MLSGRID_API_TOKEN=simulator-token`);
+  console.log(`  R2_ENDPOINT=${simulator.s3Endpoint}`);
+
+  const shutdown = () => simulator.stop().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  main().catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Minimal SMTP server that accepts every message and keeps it in memory, for
+ * testing notification emails locally without a real mail provider.
+ *
+ * Speaks just enough SMTP for nodemailer over plain TCP (no STARTTLS, no AUTH).
+ * Point the worker at it with SMTP_URL=smtp://127.0.0.1:{port}.
+ *
+ * Run standalone with: npm run smtp-catcher -- [--port 1025]
+ * (prints each message's envelope and subject as it arrives)
+ */
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+export interface CaughtMessage {
+  from: string;
+  to: string[];
+  /** Message as received (headers + MIME body), dot-stuffing removed. */
+  raw: string;
+  subject: string;
+  /** `raw` with quoted-printable soft breaks and escapes decoded, for searching. */
+  decoded: string;
+}
+
+export interface SmtpCatcherOptions {
+  port?: number;
+}
+
+export class SmtpCatcher {
+  readonly messages: CaughtMessage[] = [];
+
+  /** Reject this many upcoming messages with a 554 after DATA. */
+  rejectNext = 0;
+
+  private server: Server | null = null;
+  private port = 0;
+  private readonly sockets = new Set<Socket>();
+  private readonly listeners: Array<(message: CaughtMessage) => void> = [];
+
+  constructor(private readonly options: SmtpCatcherOptions = {}) {}
+
+  /** Value for SMTP_URL. */
+  get url(): string {
+    return `smtp://127.0.0.1:${this.port}`;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((socket) => this.handle(socket));
+    await new Promise<void>((resolve) => this.server!.listen(this.options.port ?? 0, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>((resolve, reject) => this.server!.close((err) => (err ? reject(err) : resolve())));
+    this.server = null;
+  }
+
+  /** Clear caught messages and pending rejections. */
+  reset(): void {
+    this.messages.length = 0;
+    this.rejectNext = 0;
+  }
+
+  onMessage(listener: (message: CaughtMessage) => void): void {
+    this.listeners.push(listener);
+  }
+
+  private handle(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.setEncoding('utf8');
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    let buffer = '';
+    let inData = false;
+    let from = '';
+    let to: string[] = [];
+
+    reply('220 smtp-catcher ready');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          const raw = buffer.slice(0, end + 2).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+
+          if (this.rejectNext > 0) {
+            this.rejectNext--;
+            reply('554 Message rejected by smtp-catcher');
+          } else {
+            const message = parseMessage(from, to, raw);
+            this.messages.push(message);
+            for (const listener of this.listeners) listener(message);
+            reply(`250 Queued as ${this.messages.length}`);
+          }
+          from = '';
+          to = [];
+          continue;
+        }
+
+        const eol = buffer.indexOf('\r\n');
+        if (eol < 0) return;
+        const line = buffer.slice(0, eol);
+        buffer = buffer.slice(eol + 2);
+        const verb = line.slice(0, 4).toUpperCase();
+
+        switch (verb) {
+          case 'EHLO':
+          case 'HELO':
+            reply('250 smtp-catcher');
+            break;
+          case 'MAIL':
+            from = extractAddress(line);
+            to = [];
+            reply('250 OK');
+            break;
+          case 'RCPT':
+            to.push(extractAddress(line));
+            reply('250 OK');
+            break;
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'RSET':
+            from = '';
+            to = [];
+            reply('250 OK');
+            break;
+          case 'NOOP':
+            reply('250 OK');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            socket.end();
+            return;
+          default:
+            reply('502 Command not implemented');
+        }
+      }
+    });
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function extractAddress(line: string): string {
+  return line.match(/<([^>]*)>/)?.[1] ?? '';
+}
+
+function parseMessage(from: string, to: string[], raw: string): CaughtMessage {
+  const headerEnd = raw.indexOf('\r\n\r\n');
+  const headers = (headerEnd < 0 ? raw : raw.slice(0, headerEnd)).replace(/\r\n[ \t]+/g, ' ');
+  const subject = headers.match(/^Subject: (.*)$/im)?.[1] ?? '';
+  // Escapes are UTF-8 bytes; the rest of a nodemailer message is 7-bit
+  const decoded = Buffer.from(
+    raw.replace(/=\r\n/g, '').replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1',
+  ).toString('utf8');
+  return { from, to, raw, subject, decoded };
+}
+
+// ─── Standalone Entry Point ──────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const catcher = new SmtpCatcher({ port: portIndex >= 0 ? Number(args[portIndex + 1]) : 1025 });
+  catcher.onMessage((message) => {
+    console.log(`${new Date().toISOString()}  ${message.from} → ${message.to.join(', ')}  ${message.subject}`);
+  });
+
+  await catcher.start();
+  console.log(`SMTP catcher listening`);
+  console.log(`  SMTP_URL=${catcher.url}`);
+
+  const shutdown = () => catcher.stop().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  main().catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
@@ -5,7 +5,7 @@
  * Run with: npx tsx scripts/test-fetch-3.ts
  */
 import 'dotenv/config';
-import { loadEnv, getEnv } from '../src/config/env.js';
+import { loadEnv, getOriginatingSystems } from '../src/config/env.js';
 import { createLogger, getLogger } from '../src/lib/logger.js';
 import { createDb, getDb, closeDb } from '../src/db/connection.js';
 import { createRateLimiter } from '../src/lib/rate-limiter.js';
@@ -39,6 +39,7 @@ async function main() {
     .insert(replicationRuns)
     .values({
       resourceType: 'Property',
+      originatingSystem: getOriginatingSystems()[0],
       runMode: 'initial_import',
       startedAt: new Date(),
       status: 'running',
@@ -49,7 +50,7 @@ async function main() {
   logger.info({ runId }, 'Created test replication run');
 
   // Fetch 3 properties from ACTRIS with $expand=Media,Rooms,UnitTypes
-  const originatingSystem = env.MLSGRID_ORIGINATING_SYSTEM;
+  const originatingSystem = getOriginatingSystems()[0];
   const url = `${env.MLSGRID_API_BASE_URL}/Property?$filter=OriginatingSystemName%20eq%20%27${originatingSystem}%27%20and%20MlgCanView%20eq%20true&$expand=Media,Rooms,UnitTypes&$top=3`;
 
   logger.info({ url: url.substring(0, 120) + '...' }, 'Fetching 3 properties');
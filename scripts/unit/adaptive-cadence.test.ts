@@ -0,0 +1,90 @@
+/**
+ * Adaptive cadence arithmetic: the per-cycle step, the budget stretch and the
+ * time-of-day profile. No database needed:
+ *
+ *   npm test
+ */
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadEnv, getCadenceSec, setAdaptiveCadence } from '../../src/config/env.js';
+import { getBudgetFactorFor, getTimeOfDayFactor, nextBaseSec } from '../../src/scheduler/adaptive-cadence.js';
+
+const bounds = { minSec: 30, maxSec: 600 };
+
+before(() => {
+  Object.assign(process.env, {
+    MLSGRID_API_TOKEN: 'unit-test-token',
+    DATABASE_URL: 'postgres://localhost/unused',
+    R2_ACCOUNT_ID: 'unit',
+    R2_ACCESS_KEY_ID: 'unit',
+    R2_SECRET_ACCESS_KEY: 'unit',
+    R2_ENDPOINT: 'https://r2.invalid',
+    JOB_TIMEZONE: 'America/Chicago',
+    CADENCE_PROPERTY: '60',
+    CADENCE_PROFILE_WEEKDAY: '0-6:4,6-10:0.5,10-18:0.75,22-24:2',
+    CADENCE_PROFILE_WEEKEND: '0-8:4,8-18:1,22-24:2',
+  });
+  loadEnv();
+});
+
+describe('nextBaseSec', () => {
+  it('scales by target / records', () => {
+    assert.equal(nextBaseSec(100, 10, 10, bounds), 100);
+    assert.equal(nextBaseSec(100, 8, 10, bounds), 125);
+  });
+
+  it('at most halves after a busy cycle and grows at most 1.5× after a quiet one', () => {
+    assert.equal(nextBaseSec(100, 1_000, 10, bounds), 50);
+    assert.equal(nextBaseSec(100, 1, 10, bounds), 150);
+    assert.equal(nextBaseSec(100, 0, 10, bounds), 150);
+  });
+
+  it('stays within the bounds', () => {
+    assert.equal(nextBaseSec(40, 1_000, 10, bounds), 30);
+    assert.equal(nextBaseSec(500, 0, 10, bounds), 600);
+  });
+});
+
+describe('getBudgetFactorFor', () => {
+  it('leaves the cadence alone up to half the daily soft cap', () => {
+    assert.equal(getBudgetFactorFor(0), 1);
+    assert.equal(getBudgetFactorFor(0.5), 1);
+  });
+
+  it('stretches linearly up to 5× at the cap and no further', () => {
+    assert.equal(getBudgetFactorFor(0.75), 3);
+    assert.equal(getBudgetFactorFor(1), 5);
+    assert.equal(getBudgetFactorFor(1.4), 5);
+  });
+});
+
+describe('getTimeOfDayFactor', () => {
+  it('uses the weekday profile for the local hour in JOB_TIMEZONE', () => {
+    // Wednesday 2024-03-06: 03:00, 08:00, 12:00, 19:00 and 23:00 CST
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-06T09:00:00Z')), 4);
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-06T14:00:00Z')), 0.5);
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-06T18:00:00Z')), 0.75);
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-07T01:00:00Z')), 1);
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-07T05:00:00Z')), 2);
+  });
+
+  it('uses the weekend profile on Saturday and Sunday, local time', () => {
+    // 07:00 CST on Friday, then Saturday; Saturday 12:00 CST
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-08T13:00:00Z')), 0.5);
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-09T13:00:00Z')), 4);
+    assert.equal(getTimeOfDayFactor(new Date('2024-03-09T18:00:00Z')), 1);
+  });
+});
+
+describe('getCadenceSec', () => {
+  it('keeps adaptive cadences per originating system', () => {
+    setAdaptiveCadence('actris', 'Property', 90);
+    try {
+      assert.equal(getCadenceSec('Property', 'actris'), 90);
+      assert.equal(getCadenceSec('Property', 'har'), 60);
+    } finally {
+      setAdaptiveCadence('actris', 'Property', null);
+    }
+    assert.equal(getCadenceSec('Property', 'actris'), 60);
+  });
+});
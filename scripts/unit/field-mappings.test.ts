@@ -0,0 +1,98 @@
+/**
+ * Field-mapping coercions and the spec's validation against the schema. No
+ * database needed:
+ *
+ *   npm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  coerceFieldValue,
+  validateFieldMappings,
+  type FieldCoercion,
+  type FieldMapping,
+} from '../../src/transform/field-mappings.js';
+
+const as = (type: FieldCoercion, extra: Partial<FieldMapping> = {}): FieldMapping => ({
+  column: 'listPrice',
+  source: 'ListPrice',
+  type,
+  ...extra,
+});
+
+describe('coerceFieldValue', () => {
+  it('writes numerics as decimal strings without losing precision', () => {
+    assert.equal(coerceFieldValue(as('numeric'), 450000), '450000');
+    assert.equal(coerceFieldValue(as('numeric'), ' 4934.00 '), '4934.00');
+    assert.equal(coerceFieldValue(as('numeric'), '12345678901234567890.123456789'), '12345678901234567890.123456789');
+    assert.equal(coerceFieldValue(as('numeric'), '0.1000000000000000055511151231257827'), '0.1000000000000000055511151231257827');
+    assert.equal(coerceFieldValue(as('numeric'), '-1.5e3'), '-1.5e3');
+  });
+
+  it('rejects numerics that are not decimal literals', () => {
+    for (const value of ['', 'abc', '12abc', '0x10', '1,000', 'Infinity', NaN, true]) {
+      assert.equal(coerceFieldValue(as('numeric'), value), null, `numeric ${String(value)}`);
+    }
+  });
+
+  it('truncates integers and rejects unsafe or invalid ones', () => {
+    assert.equal(coerceFieldValue(as('integer'), 3), 3);
+    assert.equal(coerceFieldValue(as('integer'), '2.9'), 2);
+    assert.equal(coerceFieldValue(as('integer'), ' 1999 '), 1999);
+    assert.equal(coerceFieldValue(as('integer'), '9007199254740993'), null);
+    assert.equal(coerceFieldValue(as('integer'), 'n/a'), null);
+  });
+
+  it('accepts boolean spellings and rejects the rest', () => {
+    assert.equal(coerceFieldValue(as('boolean'), true), true);
+    assert.equal(coerceFieldValue(as('boolean'), 'Y'), true);
+    assert.equal(coerceFieldValue(as('boolean'), ' false '), false);
+    assert.equal(coerceFieldValue(as('boolean'), 0), false);
+    assert.equal(coerceFieldValue(as('boolean'), 'maybe'), null);
+  });
+
+  it('formats dates as YYYY-MM-DD and timestamps as Dates', () => {
+    assert.equal(coerceFieldValue(as('date'), '2024-03-05'), '2024-03-05');
+    assert.equal(coerceFieldValue(as('date'), '2024-03-05T23:00:00Z'), '2024-03-05');
+    assert.equal(coerceFieldValue(as('date'), 'not a date'), null);
+    assert.deepEqual(coerceFieldValue(as('timestamp'), '2024-03-05T12:00:00.000Z'), new Date('2024-03-05T12:00:00.000Z'));
+    assert.equal(coerceFieldValue(as('timestamp'), 'soon'), null);
+  });
+
+  it('wraps scalars for text arrays and joins arrays for text', () => {
+    assert.deepEqual(coerceFieldValue(as('textArray'), ['Pool', 'Spa']), ['Pool', 'Spa']);
+    assert.deepEqual(coerceFieldValue(as('textArray'), 'Pool'), ['Pool']);
+    assert.deepEqual(coerceFieldValue(as('textArray'), [1, 2]), ['1', '2']);
+    assert.equal(coerceFieldValue(as('text'), ['Pool', 'Spa']), 'Pool, Spa');
+    assert.equal(coerceFieldValue(as('text'), 42), '42');
+  });
+
+  it('falls back to the default for missing or invalid values', () => {
+    const withDefault = as('text', { default: 'actris' });
+    assert.equal(coerceFieldValue(withDefault, undefined), 'actris');
+    assert.equal(coerceFieldValue(withDefault, null), 'actris');
+    assert.equal(coerceFieldValue(as('numeric', { default: 0 }), 'abc'), 0);
+    assert.equal(coerceFieldValue(as('numeric'), undefined), null);
+  });
+});
+
+describe('validateFieldMappings', () => {
+  it('accepts the shipped property spec', () => {
+    validateFieldMappings();
+  });
+
+  it('lists every problem with a spec', () => {
+    assert.throws(
+      () =>
+        validateFieldMappings([
+          { column: 'nope' as FieldMapping['column'], source: 'Nope', type: 'text' },
+          { column: 'listPrice', source: 'ListPrice', type: 'boolean' },
+          { column: 'geog', source: 'Coordinates', type: 'text' },
+        ]),
+      (err: Error) =>
+        /"nope" does not exist/.test(err.message) &&
+        /"boolean" can't be written to a numeric column/.test(err.message) &&
+        /"geog" is derived/.test(err.message),
+    );
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * HWM tracking with records settling out of order. No database needed:
+ *
+ *   npm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HwmTracker } from '../../src/pipeline/hwm-tracker.js';
+
+const ts = (second: number) => `2024-01-01T00:00:${String(second).padStart(2, '0')}.000Z`;
+
+describe('HwmTracker', () => {
+  it('advances only over the contiguous prefix of settled records', () => {
+    const records = [1, 2, 3, 4].map((second) => ({ second }));
+    const tracker = new HwmTracker<{ second: number }>(new Date(ts(0)));
+    for (const record of records) tracker.add(record, ts(record.second));
+
+    // Later records finish first: nothing before them has settled yet
+    tracker.settle(records[2]);
+    tracker.settle(records[3]);
+    assert.equal(tracker.value?.toISOString(), ts(0));
+    assert.equal(tracker.inFlight, 4);
+
+    tracker.settle(records[0]);
+    assert.equal(tracker.value?.toISOString(), ts(1));
+    assert.equal(tracker.inFlight, 3);
+
+    // The gap closes and the HWM jumps over everything already settled
+    tracker.settle(records[1]);
+    assert.equal(tracker.value?.toISOString(), ts(4));
+    assert.equal(tracker.inFlight, 0);
+  });
+
+  it('moves past a failed record only once the caller settles it', () => {
+    const [ok, failed, later] = [1, 2, 3].map((second) => ({ second }));
+    const tracker = new HwmTracker<{ second: number }>(null);
+    tracker.add(ok, ts(1));
+    tracker.add(failed, ts(2));
+    tracker.add(later, ts(3));
+
+    tracker.settle(ok);
+    tracker.settle(later);
+    assert.equal(tracker.value?.toISOString(), ts(1));
+
+    // e.g. after it has been dead-lettered
+    tracker.settle(failed);
+    assert.equal(tracker.value?.toISOString(), ts(3));
+  });
+
+  it('never moves backwards and ignores records without a timestamp or unknown to it', () => {
+    const tracker = new HwmTracker<object>(new Date(ts(5)));
+    const older = {};
+    const untimed = {};
+    tracker.add(older, ts(2));
+    tracker.add(untimed, undefined);
+
+    tracker.settle({});
+    tracker.settle(older);
+    tracker.settle(untimed);
+    assert.equal(tracker.value?.toISOString(), ts(5));
+    assert.equal(tracker.inFlight, 0);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Keyed worker pool: concurrency bound and per-key ordering. No database needed:
+ *
+ *   npm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyedWorkerPool } from '../../src/lib/worker-pool.js';
+
+// A task that records when it starts and ends and finishes once released
+function deferredTask(log: string[], name: string) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return {
+    finish: () => finish(),
+    run: async () => {
+      log.push(`${name} start`);
+      await done;
+      log.push(`${name} end`);
+      return name;
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('KeyedWorkerPool', () => {
+  it('runs tasks with the same key one after another, in submission order', async () => {
+    const pool = new KeyedWorkerPool(4);
+    const log: string[] = [];
+    const first = deferredTask(log, 'a1');
+    const second = deferredTask(log, 'a2');
+    const other = deferredTask(log, 'b1');
+
+    const results = [pool.run('a', first.run), pool.run('a', second.run), pool.run('b', other.run)];
+    await tick();
+    // a2 waits for a1 even though slots are free; b1 runs alongside
+    assert.deepEqual(log, ['a1 start', 'b1 start']);
+
+    second.finish();
+    other.finish();
+    await tick();
+    assert.deepEqual(log, ['a1 start', 'b1 start', 'b1 end']);
+
+    first.finish();
+    assert.deepEqual(await Promise.all(results), ['a1', 'a2', 'b1']);
+    assert.deepEqual(log, ['a1 start', 'b1 start', 'b1 end', 'a1 end', 'a2 start', 'a2 end']);
+  });
+
+  it('starts the next task for a key even when its predecessor failed', async () => {
+    const pool = new KeyedWorkerPool(1);
+    const failing = pool.run('a', async () => {
+      throw new Error('boom');
+    });
+    const next = pool.run('a', async () => 'ran');
+
+    await assert.rejects(failing, /boom/);
+    assert.equal(await next, 'ran');
+  });
+
+  it('never runs more than `concurrency` tasks at once', async () => {
+    const pool = new KeyedWorkerPool(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    };
+
+    await Promise.all([pool.run(null, task), pool.run(null, task), pool.run('x', task), pool.run('y', task), pool.run(null, task)]);
+    assert.equal(peak, 2);
+  });
+
+  it('rejects a concurrency that is not a positive integer', () => {
+    assert.throws(() => new KeyedWorkerPool(0), /positive integer/);
+  });
+});
@@ -0,0 +1,25 @@
+import { getLogger } from '../lib/logger.js';
+import { notifyIfNeeded, type AlertEvent } from './notify.js';
+import { enqueueWebhookDeliveries } from './webhooks.js';
+
+/**
+ * Hand committed alert events to saved-search notifications and webhooks.
+ * Failures are logged, not thrown: the data change is already committed and
+ * shouldn't be reported as failed because an alert couldn't be queued.
+ */
+export async function dispatchAlerts(events: AlertEvent[]): Promise<void> {
+  const logger = getLogger();
+
+  for (const event of events) {
+    try {
+      await notifyIfNeeded(event);
+    } catch (err) {
+      logger.error({ err, listingKey: event.listingKey, type: event.type }, 'Saved-search alert evaluation failed — continuing');
+    }
+    try {
+      await enqueueWebhookDeliveries(event);
+    } catch (err) {
+      logger.error({ err, listingKey: event.listingKey, type: event.type }, 'Failed to queue webhook deliveries — continuing');
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { getEnv } from '../config/env.js';
+import { classifyPriceChange } from './lifecycle.js';
+import type { AlertEventType } from './notify.js';
+
+/**
+ * SMTP email channel and the templates for alert emails.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface NotificationChannel {
+  name: string;
+  /** Hand the message to the provider; resolves with its message id once accepted. */
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+/** One notification with the listing details the templates show. */
+export interface EmailNotificationItem {
+  changeType: AlertEventType;
+  oldValue: string | null;
+  newValue: string | null;
+  listingKey: string;
+  listingId: string | null;
+  address: string | null;
+  city: string | null;
+  listPrice: string | null;
+  standardStatus: string | null;
+  bedroomsTotal: string | null;
+  bathroomsTotal: string | null;
+  photoUrl: string | null;
+}
+
+let _transport: Transporter | null = null;
+
+/** SMTP channel for SMTP_URL. */
+export function createEmailChannel(): NotificationChannel {
+  const env = getEnv();
+  if (!env.SMTP_URL) {
+    throw new Error('SMTP_URL is not set');
+  }
+  if (!_transport) {
+    _transport = nodemailer.createTransport(env.SMTP_URL);
+  }
+  const transport = _transport;
+
+  return {
+    name: 'email',
+    async send(message) {
+      const info = await transport.sendMail({ from: env.NOTIFICATION_EMAIL_FROM, ...message });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Render the email for a batch of notifications: a single alert for instant
+ * delivery, or a digest listing every change since the last send.
+ */
+export function renderNotificationEmail(
+  items: EmailNotificationItem[],
+  frequency: 'instant' | 'hourly' | 'daily',
+): Omit<EmailMessage, 'to'> {
+  const subject =
+    items.length === 1
+      ? `${items[0].address ?? items[0].listingId ?? items[0].listingKey}: ${describeChange(items[0])}`
+      : `${items.length} updates on your saved searches${frequency === 'instant' ? '' : ` (${frequency} digest)`}`;
+
+  const html = `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f4;font-family:Helvetica,Arial,sans-serif;color:#222">
+<table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#fff;border-collapse:collapse">
+${items.map(renderItemHtml).join('\n')}
+</table>
+<p style="max-width:600px;margin:16px auto 0;font-size:12px;color:#888">You're receiving this because of a saved search. Manage alerts in your account settings.</p>
+</body>
+</html>`;
+
+  const text = [
+    ...items.map(renderItemText),
+    "You're receiving this because of a saved search. Manage alerts in your account settings.",
+  ].join('\n\n');
+
+  return { subject, html, text };
+}
+
+/** One-line description of the change, e.g. "Price reduced from $450,000 to $435,000 (-$15,000, -3.33%)". */
+export function describeChange(item: Pick<EmailNotificationItem, 'changeType' | 'oldValue' | 'newValue'>): string {
+  switch (item.changeType) {
+    case 'new_listing':
+      return 'New listing';
+    case 'price_reduced':
+    case 'price_increased':
+    case 'price_change': {
+      const change = classifyPriceChange(item.oldValue, item.newValue);
+      const direction = change?.type === 'price_increased' ? 'increased' : change ? 'reduced' : 'changed';
+      const detail = change
+        ? ` (${change.amount < 0 ? '-' : '+'}${formatPrice(String(Math.abs(change.amount)))}${change.percent !== null ? `, ${change.percent > 0 ? '+' : ''}${change.percent}%` : ''})`
+        : '';
+      return `Price ${direction} from ${formatPrice(item.oldValue)} to ${formatPrice(item.newValue)}${detail}`;
+    }
+    case 'went_pending':
+      return `Now ${item.newValue ?? 'pending'}`;
+    case 'sold':
+      return 'Sold';
+    case 'withdrawn':
+      return `Off the market (${item.newValue ?? 'withdrawn'})`;
+    case 'back_on_market':
+      return `Back on the market (was ${item.oldValue ?? 'off market'})`;
+    case 'status_change':
+      return `Status changed from ${item.oldValue ?? 'unknown'} to ${item.newValue ?? 'unknown'}`;
+    case 'photos_added':
+      return 'New photos added';
+    case 'open_house_scheduled':
+      return `Open house ${item.newValue ? formatDateTime(item.newValue) : 'scheduled'}`;
+    case 'open_house_cancelled':
+      return `Open house${item.oldValue ? ` on ${formatDateTime(item.oldValue)}` : ''} cancelled`;
+    case 'property_deleted':
+      return 'No longer available';
+    case 'property_updated':
+      return 'Listing updated';
+  }
+}
+
+function renderItemHtml(item: EmailNotificationItem): string {
+  const url = listingUrl(item);
+  const title = escapeHtml(item.address ?? item.listingId ?? item.listingKey);
+  const facts = [
+    formatPrice(item.listPrice),
+    item.bedroomsTotal ? `${Number(item.bedroomsTotal)} bd` : null,
+    item.bathroomsTotal ? `${Number(item.bathroomsTotal)} ba` : null,
+    item.city,
+    item.standardStatus,
+  ].filter(Boolean);
+
+  const photo = item.photoUrl
+    ? `<img src="${escapeHtml(item.photoUrl)}" alt="${title}" width="600" style="display:block;width:100%;max-width:600px;height:auto;border:0">`
+    : '';
+  return `<tr><td style="padding:0 0 24px">
+${url ? `<a href="${escapeHtml(url)}">${photo}</a>` : photo}
+<div style="padding:12px 16px 0">
+<p style="margin:0 0 4px;font-size:14px;font-weight:bold;color:#c0392b">${escapeHtml(describeChange(item))}</p>
+<p style="margin:0 0 4px;font-size:18px">${url ? `<a href="${escapeHtml(url)}" style="color:#222">${title}</a>` : title}</p>
+<p style="margin:0;font-size:14px;color:#555">${escapeHtml(facts.join(' · '))}</p>
+</div>
+</td></tr>`;
+}
+
+function renderItemText(item: EmailNotificationItem): string {
+  const url = listingUrl(item);
+  return [
+    describeChange(item),
+    item.address ?? item.listingId ?? item.listingKey,
+    [formatPrice(item.listPrice), item.city, item.standardStatus].filter(Boolean).join(' · '),
+    url,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function listingUrl(item: EmailNotificationItem): string | null {
+  const template = getEnv().NOTIFICATION_LISTING_URL;
+  if (!template) return null;
+  return template
+    .replace('{listingKey}', encodeURIComponent(item.listingKey))
+    .replace('{listingId}', encodeURIComponent(item.listingId ?? item.listingKey));
+}
+
+function formatPrice(value: string | null): string {
+  if (value === null || !Number.isFinite(Number(value))) return 'N/A';
+  return `$${Math.round(Number(value)).toLocaleString('en-US')}`;
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return date.toLocaleString('en-US', {
+    timeZone: 'America/Chicago',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
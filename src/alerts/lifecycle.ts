@@ -0,0 +1,99 @@
+import type { AlertEvent, AlertEventType } from './notify.js';
+
+/**
+ * Listing lifecycle classification: turns a listing's before/after values into
+ * the alert events users care about (went pending, price reduced, …).
+ */
+
+// StandardStatus groups (RESO lookup values)
+const ON_MARKET_STATUSES = new Set(['Active', 'Coming Soon']);
+const PENDING_STATUSES = new Set(['Pending', 'Active Under Contract']);
+const CLOSED_STATUSES = new Set(['Closed']);
+const OFF_MARKET_STATUSES = new Set(['Withdrawn', 'Expired', 'Canceled', 'Hold']);
+
+interface ListingSnapshot {
+  standardStatus: string | null;
+  listPrice: string | null;
+  photosCount: number | null;
+}
+
+/**
+ * Classify a StandardStatus transition. Returns null for no change, or a
+ * change that isn't a lifecycle milestone (e.g. Active → Coming Soon).
+ */
+export function classifyStatusTransition(
+  oldStatus: string | null,
+  newStatus: string | null,
+): Extract<AlertEventType, 'back_on_market' | 'went_pending' | 'sold' | 'withdrawn'> | null {
+  if (newStatus === null || oldStatus === newStatus) return null;
+  if (CLOSED_STATUSES.has(newStatus)) return 'sold';
+  if (PENDING_STATUSES.has(newStatus)) return oldStatus && PENDING_STATUSES.has(oldStatus) ? null : 'went_pending';
+  if (OFF_MARKET_STATUSES.has(newStatus)) return oldStatus && OFF_MARKET_STATUSES.has(oldStatus) ? null : 'withdrawn';
+  if (ON_MARKET_STATUSES.has(newStatus) && oldStatus !== null) {
+    return PENDING_STATUSES.has(oldStatus) || OFF_MARKET_STATUSES.has(oldStatus) || CLOSED_STATUSES.has(oldStatus)
+      ? 'back_on_market'
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Classify a ListPrice change, with the signed amount and the percentage of the
+ * old price (2 decimals; null when there was no old price).
+ */
+export function classifyPriceChange(
+  oldPrice: string | null,
+  newPrice: string | null,
+): { type: 'price_reduced' | 'price_increased'; amount: number; percent: number | null } | null {
+  if (newPrice === null || oldPrice === null) return null;
+  const before = Number(oldPrice);
+  const after = Number(newPrice);
+  if (!Number.isFinite(before) || !Number.isFinite(after) || before === after) return null;
+
+  const amount = after - before;
+  return {
+    type: amount < 0 ? 'price_reduced' : 'price_increased',
+    amount,
+    percent: before === 0 ? null : Math.round((amount / before) * 10_000) / 100,
+  };
+}
+
+/**
+ * Alert events for an update of an existing listing: the generic
+ * status_change/price_change events plus their lifecycle classification, and
+ * photos_added when the photo count grew.
+ */
+export function classifyListingUpdate(
+  listingKey: string,
+  existing: ListingSnapshot,
+  incoming: ListingSnapshot,
+): AlertEvent[] {
+  const events: AlertEvent[] = [];
+
+  if (incoming.standardStatus !== null && existing.standardStatus !== incoming.standardStatus) {
+    const change = { listingKey, oldValue: existing.standardStatus, newValue: incoming.standardStatus };
+    events.push({ type: 'status_change', ...change });
+    const lifecycle = classifyStatusTransition(existing.standardStatus, incoming.standardStatus);
+    if (lifecycle) events.push({ type: lifecycle, ...change });
+  }
+
+  if (incoming.listPrice !== null && existing.listPrice !== incoming.listPrice) {
+    const change = { listingKey, oldValue: existing.listPrice, newValue: incoming.listPrice };
+    events.push({ type: 'price_change', ...change });
+    const price = classifyPriceChange(existing.listPrice, incoming.listPrice);
+    if (price) {
+      events.push({ type: price.type, ...change, priceChange: { amount: price.amount, percent: price.percent } });
+    }
+  }
+
+  if (incoming.photosCount !== null && incoming.photosCount > (existing.photosCount ?? 0)) {
+    events.push({
+      type: 'photos_added',
+      listingKey,
+      oldValue: existing.photosCount?.toString() ?? null,
+      newValue: incoming.photosCount.toString(),
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,258 @@
+import { and, asc, eq, inArray, lt, sql } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { properties } from '../db/schema/properties.js';
+import { media } from '../db/schema/media.js';
+import {
+  userNotifications,
+  notificationRecipients,
+  notificationSends,
+  type NotificationRecipient,
+} from '../db/schema/saved-searches.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+import { renderNotificationEmail, type NotificationChannel, type EmailNotificationItem } from './email.js';
+import type { AlertEventType } from './notify.js';
+
+export const DIGEST_FREQUENCIES = ['instant', 'hourly', 'daily'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+const DIGEST_INTERVAL_MS: Record<DigestFrequency, number> = {
+  instant: 0,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+// A 'sending' row older than this belongs to a process that died mid-send
+const STALE_SEND_MS = 10 * 60 * 1000;
+
+// Notifications per email; the rest go out in the next one
+const MAX_ITEMS_PER_EMAIL = 50;
+
+export interface DispatchResult {
+  sent: number;
+  failed: number;
+  interrupted: number;
+}
+
+/**
+ * Send every recipient whose digest is due an email with their pending
+ * notifications.
+ *
+ * Send state is persisted around the SMTP call: notifications are claimed
+ * ('sending', linked to a notification_sends row) before the message is handed
+ * over, and marked 'sent' after. If the process dies in between, the send is
+ * found still 'sending' on a later pass and marked 'interrupted' rather than
+ * retried — a user may miss one email, but never gets the same one twice.
+ * A send that fails to render or that SMTP rejects is known not to have gone
+ * out, so its notifications are released for the next pass (up to
+ * NOTIFICATION_MAX_ATTEMPTS).
+ */
+export async function runNotificationDispatch(channel: NotificationChannel): Promise<DispatchResult> {
+  const db = getDb();
+  const logger = getLogger();
+  const result: DispatchResult = { sent: 0, failed: 0, interrupted: await markInterruptedSends() };
+
+  const pending = await db
+    .select({ userId: userNotifications.userId })
+    .from(userNotifications)
+    .innerJoin(notificationRecipients, eq(notificationRecipients.userId, userNotifications.userId))
+    .where(and(eq(userNotifications.status, 'pending'), eq(notificationRecipients.enabled, true)))
+    .groupBy(userNotifications.userId);
+  if (pending.length === 0) return result;
+
+  const recipients = await db
+    .select()
+    .from(notificationRecipients)
+    .where(inArray(notificationRecipients.userId, pending.map((p) => p.userId)));
+
+  const now = Date.now();
+  for (const recipient of recipients) {
+    if (!isDigestDue(recipient, now)) continue;
+    try {
+      if (await sendToRecipient(channel, recipient)) {
+        result.sent++;
+      } else {
+        result.failed++;
+      }
+    } catch (err) {
+      logger.error({ err, userId: recipient.userId }, 'Notification dispatch failed for recipient — continuing');
+      result.failed++;
+    }
+  }
+
+  if (result.sent + result.failed + result.interrupted > 0) {
+    logger.info(result, 'Notification dispatch pass complete');
+  }
+  return result;
+}
+
+function digestFrequency(recipient: NotificationRecipient): DigestFrequency {
+  return (DIGEST_FREQUENCIES as readonly string[]).includes(recipient.digestFrequency)
+    ? (recipient.digestFrequency as DigestFrequency)
+    : 'instant';
+}
+
+function isDigestDue(recipient: NotificationRecipient, now: number): boolean {
+  if (!recipient.lastSentAt) return true;
+  return now - recipient.lastSentAt.getTime() >= DIGEST_INTERVAL_MS[digestFrequency(recipient)];
+}
+
+/** Claim, render and send one recipient's pending notifications. Returns whether the email went out. */
+async function sendToRecipient(channel: NotificationChannel, recipient: NotificationRecipient): Promise<boolean> {
+  const db = getDb();
+  const env = getEnv();
+  const logger = getLogger();
+  const frequency = digestFrequency(recipient);
+
+  // Claim the notifications and record the send before anything leaves the process
+  const claim = await db.transaction(async (tx) => {
+    const notifications = await tx
+      .select()
+      .from(userNotifications)
+      .where(and(eq(userNotifications.userId, recipient.userId), eq(userNotifications.status, 'pending')))
+      .orderBy(asc(userNotifications.id))
+      .limit(MAX_ITEMS_PER_EMAIL)
+      .for('update', { skipLocked: true });
+    if (notifications.length === 0) return null;
+
+    const [send] = await tx
+      .insert(notificationSends)
+      .values({
+        userId: recipient.userId,
+        channel: channel.name,
+        recipient: recipient.email,
+        frequency,
+        status: 'sending',
+        notificationCount: notifications.length,
+      })
+      .returning({ id: notificationSends.id });
+    await tx
+      .update(userNotifications)
+      .set({ status: 'sending', sendId: send.id })
+      .where(inArray(userNotifications.id, notifications.map((n) => n.id)));
+    return { sendId: send.id, notifications };
+  });
+  if (!claim) return false;
+
+  let messageId: string;
+  try {
+    const items = await loadEmailItems(claim.notifications);
+    const message = { to: recipient.email, ...renderNotificationEmail(items, frequency) };
+    ({ messageId } = await channel.send(message));
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    // Failed to render or rejected by SMTP, so nothing was sent: release the notifications for another try
+    await db.transaction(async (tx) => {
+      await tx
+        .update(notificationSends)
+        .set({ status: 'failed', errorMessage })
+        .where(eq(notificationSends.id, claim.sendId));
+      await tx
+        .update(userNotifications)
+        .set({
+          attempts: sql`${userNotifications.attempts} + 1`,
+          status: sql`CASE WHEN ${userNotifications.attempts} + 1 >= ${env.NOTIFICATION_MAX_ATTEMPTS} THEN 'failed' ELSE 'pending' END`,
+          sendId: null,
+        })
+        .where(eq(userNotifications.sendId, claim.sendId));
+    });
+    logger.warn({ err, userId: recipient.userId, sendId: claim.sendId }, 'Notification email not sent');
+    return false;
+  }
+
+  const sentAt = new Date();
+  await db.transaction(async (tx) => {
+    await tx
+      .update(notificationSends)
+      .set({ status: 'sent', messageId, sentAt })
+      .where(eq(notificationSends.id, claim.sendId));
+    await tx
+      .update(userNotifications)
+      .set({ status: 'sent', sentAt })
+      .where(eq(userNotifications.sendId, claim.sendId));
+    await tx
+      .update(notificationRecipients)
+      .set({ lastSentAt: sentAt })
+      .where(eq(notificationRecipients.userId, recipient.userId));
+  });
+
+  logger.info(
+    { userId: recipient.userId, sendId: claim.sendId, notifications: claim.notifications.length, frequency },
+    'Notification email sent',
+  );
+  return true;
+}
+
+/**
+ * Close sends a dead process left in 'sending'. Whether the email went out is
+ * unknown, so they are not retried.
+ */
+async function markInterruptedSends(): Promise<number> {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - STALE_SEND_MS);
+
+  return db.transaction(async (tx) => {
+    const stale = await tx
+      .update(notificationSends)
+      .set({ status: 'interrupted', errorMessage: 'Process stopped before the send was confirmed' })
+      .where(and(eq(notificationSends.status, 'sending'), lt(notificationSends.createdAt, cutoff)))
+      .returning({ id: notificationSends.id });
+    if (stale.length === 0) return 0;
+
+    await tx
+      .update(userNotifications)
+      .set({ status: 'interrupted' })
+      .where(inArray(userNotifications.sendId, stale.map((s) => s.id)));
+    getLogger().warn({ sendIds: stale.map((s) => s.id) }, 'Interrupted notification sends found — not retrying');
+    return stale.length;
+  });
+}
+
+/** Join the listing details and primary photo the templates need. */
+async function loadEmailItems(
+  notifications: Array<{ listingKey: string; changeType: string; oldValue: string | null; newValue: string | null }>,
+): Promise<EmailNotificationItem[]> {
+  const db = getDb();
+  const keys = [...new Set(notifications.map((n) => n.listingKey))];
+
+  const listings = await db
+    .select({
+      listingKey: properties.listingKey,
+      listingId: properties.listingId,
+      address: properties.unparsedAddress,
+      city: properties.city,
+      listPrice: properties.listPrice,
+      standardStatus: properties.standardStatus,
+      bedroomsTotal: properties.bedroomsTotal,
+      bathroomsTotal: properties.bathroomsTotal,
+    })
+    .from(properties)
+    .where(inArray(properties.listingKey, keys));
+  const listingByKey = new Map(listings.map((l) => [l.listingKey, l]));
+
+  // First stored photo per listing
+  const photos = await db
+    .selectDistinctOn([media.listingKey], { listingKey: media.listingKey, publicUrl: media.publicUrl })
+    .from(media)
+    .where(and(inArray(media.listingKey, keys), eq(media.status, 'complete'), sql`${media.publicUrl} IS NOT NULL`))
+    .orderBy(media.listingKey, asc(media.mediaOrder));
+  const photoByKey = new Map(photos.map((p) => [p.listingKey, p.publicUrl]));
+
+  return notifications.map((n) => {
+    const listing = listingByKey.get(n.listingKey);
+    return {
+      changeType: n.changeType as AlertEventType,
+      oldValue: n.oldValue,
+      newValue: n.newValue,
+      listingKey: n.listingKey,
+      listingId: listing?.listingId ?? null,
+      address: listing?.address ?? null,
+      city: listing?.city ?? null,
+      listPrice: listing?.listPrice ?? null,
+      standardStatus: listing?.standardStatus ?? null,
+      bedroomsTotal: listing?.bedroomsTotal ?? null,
+      bathroomsTotal: listing?.bathroomsTotal ?? null,
+      photoUrl: photoByKey.get(n.listingKey) ?? null,
+    };
+  });
+}
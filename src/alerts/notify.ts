@@ -1,22 +1,123 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { properties } from '../db/schema/properties.js';
+import { savedSearches, userNotifications, type NewUserNotification } from '../db/schema/saved-searches.js';
+import { getLogger } from '../lib/logger.js';
+
 /**
- * Phase 3 alert interface — strictly no-op in Phase 1.
- * The function signature and call site exist, but the body is empty.
- * Phase 3 implements the body; user lookup is handled internally at that point.
+ * Saved-search alerts: property events are matched against users' saved
+ * searches and queued in user_notifications for delivery.
  */
 
+export const ALERT_EVENT_TYPES = [
+  // Raw changes
+  'property_updated',
+  'property_deleted',
+  'price_change',
+  'status_change',
+  // Lifecycle milestones (see alerts/lifecycle.ts)
+  'new_listing',
+  'back_on_market',
+  'went_pending',
+  'sold',
+  'withdrawn',
+  'price_reduced',
+  'price_increased',
+  'photos_added',
+  'open_house_scheduled',
+  'open_house_cancelled',
+] as const;
+export type AlertEventType = (typeof ALERT_EVENT_TYPES)[number];
+
 export interface AlertEvent {
-  type: 'property_updated' | 'property_deleted' | 'price_change' | 'status_change';
+  type: AlertEventType;
   listingKey: string;
   oldValue: string | null;
   newValue: string | null;
+  /** price_reduced / price_increased: signed difference and percent of the old price. */
+  priceChange?: { amount: number; percent: number | null };
+  /** open_house_scheduled / open_house_cancelled. */
+  openHouseKey?: string;
 }
 
+// Alert types a saved search receives when it doesn't choose its own: the
+// lifecycle milestones, not the raw changes they're derived from
+const DEFAULT_ALERT_TYPES: AlertEventType[] = [
+  'new_listing',
+  'back_on_market',
+  'went_pending',
+  'sold',
+  'withdrawn',
+  'price_reduced',
+  'open_house_scheduled',
+  'open_house_cancelled',
+  'property_deleted',
+];
+
 /**
- * Evaluate whether an alert should be sent for this event.
- * Phase 1: no-op. Does NOT query saved_searches or any Phase 2 tables.
+ * Queue a notification for every user with an active saved search matching
+ * the event's listing. Called after the listing's transaction has committed,
+ * so the criteria are evaluated against the listing as just written.
+ *
+ * Matching is a single query: the indexed criteria (price range, GIN on
+ * property type/city/postal arrays, GiST on the search area) narrow the
+ * candidates before the keyword scan of public_remarks.
  */
-export async function notifyIfNeeded(_event: AlertEvent): Promise<void> {
-  // No-op in Phase 1
-  // Phase 3 will implement: look up users who saved this property,
-  // check saved search criteria, and dispatch notifications.
+export async function notifyIfNeeded(event: AlertEvent): Promise<void> {
+  const db = getDb();
+  const defaultTypes = sql.join(DEFAULT_ALERT_TYPES.map((t) => sql`${t}`), sql`, `);
+
+  const matches = await db
+    .select({ id: savedSearches.id, userId: savedSearches.userId })
+    .from(savedSearches)
+    .innerJoin(properties, eq(properties.listingKey, event.listingKey))
+    .where(
+      and(
+        eq(savedSearches.active, true),
+        sql`${event.type} = ANY(coalesce(${savedSearches.alertTypes}, ARRAY[${defaultTypes}]::text[]))`,
+        sql`(${savedSearches.minPrice} IS NULL OR ${properties.listPrice} >= ${savedSearches.minPrice})`,
+        sql`(${savedSearches.maxPrice} IS NULL OR ${properties.listPrice} <= ${savedSearches.maxPrice})`,
+        sql`(${savedSearches.minBeds} IS NULL OR ${properties.bedroomsTotal} >= ${savedSearches.minBeds})`,
+        sql`(${savedSearches.maxBeds} IS NULL OR ${properties.bedroomsTotal} <= ${savedSearches.maxBeds})`,
+        sql`(${savedSearches.minBaths} IS NULL OR ${properties.bathroomsTotal} >= ${savedSearches.minBaths})`,
+        sql`(${savedSearches.maxBaths} IS NULL OR ${properties.bathroomsTotal} <= ${savedSearches.maxBaths})`,
+        sql`(${savedSearches.propertyTypes} IS NULL OR ${savedSearches.propertyTypes} @> ARRAY[${properties.propertyType}]::text[])`,
+        sql`(${savedSearches.cities} IS NULL OR ${savedSearches.cities} @> ARRAY[${properties.city}]::text[])`,
+        sql`(${savedSearches.postalCodes} IS NULL OR ${savedSearches.postalCodes} @> ARRAY[${properties.postalCode}]::text[])`,
+        sql`(${savedSearches.area} IS NULL OR ST_Covers(${savedSearches.area}, ${properties.geog}))`,
+        sql`(${savedSearches.center} IS NULL OR ST_DWithin(${savedSearches.center}, ${properties.geog}, ${savedSearches.radiusMeters}))`,
+        sql`(${savedSearches.keywords} IS NULL OR NOT EXISTS (
+          SELECT 1 FROM unnest(${savedSearches.keywords}) AS k(word)
+          WHERE strpos(lower(coalesce(${properties.publicRemarks}, '')), lower(k.word)) = 0
+        ))`,
+      ),
+    );
+  if (matches.length === 0) return;
+
+  // One notification per user, whichever of their searches matched first
+  const dedupKey = `${event.listingKey}:${event.type}:${event.newValue ?? ''}`;
+  const byUser = new Map<string, NewUserNotification>();
+  for (const match of matches) {
+    if (byUser.has(match.userId)) continue;
+    byUser.set(match.userId, {
+      userId: match.userId,
+      savedSearchId: match.id,
+      listingKey: event.listingKey,
+      changeType: event.type,
+      oldValue: event.oldValue,
+      newValue: event.newValue,
+      dedupKey,
+    });
+  }
+
+  const queued = await db
+    .insert(userNotifications)
+    .values([...byUser.values()])
+    .onConflictDoNothing({ target: [userNotifications.userId, userNotifications.dedupKey] })
+    .returning({ id: userNotifications.id });
+
+  getLogger().debug(
+    { listingKey: event.listingKey, type: event.type, matchedSearches: matches.length, queued: queued.length },
+    'Saved-search notifications queued',
+  );
 }
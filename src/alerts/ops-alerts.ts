@@ -0,0 +1,428 @@
+import { and, desc, eq, gt, inArray, isNotNull, ne, sql } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { media } from '../db/schema/media.js';
+import { replicationRuns, replicationRequests, opsAlerts, type OpsAlert } from '../db/schema/monitoring.js';
+import { HWM_RUN_MODES } from '../pipeline/replication-cycle.js';
+import { getRateLimiter } from '../lib/rate-limiter.js';
+import { recordMediaBacklog } from '../lib/metrics.js';
+import { getEnv, getOriginatingSystems, getCadenceSec } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+import { getReplicationTiming, staleThresholdSec } from '../health/staleness.js';
+import type { ResourceType } from '../api/mlsgrid-client.js';
+
+/**
+ * Operational alerting: rules that detect worker problems, de-duplicated into
+ * ops_alerts rows, with one notice when a problem starts and one when it resolves.
+ */
+
+export type OpsAlertSeverity = 'warning' | 'critical';
+
+/** A problem a rule currently sees. `subject` tells apart problems of one rule (e.g. "actris:Property"). */
+export interface OpsAlertCondition {
+  subject: string;
+  severity: OpsAlertSeverity;
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+export interface OpsAlertRule {
+  id: string;
+  evaluate(): Promise<OpsAlertCondition[]>;
+}
+
+export interface OpsAlertChannel {
+  name: string;
+  /** Deliver a firing or resolved notice; throws when the endpoint doesn't accept it. */
+  send(alert: OpsAlert): Promise<void>;
+}
+
+export interface OpsAlertPassResult {
+  fired: number;
+  resolved: number;
+  notified: number;
+}
+
+const RESOURCE_TYPES: ResourceType[] = ['Property', 'Member', 'Office', 'OpenHouse', 'Lookup'];
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Media rows still waiting for (or being retried into) R2
+const MEDIA_BACKLOG_STATUSES = ['pending_download', 'failed', 'expired'];
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+let lastBackup: { ok: boolean; at: Date; error: string | null } | null = null;
+
+/**
+ * Record how the latest database backup went, for the backup_failed rule.
+ * Pass the error, or null on success.
+ */
+export function recordBackupOutcome(err: unknown): void {
+  lastBackup = {
+    ok: err === null,
+    at: new Date(),
+    error: err === null ? null : err instanceof Error ? err.message : String(err),
+  };
+}
+
+/**
+ * Last successful HWM run older than OPS_ALERT_STALE_CADENCE_MULTIPLIER × (the
+ * resource's cadence + its average run duration) — the health check's threshold.
+ */
+const resourceStaleRule: OpsAlertRule = {
+  id: 'resource_stale',
+  async evaluate() {
+    const multiplier = getEnv().OPS_ALERT_STALE_CADENCE_MULTIPLIER;
+    const conditions: OpsAlertCondition[] = [];
+
+    for (const originatingSystem of getOriginatingSystems()) {
+      for (const resource of RESOURCE_TYPES) {
+        const { lastCompletedAt, avgRunDurationSec } = await getReplicationTiming(originatingSystem, resource);
+        // No successful run yet: the initial import is still to come or in progress
+        if (!lastCompletedAt) continue;
+
+        const cadenceSec = getCadenceSec(resource, originatingSystem);
+        const ageMs = Date.now() - lastCompletedAt.getTime();
+        const thresholdMs = staleThresholdSec(multiplier, cadenceSec, avgRunDurationSec) * 1000;
+        if (ageMs <= thresholdMs) continue;
+
+        conditions.push({
+          subject: `${originatingSystem}:${resource}`,
+          severity: resource === 'Property' ? 'critical' : 'warning',
+          summary:
+            `${originatingSystem} ${resource} has not replicated for ${formatDuration(ageMs)} ` +
+            `(cadence ${formatDuration(cadenceSec * 1000)}, avg run ${formatDuration((avgRunDurationSec ?? 0) * 1000)})`,
+          details: { originatingSystem, resource, lastCompletedAt: lastCompletedAt.toISOString(), thresholdMs },
+        });
+      }
+    }
+    return conditions;
+  },
+};
+
+/** The latest OPS_ALERT_CONSECUTIVE_FAILED_RUNS finished runs of a resource all failed. */
+const consecutiveFailedRunsRule: OpsAlertRule = {
+  id: 'runs_failing',
+  async evaluate() {
+    const db = getDb();
+    const threshold = getEnv().OPS_ALERT_CONSECUTIVE_FAILED_RUNS;
+    const conditions: OpsAlertCondition[] = [];
+
+    for (const originatingSystem of getOriginatingSystems()) {
+      for (const resource of RESOURCE_TYPES) {
+        const runs = await db
+          .select({ status: replicationRuns.status, errorMessage: replicationRuns.errorMessage })
+          .from(replicationRuns)
+          .where(
+            and(
+              eq(replicationRuns.resourceType, resource),
+              eq(replicationRuns.originatingSystem, originatingSystem),
+              inArray(replicationRuns.runMode, HWM_RUN_MODES),
+              ne(replicationRuns.status, 'running'),
+            ),
+          )
+          .orderBy(desc(replicationRuns.startedAt))
+          .limit(threshold);
+        if (runs.length < threshold || runs.some((r) => r.status !== 'failed')) continue;
+
+        conditions.push({
+          subject: `${originatingSystem}:${resource}`,
+          severity: 'critical',
+          summary: `${originatingSystem} ${resource}: last ${threshold} replication runs failed — ${runs[0].errorMessage ?? 'no error message'}`,
+          details: { originatingSystem, resource, lastError: runs[0].errorMessage },
+        });
+      }
+    }
+    return conditions;
+  },
+};
+
+/** The most recent database backup failed. */
+const backupFailedRule: OpsAlertRule = {
+  id: 'backup_failed',
+  async evaluate() {
+    if (!getEnv().BACKUP_ENABLED || !lastBackup || lastBackup.ok) return [];
+    return [
+      {
+        subject: 'database',
+        severity: 'critical',
+        summary: `Database backup failed: ${lastBackup.error}`,
+        details: { failedAt: lastBackup.at.toISOString(), error: lastBackup.error },
+      },
+    ];
+  },
+};
+
+/** MLS Grid answered 429 at least OPS_ALERT_RATE_LIMITED_PER_HOUR times in the last hour. */
+const rateLimitedRule: OpsAlertRule = {
+  id: 'api_rate_limited',
+  async evaluate() {
+    const db = getDb();
+    const threshold = getEnv().OPS_ALERT_RATE_LIMITED_PER_HOUR;
+
+    // fetchPage logs each 429 once with an error message (probe retry or exhaustion),
+    // plus a bare row from its finally block for the retried ones — count the former
+    const [{ count, last }] = await db
+      .select({ count: sql<number>`count(*)::int`, last: sql<Date | null>`max(${replicationRequests.requestedAt})` })
+      .from(replicationRequests)
+      .where(
+        and(
+          eq(replicationRequests.httpStatus, 429),
+          isNotNull(replicationRequests.errorMessage),
+          gt(replicationRequests.requestedAt, new Date(Date.now() - ONE_HOUR_MS)),
+        ),
+      );
+    if (count < threshold) return [];
+
+    return [
+      {
+        subject: 'mlsgrid',
+        severity: 'critical',
+        summary: `MLS Grid returned 429 ${count} time${count === 1 ? '' : 's'} in the last hour — requests are held for probe retries`,
+        details: { count, lastAt: last ? new Date(last).toISOString() : null },
+      },
+    ];
+  },
+};
+
+/** More than OPS_ALERT_MEDIA_BACKLOG media rows not yet stored in R2. Also feeds the mls_media_backlog gauge. */
+const mediaBacklogRule: OpsAlertRule = {
+  id: 'media_backlog',
+  async evaluate() {
+    const db = getDb();
+    const threshold = getEnv().OPS_ALERT_MEDIA_BACKLOG;
+
+    const byStatus = await db
+      .select({ status: media.status, count: sql<number>`count(*)::int` })
+      .from(media)
+      .where(inArray(media.status, MEDIA_BACKLOG_STATUSES))
+      .groupBy(media.status);
+    const counts = Object.fromEntries(MEDIA_BACKLOG_STATUSES.map((status) => [status, 0]));
+    for (const row of byStatus) counts[row.status] = row.count;
+    recordMediaBacklog(counts);
+
+    const total = byStatus.reduce((sum, row) => sum + row.count, 0);
+    if (total <= threshold) return [];
+
+    return [
+      {
+        subject: 'media',
+        severity: 'warning',
+        summary: `${total.toLocaleString('en-US')} media files waiting for download (threshold ${threshold.toLocaleString('en-US')})`,
+        details: counts,
+      },
+    ];
+  },
+};
+
+/** Media downloads are paused at WORKER_MEDIA_BANDWIDTH_HARD_CAP_GB for the rolling hour. */
+const bandwidthCapRule: OpsAlertRule = {
+  id: 'media_bandwidth_cap',
+  async evaluate() {
+    let usage;
+    try {
+      usage = (await getRateLimiter().getUsageStats()).media.currentHourBytes;
+    } catch {
+      return []; // Rate limiter not initialized in this process
+    }
+    if (usage.current < usage.limit) return [];
+
+    return [
+      {
+        subject: 'media',
+        severity: 'warning',
+        summary: `Media bandwidth hard cap reached (${formatGb(usage.current)} of ${formatGb(usage.limit)} in the last hour) — downloads paused`,
+        details: { bytes: usage.current, limitBytes: usage.limit },
+      },
+    ];
+  },
+};
+
+export const OPS_ALERT_RULES: OpsAlertRule[] = [
+  resourceStaleRule,
+  consecutiveFailedRunsRule,
+  backupFailedRule,
+  rateLimitedRule,
+  mediaBacklogRule,
+  bandwidthCapRule,
+];
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate every rule, open/refresh/resolve ops_alerts rows, then send the
+ * notices owed. A problem that persists across passes stays one alert and is
+ * announced once; a notice that fails to send is retried on the next pass.
+ */
+export async function runOpsAlertPass(
+  channel: OpsAlertChannel | null = createOpsAlertChannel(),
+  rules: OpsAlertRule[] = OPS_ALERT_RULES,
+): Promise<OpsAlertPassResult> {
+  const db = getDb();
+  const logger = getLogger();
+  const result: OpsAlertPassResult = { fired: 0, resolved: 0, notified: 0 };
+  const now = new Date();
+
+  for (const rule of rules) {
+    let conditions: OpsAlertCondition[];
+    try {
+      conditions = await rule.evaluate();
+    } catch (err) {
+      // Leave this rule's alerts as they are — an evaluation error doesn't mean the problem is gone
+      logger.error({ err, rule: rule.id }, 'Ops alert rule evaluation failed');
+      continue;
+    }
+
+    const open = await db
+      .select()
+      .from(opsAlerts)
+      .where(and(eq(opsAlerts.ruleId, rule.id), eq(opsAlerts.status, 'firing')));
+    const openByKey = new Map(open.map((a) => [a.alertKey, a]));
+    const seen = new Set<string>();
+
+    for (const condition of conditions) {
+      const alertKey = `${rule.id}:${condition.subject}`;
+      seen.add(alertKey);
+      const existing = openByKey.get(alertKey);
+
+      if (existing) {
+        await db
+          .update(opsAlerts)
+          .set({ severity: condition.severity, summary: condition.summary, details: condition.details ?? null, lastSeenAt: now })
+          .where(eq(opsAlerts.id, existing.id));
+        continue;
+      }
+
+      const inserted = await db
+        .insert(opsAlerts)
+        .values({
+          ruleId: rule.id,
+          alertKey,
+          severity: condition.severity,
+          status: 'firing',
+          summary: condition.summary,
+          details: condition.details ?? null,
+          firedAt: now,
+          lastSeenAt: now,
+        })
+        .onConflictDoNothing()
+        .returning({ id: opsAlerts.id });
+      if (inserted.length > 0) {
+        result.fired++;
+        logger.warn({ rule: rule.id, alertKey, severity: condition.severity }, `Ops alert firing: ${condition.summary}`);
+      }
+    }
+
+    for (const alert of open) {
+      if (seen.has(alert.alertKey)) continue;
+      await db
+        .update(opsAlerts)
+        .set({ status: 'resolved', resolvedAt: now })
+        .where(and(eq(opsAlerts.id, alert.id), eq(opsAlerts.status, 'firing')));
+      result.resolved++;
+      logger.info({ rule: rule.id, alertKey: alert.alertKey }, `Ops alert resolved: ${alert.summary}`);
+    }
+  }
+
+  result.notified = await sendOwedNotices(channel);
+  return result;
+}
+
+/**
+ * Send a notice for every alert whose status hasn't been announced yet. Alerts
+ * that resolved before their firing notice went out are closed silently.
+ */
+async function sendOwedNotices(channel: OpsAlertChannel | null): Promise<number> {
+  const db = getDb();
+  const logger = getLogger();
+
+  const owed = await db
+    .select()
+    .from(opsAlerts)
+    .where(sql`${opsAlerts.notifiedStatus} IS DISTINCT FROM ${opsAlerts.status}`)
+    .orderBy(opsAlerts.id);
+
+  let notified = 0;
+  for (const alert of owed) {
+    const silent = !channel || (alert.status === 'resolved' && alert.notifiedStatus === null);
+    if (!silent) {
+      try {
+        await channel.send(alert);
+        notified++;
+      } catch (err) {
+        const notifyError = err instanceof Error ? err.message : String(err);
+        await db.update(opsAlerts).set({ notifyError }).where(eq(opsAlerts.id, alert.id));
+        logger.warn({ err, alertKey: alert.alertKey, channel: channel.name }, 'Ops alert notice failed — will retry');
+        continue;
+      }
+    }
+    await db
+      .update(opsAlerts)
+      .set({ notifiedStatus: alert.status, notifyError: null })
+      .where(eq(opsAlerts.id, alert.id));
+  }
+  return notified;
+}
+
+// ─── Delivery ────────────────────────────────────────────────────────────────
+
+/** Channel for OPS_ALERT_WEBHOOK_URL, or null when alerts are only logged. */
+export function createOpsAlertChannel(): OpsAlertChannel | null {
+  const env = getEnv();
+  const url = env.OPS_ALERT_WEBHOOK_URL;
+  if (!url) return null;
+  const format = env.OPS_ALERT_WEBHOOK_FORMAT;
+
+  return {
+    name: format,
+    async send(alert) {
+      const body = JSON.stringify(format === 'slack' ? buildSlackPayload(alert) : buildJsonPayload(alert));
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'mta-mls-worker-ops-alerts' },
+        body,
+        signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${(await response.text()).substring(0, 200)}`);
+      }
+    },
+  };
+}
+
+export function buildJsonPayload(alert: OpsAlert) {
+  return {
+    id: alert.id,
+    rule: alert.ruleId,
+    key: alert.alertKey,
+    status: alert.status,
+    severity: alert.severity,
+    summary: alert.summary,
+    details: alert.details,
+    firedAt: alert.firedAt.toISOString(),
+    resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+/** Slack incoming-webhook message (also accepted by Slack-compatible endpoints such as Mattermost). */
+export function buildSlackPayload(alert: OpsAlert) {
+  const text =
+    alert.status === 'resolved'
+      ? `:white_check_mark: *RESOLVED* ${alert.summary} (after ${formatDuration((alert.resolvedAt ?? new Date()).getTime() - alert.firedAt.getTime())})`
+      : `${alert.severity === 'critical' ? ':rotating_light:' : ':warning:'} *${alert.severity.toUpperCase()}* ${alert.summary}`;
+  return { text: `${text}\n\`${alert.alertKey}\`` };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 120) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+function formatGb(bytes: number): string {
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
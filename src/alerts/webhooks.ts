@@ -0,0 +1,391 @@
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { and, asc, desc, eq, lte, sql, getTableColumns } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { properties } from '../db/schema/properties.js';
+import {
+  webhookSubscriptions,
+  webhookDeliveries,
+  type WebhookSubscription,
+  type WebhookDelivery,
+} from '../db/schema/webhooks.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+import { ALERT_EVENT_TYPES, type AlertEvent, type AlertEventType } from './notify.js';
+
+export type WebhookEventType = AlertEventType;
+export const WEBHOOK_EVENT_TYPES = ALERT_EVENT_TYPES;
+
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// Deliveries attempted per pass, so a large backlog can't stall the loop
+const DELIVERY_BATCH_LIMIT = 100;
+
+// Stored response bodies are truncated to this many characters
+const RESPONSE_BODY_LIMIT = 1000;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  listing: {
+    listingKey: string;
+    listingId: string | null;
+    originatingSystem: string;
+    city: string | null;
+    postalCode: string | null;
+    propertyType: string | null;
+    standardStatus: string | null;
+    listPrice: string | null;
+  };
+  change: { old: string | null; new: string | null };
+  priceChange?: { amount: number; percent: number | null };
+  openHouseKey?: string;
+}
+
+export class WebhookActionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'invalid_request',
+  ) {
+    super(message);
+    this.name = 'WebhookActionError';
+  }
+}
+
+/**
+ * Queue a delivery of `event` for every enabled subscription whose filters
+ * match the listing. Called after the listing's transaction has committed,
+ * next to notifyIfNeeded(); returns the number of deliveries queued.
+ */
+export async function enqueueWebhookDeliveries(event: AlertEvent): Promise<number> {
+  const db = getDb();
+
+  const subscriptions = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.enabled, true));
+  if (subscriptions.length === 0) return 0;
+
+  const [listing] = await db
+    .select({
+      listingKey: properties.listingKey,
+      listingId: properties.listingId,
+      originatingSystem: properties.originatingSystem,
+      city: properties.city,
+      postalCode: properties.postalCode,
+      propertyType: properties.propertyType,
+      standardStatus: properties.standardStatus,
+      listPrice: properties.listPrice,
+    })
+    .from(properties)
+    .where(eq(properties.listingKey, event.listingKey));
+  if (!listing) return 0;
+
+  const matching = subscriptions.filter((s) => subscriptionMatches(s, event, listing));
+  if (matching.length === 0) return 0;
+
+  const now = new Date();
+  await db.insert(webhookDeliveries).values(
+    matching.map((subscription) => {
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        type: event.type,
+        occurredAt: now.toISOString(),
+        listing,
+        change: { old: event.oldValue, new: event.newValue },
+        ...(event.priceChange && { priceChange: event.priceChange }),
+        ...(event.openHouseKey && { openHouseKey: event.openHouseKey }),
+      };
+      return {
+        subscriptionId: subscription.id,
+        eventType: event.type,
+        listingKey: event.listingKey,
+        payload,
+        status: 'pending',
+        nextAttemptAt: now,
+      };
+    }),
+  );
+
+  getLogger().debug(
+    { listingKey: event.listingKey, type: event.type, subscriptions: matching.length },
+    'Webhook deliveries queued',
+  );
+  return matching.length;
+}
+
+/**
+ * Attempt every pending delivery whose backoff has elapsed, for enabled
+ * subscriptions. A failure pushes back the subscription's other pending
+ * deliveries too, so a down endpoint is probed once per backoff step rather
+ * than once per queued event.
+ */
+export async function deliverDueWebhooks(): Promise<{ delivered: number; failed: number }> {
+  const db = getDb();
+  const due = await db
+    .select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+    .from(webhookDeliveries)
+    .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+    .where(
+      and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, new Date()),
+        eq(webhookSubscriptions.enabled, true),
+      ),
+    )
+    .orderBy(asc(webhookDeliveries.id))
+    .limit(DELIVERY_BATCH_LIMIT);
+
+  let delivered = 0;
+  let failed = 0;
+  const backedOff = new Set<number>();
+  for (const { delivery, subscription } of due) {
+    if (backedOff.has(subscription.id)) continue;
+    if (await attemptDelivery(delivery, subscription)) {
+      delivered++;
+    } else {
+      failed++;
+      backedOff.add(subscription.id);
+    }
+  }
+
+  if (delivered + failed > 0) {
+    getLogger().info({ delivered, failed }, 'Webhook delivery pass complete');
+  }
+  return { delivered, failed };
+}
+
+/**
+ * HMAC-SHA256 signature header value for a request body: `t=<unix seconds>,v1=<hex>`,
+ * signed over `<t>.<body>` so receivers can reject replayed requests.
+ */
+export function signWebhookBody(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export async function createWebhookSubscription(input: {
+  name: string;
+  url: string;
+  secret?: string;
+  eventTypes?: WebhookEventType[];
+  cities?: string[];
+  postalCodes?: string[];
+  propertyTypes?: string[];
+}): Promise<WebhookSubscription> {
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    throw new WebhookActionError(`Invalid webhook URL '${input.url}'`, 'invalid_request');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new WebhookActionError('Webhook URL must be http(s)', 'invalid_request');
+  }
+
+  const [subscription] = await getDb()
+    .insert(webhookSubscriptions)
+    .values({
+      name: input.name,
+      url: url.toString(),
+      secret: input.secret ?? randomBytes(32).toString('hex'),
+      eventTypes: nonEmpty(input.eventTypes),
+      cities: nonEmpty(input.cities),
+      postalCodes: nonEmpty(input.postalCodes),
+      propertyTypes: nonEmpty(input.propertyTypes),
+    })
+    .returning();
+  getLogger().info({ id: subscription.id, name: subscription.name, url: subscription.url }, 'Webhook subscription created');
+  return subscription;
+}
+
+/** Enable or disable a subscription. Enabling clears the failure count, so the endpoint gets a fresh start. */
+export async function setWebhookEnabled(id: number, enabled: boolean): Promise<WebhookSubscription> {
+  const [subscription] = await getDb()
+    .update(webhookSubscriptions)
+    .set(
+      enabled
+        ? { enabled, consecutiveFailures: 0, disabledAt: null, disabledReason: null, updatedAt: new Date() }
+        : { enabled, disabledAt: new Date(), disabledReason: 'Disabled manually', updatedAt: new Date() },
+    )
+    .where(eq(webhookSubscriptions.id, id))
+    .returning();
+  if (!subscription) {
+    throw new WebhookActionError(`Webhook subscription ${id} not found`, 'not_found');
+  }
+
+  if (enabled) {
+    // Retry what queued up while the endpoint was disabled right away
+    await getDb()
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date() })
+      .where(and(eq(webhookDeliveries.subscriptionId, id), eq(webhookDeliveries.status, 'pending')));
+  }
+  getLogger().info({ id, enabled }, 'Webhook subscription updated');
+  return subscription;
+}
+
+/** Delete a subscription and its delivery log. */
+export async function deleteWebhookSubscription(id: number): Promise<void> {
+  const deleted = await getDb()
+    .delete(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, id))
+    .returning({ id: webhookSubscriptions.id });
+  if (deleted.length === 0) {
+    throw new WebhookActionError(`Webhook subscription ${id} not found`, 'not_found');
+  }
+  getLogger().info({ id }, 'Webhook subscription deleted');
+}
+
+/** List subscriptions without their secrets. */
+export async function listWebhookSubscriptions() {
+  const { secret: _secret, ...columns } = getTableColumns(webhookSubscriptions);
+  return getDb().select(columns).from(webhookSubscriptions).orderBy(asc(webhookSubscriptions.id));
+}
+
+/** Delivery log for one subscription, newest first. */
+export async function listWebhookDeliveries(subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+  return getDb()
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(limit);
+}
+
+/**
+ * POST one delivery and record the outcome. Returns whether the endpoint
+ * accepted it (any 2xx).
+ */
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<boolean> {
+  const db = getDb();
+  const env = getEnv();
+  const logger = getLogger();
+  const now = new Date();
+  const body = JSON.stringify(delivery.payload);
+  const eventId = (delivery.payload as WebhookPayload).id;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'mta-mls-worker-webhooks',
+        'X-Webhook-Id': eventId,
+        'X-Webhook-Event': delivery.eventType,
+        [SIGNATURE_HEADER]: signWebhookBody(subscription.secret, body, Math.floor(now.getTime() / 1000)),
+      },
+      body,
+      signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).substring(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) errorMessage = `HTTP ${response.status}`;
+  } catch (err) {
+    errorMessage = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (errorMessage === null) {
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: 'delivered',
+        attempts,
+        lastAttemptAt: now,
+        deliveredAt: now,
+        nextAttemptAt: null,
+        responseStatus,
+        responseBody,
+        errorMessage: null,
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    if (subscription.consecutiveFailures > 0) {
+      await db
+        .update(webhookSubscriptions)
+        .set({ consecutiveFailures: 0, updatedAt: now })
+        .where(eq(webhookSubscriptions.id, subscription.id));
+    }
+    return true;
+  }
+
+  const exhausted = attempts >= env.WEBHOOK_MAX_ATTEMPTS;
+  const nextAttemptAt = exhausted ? null : nextAttempt(attempts, now);
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: exhausted ? 'failed' : 'pending',
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt,
+      responseStatus,
+      responseBody,
+      errorMessage,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  if (nextAttemptAt) {
+    await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: sql`greatest(${webhookDeliveries.nextAttemptAt}, ${nextAttemptAt})` })
+      .where(and(eq(webhookDeliveries.subscriptionId, subscription.id), eq(webhookDeliveries.status, 'pending')));
+  }
+
+  const consecutiveFailures = subscription.consecutiveFailures + 1;
+  const disable = consecutiveFailures >= env.WEBHOOK_DISABLE_AFTER_FAILURES;
+  await db
+    .update(webhookSubscriptions)
+    .set({
+      consecutiveFailures,
+      updatedAt: now,
+      ...(disable && {
+        enabled: false,
+        disabledAt: now,
+        disabledReason: `${consecutiveFailures} consecutive failed deliveries (last: ${errorMessage})`,
+      }),
+    })
+    .where(eq(webhookSubscriptions.id, subscription.id));
+
+  logger.warn(
+    { subscriptionId: subscription.id, deliveryId: delivery.id, attempts, responseStatus, error: errorMessage, exhausted },
+    'Webhook delivery failed',
+  );
+  if (disable) {
+    logger.error(
+      { subscriptionId: subscription.id, url: subscription.url, consecutiveFailures },
+      'Webhook subscription disabled after repeated failures',
+    );
+  }
+  return false;
+}
+
+function subscriptionMatches(
+  subscription: WebhookSubscription,
+  event: AlertEvent,
+  listing: { city: string | null; postalCode: string | null; propertyType: string | null },
+): boolean {
+  return (
+    matchesFilter(subscription.eventTypes, event.type) &&
+    matchesFilter(subscription.cities, listing.city) &&
+    matchesFilter(subscription.postalCodes, listing.postalCode) &&
+    matchesFilter(subscription.propertyTypes, listing.propertyType)
+  );
+}
+
+/** A NULL filter matches everything; otherwise the value must be listed (case-insensitive). */
+function matchesFilter(allowed: string[] | null, value: string | null): boolean {
+  if (!allowed || allowed.length === 0) return true;
+  if (value === null) return false;
+  return allowed.some((a) => a.toLowerCase() === value.toLowerCase());
+}
+
+function nextAttempt(attempts: number, now: Date): Date {
+  const delayMs = Math.min(getEnv().WEBHOOK_RETRY_BASE_SEC * 1000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return new Date(now.getTime() + delayMs);
+}
+
+function nonEmpty(values: string[] | undefined): string[] | null {
+  return values && values.length > 0 ? values : null;
+}
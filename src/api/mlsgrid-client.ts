@@ -3,6 +3,7 @@ import { getLogger } from '../lib/logger.js';
 import { getRateLimiter } from '../lib/rate-limiter.js';
 import { getDb } from '../db/connection.js';
 import { replicationRequests } from '../db/schema/monitoring.js';
+import { recordApiRequest, recordMediaDownload, recordMediaFailure } from '../lib/metrics.js';
 
 export type ResourceType = 'Property' | 'Member' | 'Office' | 'OpenHouse' | 'Lookup';
 
@@ -90,16 +91,95 @@ export function buildReplicationUrl(
   return url;
 }
 
+/**
+ * Build a URL for every record modified within [from, to], for targeted re-syncs.
+ * Like replication, does NOT filter by MlgCanView.
+ */
+export function buildModificationRangeUrl(
+  resource: ResourceType,
+  originatingSystem: string,
+  from: Date,
+  to: Date,
+): string {
+  const env = getEnv();
+  const base = env.MLSGRID_API_BASE_URL;
+
+  const filter =
+    `OriginatingSystemName eq '${originatingSystem}'` +
+    ` and ModificationTimestamp ge ${from.toISOString()} and ModificationTimestamp le ${to.toISOString()}`;
+  const expand = getExpandParam(resource);
+  const top = expand ? 1000 : 5000;
+
+  let url = `${base}/${resource}?$filter=${encodeURIComponent(filter)}&$top=${top}`;
+  if (expand) {
+    url += `&$expand=${expand}`;
+  }
+  return url;
+}
+
+/**
+ * Build a key-only URL listing every viewable record for reconciliation.
+ * $select keeps the payload small, so no $expand and the full 5000 $top.
+ */
+export function buildKeyListUrl(
+  resource: ResourceType,
+  originatingSystem: string,
+): string {
+  const env = getEnv();
+  const base = env.MLSGRID_API_BASE_URL;
+
+  const { keyField, lookupField } = getKeyFields(resource);
+  const select = [...new Set([keyField, lookupField, 'ModificationTimestamp'])].join(',');
+  const filter = `OriginatingSystemName eq '${originatingSystem}' and MlgCanView eq true`;
+
+  return `${base}/${resource}?$filter=${encodeURIComponent(filter)}&$select=${select}&$top=5000`;
+}
+
+// One id plus 5 'or' operators — the most MLS Grid accepts in a single $filter
+export const KEY_LOOKUP_BATCH_SIZE = 6;
+
+/**
+ * Build a URL that fetches specific records by their searchable id field
+ * (ListingId, MemberMlsId, …). MLS Grid allows at most 5 'or' operators per
+ * query, so callers pass no more than KEY_LOOKUP_BATCH_SIZE ids.
+ * Does NOT filter by MlgCanView so hidden records come back as deletes.
+ */
+export function buildKeyLookupUrl(
+  resource: ResourceType,
+  originatingSystem: string,
+  ids: string[],
+): string {
+  const env = getEnv();
+  const base = env.MLSGRID_API_BASE_URL;
+
+  if (ids.length === 0 || ids.length > KEY_LOOKUP_BATCH_SIZE) {
+    throw new Error(`Key lookup needs 1-${KEY_LOOKUP_BATCH_SIZE} ids, got ${ids.length}`);
+  }
+
+  const { lookupField } = getKeyFields(resource);
+  const idFilter = ids.map((id) => `${lookupField} eq '${id.replace(/'/g, "''")}'`).join(' or ');
+  const filter = `OriginatingSystemName eq '${originatingSystem}' and (${idFilter})`;
+  const expand = getExpandParam(resource);
+  const top = expand ? 1000 : 5000;
+
+  let url = `${base}/${resource}?$filter=${encodeURIComponent(filter)}&$top=${top}`;
+  if (expand) {
+    url += `&$expand=${expand}`;
+  }
+  return url;
+}
+
 // ─── Page Fetching ───────────────────────────────────────────────────────────
 
-const RATE_LIMIT_PROBE_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes between 429 retry probes
 const RATE_LIMIT_MAX_RETRIES = 10; // Up to 10 retries = ~100 minutes max wait
 
 /**
  * Fetch a single page of data from MLS Grid.
  * Handles rate limiting, logging, request tracking, and 429 recovery.
+ * The request counts against the caller's priority class (withRequestPriority).
  *
- * On 429: waits 10 minutes then sends a single probe request. Repeats up to
+ * On 429: waits MLSGRID_RATE_LIMIT_PROBE_INTERVAL_SEC (10 minutes by default)
+ * then sends a single probe request. Repeats up to
  * 6 times (~60 min total) before giving up. This avoids hammering the API
  * while still recovering automatically once the rate limit window resets.
  */
@@ -110,6 +190,7 @@ export async function fetchPage<T = Record<string, unknown>>(
   const env = getEnv();
   const logger = getLogger();
   const rateLimiter = getRateLimiter();
+  const probeIntervalMs = env.MLSGRID_RATE_LIMIT_PROBE_INTERVAL_SEC * 1000;
 
   for (let attempt429 = 0; attempt429 <= RATE_LIMIT_MAX_RETRIES; attempt429++) {
     // Wait for rate limiter approval
@@ -134,8 +215,8 @@ export async function fetchPage<T = Record<string, unknown>>(
       if (response.status === 429) {
         if (attempt429 < RATE_LIMIT_MAX_RETRIES) {
           logger.warn(
-            { url: url.substring(0, 120), attempt: attempt429 + 1, nextProbeMs: RATE_LIMIT_PROBE_INTERVAL_MS },
-            `MLS Grid 429 — waiting ${RATE_LIMIT_PROBE_INTERVAL_MS / 60_000}min before probe retry`,
+            { url: url.substring(0, 120), attempt: attempt429 + 1, nextProbeMs: probeIntervalMs },
+            `MLS Grid 429 — waiting ${probeIntervalMs / 60_000}min before probe retry`,
           );
           // Log the 429 to monitoring
           try {
@@ -152,7 +233,7 @@ export async function fetchPage<T = Record<string, unknown>>(
             });
           } catch { /* non-critical */ }
 
-          await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_PROBE_INTERVAL_MS));
+          await new Promise((resolve) => setTimeout(resolve, probeIntervalMs));
           continue; // Retry the request
         }
         // Exhausted all retries
@@ -215,6 +296,7 @@ export async function fetchPage<T = Record<string, unknown>>(
     } finally {
       // Log the request to the monitoring table
       const responseTimeMs = Date.now() - startTime;
+      recordApiRequest(httpStatus || null, responseTimeMs);
       try {
         const db = getDb();
         await db.insert(replicationRequests).values({
@@ -268,13 +350,23 @@ export async function downloadMedia(
   // Check media bandwidth (not API request count)
   await rateLimiter.waitForMediaSlot();
 
-  const response = await fetch(mediaUrl, {
-    headers: {
-      Authorization: `Bearer ${env.MLSGRID_API_TOKEN}`,
-    },
-  });
+  const startTime = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(mediaUrl, {
+      headers: {
+        Authorization: `Bearer ${env.MLSGRID_API_TOKEN}`,
+      },
+    });
+  } catch (err) {
+    recordMediaFailure('network');
+    throw err;
+  }
 
   if (!response.ok) {
+    // 400/403 = the signed URL token expired
+    const expired = response.status === 400 || response.status === 403;
+    recordMediaFailure(expired ? 'expired_url' : response.status === 429 ? 'rate_limited' : 'http_error');
     throw new MlsGridApiError(
       `Media download failed: ${response.status} ${response.statusText}`,
       response.status,
@@ -287,7 +379,8 @@ export async function downloadMedia(
   const bytes = buffer.length;
 
   // Record bytes for bandwidth tracking
-  rateLimiter.recordMediaDownload(bytes);
+  await rateLimiter.recordMediaDownload(bytes);
+  recordMediaDownload(bytes, Date.now() - startTime);
 
   logger.debug(
     { url: mediaUrl.substring(0, 80), bytes, contentType },
@@ -299,6 +392,25 @@ export async function downloadMedia(
 
 // ─── Helper Functions ────────────────────────────────────────────────────────
 
+/**
+ * Primary key field and the searchable field used to look a record up by id.
+ * Only OpenHouse allows filtering on its key; the others expose an MLS id instead.
+ */
+export function getKeyFields(resource: ResourceType): { keyField: string; lookupField: string } {
+  switch (resource) {
+    case 'Property':
+      return { keyField: 'ListingKey', lookupField: 'ListingId' };
+    case 'Member':
+      return { keyField: 'MemberKey', lookupField: 'MemberMlsId' };
+    case 'Office':
+      return { keyField: 'OfficeKey', lookupField: 'OfficeMlsId' };
+    case 'OpenHouse':
+      return { keyField: 'OpenHouseKey', lookupField: 'OpenHouseKey' };
+    case 'Lookup':
+      throw new Error('Lookup records have no searchable key field');
+  }
+}
+
 function getExpandParam(resource: ResourceType): string | null {
   switch (resource) {
     case 'Property':
@@ -0,0 +1,348 @@
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { loadEnv } from '../config/env.js';
+import { createLogger } from '../lib/logger.js';
+import { createDb, closeDb } from '../db/connection.js';
+import { createRateLimiter } from '../lib/rate-limiter.js';
+import { createR2Client } from '../storage/r2-client.js';
+import { validateFieldMappings } from '../transform/field-mappings.js';
+import { runRetransformJob, getLatestRetransformJob } from '../pipeline/retransform.js';
+import { runResync, ResyncRequestError } from '../pipeline/resync.js';
+import {
+  listDeadLetters,
+  getDeadLetter,
+  retryDeadLetter,
+  discardDeadLetter,
+  DeadLetterActionError,
+  DEAD_LETTER_STATUSES,
+  type DeadLetterStatus,
+} from '../pipeline/dead-letter.js';
+import {
+  createWebhookSubscription,
+  listWebhookSubscriptions,
+  listWebhookDeliveries,
+  setWebhookEnabled,
+  deleteWebhookSubscription,
+  WebhookActionError,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from '../alerts/webhooks.js';
+
+/**
+ * Admin CLI for one-off maintenance jobs against the worker database.
+ *
+ *   npm run admin -- retransform [--batch-size 500] [--system actris] [--restart]
+ *   npm run admin -- retransform-status
+ *   npm run admin -- resync --id ACT1234,ACT5678 [--key …] [--from ISO --to ISO] [--system actris]
+ *   npm run admin -- dead-letters [--status pending] [--limit 50]
+ *   npm run admin -- dead-letter show|retry|discard <id>
+ *   npm run admin -- webhooks
+ *   npm run admin -- webhook add --name partner --url https://… [--events …] [--city …] [--postal …] [--type …]
+ *   npm run admin -- webhook enable|disable|remove|deliveries <id>
+ */
+
+const USAGE = `Usage: npm run admin -- <command> [options]
+
+Commands:
+  retransform          Re-derive properties from raw_responses (no API calls)
+    --batch-size <n>   Rows per batch (default 500)
+    --system <name>    Only listings from this originating system
+    --restart          Start over instead of resuming an unfinished job
+  retransform-status   Show progress of the most recent re-transform job
+  resync               Re-fetch listings from MLS Grid, including media (doesn't move the HWM)
+    --id <ids>         Comma-separated ListingIds (repeatable)
+    --key <keys>       Comma-separated ListingKeys, resolved to ListingIds locally (repeatable)
+    --from <iso>       Re-fetch everything with ModificationTimestamp >= this
+    --to <iso>         ... and <= this (default now)
+    --system <name>    Only this originating system
+  dead-letters         List records that failed processing (newest first)
+    --status <status>  ${DEAD_LETTER_STATUSES.join(', ')}
+    --limit <n>        Max entries (default 50)
+  dead-letter show <id>     Print an entry including its raw payload and error stack
+  dead-letter retry <id>    Re-process an entry now (also works for exhausted entries)
+  dead-letter discard <id>  Stop retrying an entry
+  webhooks             List webhook subscriptions
+  webhook add          Subscribe an endpoint to listing events (prints the signing secret)
+    --name <name>      Label for the subscription
+    --url <url>        Endpoint that receives signed POSTs
+    --secret <secret>  Signing secret (default: generated)
+    --events <types>   Comma-separated: ${WEBHOOK_EVENT_TYPES.join(', ')} (default all)
+    --city <cities>    Comma-separated City filter (repeatable)
+    --postal <codes>   Comma-separated PostalCode filter (repeatable)
+    --type <types>     Comma-separated PropertyType filter (repeatable)
+  webhook enable <id>       Re-enable a subscription and retry its queued deliveries now
+  webhook disable <id>      Stop delivering to a subscription (events are no longer queued)
+  webhook remove <id>       Delete a subscription and its delivery log
+  webhook deliveries <id>   Show the most recent deliveries for a subscription
+
+Note: the CLI has its own API rate limiter and doesn't wait for the worker's Property cycles, so
+while the worker is running keep resyncs small, or use POST /admin/resync on the leader instead.
+`;
+
+async function retransform(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'batch-size': { type: 'string' },
+      system: { type: 'string' },
+      restart: { type: 'boolean', default: false },
+    },
+  });
+
+  const batchSize = values['batch-size'] ? Number(values['batch-size']) : undefined;
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize <= 0)) {
+    console.error('--batch-size must be a positive integer');
+    return 1;
+  }
+
+  validateFieldMappings();
+
+  // First Ctrl-C finishes the current batch and checkpoints; a second one exits immediately
+  let stopRequested = false;
+  process.on('SIGINT', () => {
+    if (stopRequested) process.exit(130);
+    stopRequested = true;
+    console.error('Stopping after the current batch — run the command again to resume');
+  });
+
+  const result = await runRetransformJob({
+    batchSize,
+    originatingSystem: values.system,
+    restart: values.restart,
+    shouldStop: () => stopRequested,
+  });
+
+  console.log(JSON.stringify(result, null, 2));
+  return result.status === 'completed' ? 0 : 1;
+}
+
+async function retransformStatus(): Promise<number> {
+  const job = await getLatestRetransformJob();
+  if (!job) {
+    console.log('No re-transform jobs have been run');
+    return 0;
+  }
+  console.log(JSON.stringify(job, null, 2));
+  return 0;
+}
+
+async function resync(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      id: { type: 'string', multiple: true },
+      key: { type: 'string', multiple: true },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      system: { type: 'string' },
+    },
+  });
+
+  createRateLimiter();
+  createR2Client();
+
+  try {
+    const result = await runResync({
+      listingIds: splitList(values.id),
+      listingKeys: splitList(values.key),
+      modifiedFrom: values.from ? new Date(values.from) : undefined,
+      modifiedTo: values.to ? new Date(values.to) : undefined,
+      originatingSystem: values.system,
+    });
+    console.log(JSON.stringify(result, null, 2));
+    return result.runs.every((r) => r.status === 'completed') ? 0 : 1;
+  } catch (err) {
+    if (err instanceof ResyncRequestError) {
+      console.error(err.message);
+      return 1;
+    }
+    throw err;
+  }
+}
+
+async function deadLetters(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      status: { type: 'string' },
+      limit: { type: 'string' },
+    },
+  });
+
+  if (values.status && !DEAD_LETTER_STATUSES.includes(values.status as DeadLetterStatus)) {
+    console.error(`--status must be one of: ${DEAD_LETTER_STATUSES.join(', ')}`);
+    return 1;
+  }
+  const limit = values.limit ? Number(values.limit) : 50;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    console.error('--limit must be a positive integer');
+    return 1;
+  }
+
+  const entries = await listDeadLetters({ status: values.status as DeadLetterStatus | undefined, limit });
+  console.log(JSON.stringify(entries, null, 2));
+  return 0;
+}
+
+async function deadLetter(args: string[]): Promise<number> {
+  const [action, idArg] = args;
+  const id = Number(idArg);
+  if (!['show', 'retry', 'discard'].includes(action) || !Number.isInteger(id) || id <= 0) {
+    console.error('Usage: npm run admin -- dead-letter show|retry|discard <id>');
+    return 1;
+  }
+
+  try {
+    switch (action) {
+      case 'show': {
+        const entry = await getDeadLetter(id);
+        if (!entry) {
+          console.error(`Dead-letter entry ${id} not found`);
+          return 1;
+        }
+        console.log(JSON.stringify(entry, null, 2));
+        return 0;
+      }
+      case 'retry': {
+        // Property retries may download media
+        createRateLimiter();
+        createR2Client();
+        const outcome = await retryDeadLetter(id);
+        console.log(JSON.stringify(outcome, null, 2));
+        return outcome.status === 'resolved' || outcome.status === 'superseded' ? 0 : 1;
+      }
+      default: {
+        const entry = await discardDeadLetter(id);
+        console.log(JSON.stringify({ id: entry.id, status: entry.status }, null, 2));
+        return 0;
+      }
+    }
+  } catch (err) {
+    if (err instanceof DeadLetterActionError) {
+      console.error(err.message);
+      return 1;
+    }
+    throw err;
+  }
+}
+
+async function webhook(args: string[]): Promise<number> {
+  const [action, ...rest] = args;
+
+  try {
+    if (action === 'add') {
+      const { values } = parseArgs({
+        args: rest,
+        options: {
+          name: { type: 'string' },
+          url: { type: 'string' },
+          secret: { type: 'string' },
+          events: { type: 'string' },
+          city: { type: 'string', multiple: true },
+          postal: { type: 'string', multiple: true },
+          type: { type: 'string', multiple: true },
+        },
+      });
+      if (!values.name || !values.url) {
+        console.error('webhook add requires --name and --url');
+        return 1;
+      }
+      const eventTypes = splitList(values.events ? [values.events] : undefined) ?? [];
+      const unknown = eventTypes.filter((t) => !WEBHOOK_EVENT_TYPES.includes(t as WebhookEventType));
+      if (unknown.length > 0) {
+        console.error(`Unknown event types: ${unknown.join(', ')} (expected ${WEBHOOK_EVENT_TYPES.join(', ')})`);
+        return 1;
+      }
+
+      const subscription = await createWebhookSubscription({
+        name: values.name,
+        url: values.url,
+        secret: values.secret,
+        eventTypes: eventTypes as WebhookEventType[],
+        cities: splitList(values.city),
+        postalCodes: splitList(values.postal),
+        propertyTypes: splitList(values.type),
+      });
+      console.log(JSON.stringify(subscription, null, 2));
+      return 0;
+    }
+
+    const id = Number(rest[0]);
+    if (!['enable', 'disable', 'remove', 'deliveries'].includes(action) || !Number.isInteger(id) || id <= 0) {
+      console.error('Usage: npm run admin -- webhook add [options] | webhook enable|disable|remove|deliveries <id>');
+      return 1;
+    }
+
+    switch (action) {
+      case 'enable':
+      case 'disable': {
+        const subscription = await setWebhookEnabled(id, action === 'enable');
+        console.log(JSON.stringify({ id: subscription.id, enabled: subscription.enabled }, null, 2));
+        return 0;
+      }
+      case 'remove':
+        await deleteWebhookSubscription(id);
+        console.log(`Webhook subscription ${id} removed`);
+        return 0;
+      default:
+        console.log(JSON.stringify(await listWebhookDeliveries(id), null, 2));
+        return 0;
+    }
+  } catch (err) {
+    if (err instanceof WebhookActionError) {
+      console.error(err.message);
+      return 1;
+    }
+    throw err;
+  }
+}
+
+/** Flatten repeatable, comma-separated options into a list. */
+function splitList(list?: string[]): string[] | undefined {
+  return list?.flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === 'help' || command === '--help') {
+    console.log(USAGE);
+    return command ? 0 : 1;
+  }
+
+  loadEnv();
+  createLogger();
+  createDb();
+
+  try {
+    switch (command) {
+      case 'retransform':
+        return await retransform(args);
+      case 'retransform-status':
+        return await retransformStatus();
+      case 'resync':
+        return await resync(args);
+      case 'dead-letters':
+        return await deadLetters(args);
+      case 'dead-letter':
+        return await deadLetter(args);
+      case 'webhooks':
+        console.log(JSON.stringify(await listWebhookSubscriptions(), null, 2));
+        return 0;
+      case 'webhook':
+        return await webhook(args);
+      default:
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return 1;
+    }
+  } finally {
+    await closeDb();
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
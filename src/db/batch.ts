@@ -0,0 +1,37 @@
+import { getTableColumns, sql, type SQL } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+
+// Postgres caps a single statement at 65535 bind parameters
+const MAX_BIND_PARAMS = 65_535;
+
+/**
+ * Split rows into chunks small enough for one multi-row INSERT each, based on
+ * the number of columns the widest row binds.
+ */
+export function chunkRows<T extends object>(rows: T[]): T[][] {
+  if (rows.length === 0) return [];
+
+  const columnsPerRow = Math.max(1, ...rows.map((r) => Object.keys(r).length));
+  const size = Math.max(1, Math.floor(MAX_BIND_PARAMS / columnsPerRow));
+
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Build an `onConflictDoUpdate` set that copies every given column from the
+ * proposed row (`EXCLUDED`), so one statement can upsert many rows with
+ * different values. Keys that aren't columns of the table are ignored.
+ */
+export function excludedSet(table: PgTable, keys: Iterable<string>): Record<string, SQL> {
+  const columns = getTableColumns(table);
+  const set: Record<string, SQL> = {};
+  for (const key of keys) {
+    const column = columns[key];
+    if (column) set[key] = sql.raw(`excluded."${column.name}"`);
+  }
+  return set;
+}
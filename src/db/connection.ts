@@ -49,4 +49,21 @@ export async function closeDb() {
   }
 }
 
+/** Connection counts for the metrics endpoint, or null before createDb(). */
+export function getPoolStats(): { total: number; idle: number; waiting: number; max: number } | null {
+  if (!_pool) return null;
+  return {
+    total: _pool.totalCount,
+    idle: _pool.idleCount,
+    waiting: _pool.waitingCount,
+    max: getEnv().DATABASE_POOL_SIZE,
+  };
+}
+
 export type Database = ReturnType<typeof createDb>;
+
+/** The `tx` handle passed to `db.transaction()` callbacks. */
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/** Anything statements can be issued on — the pool or an open transaction. */
+export type DbExecutor = Database | Transaction;
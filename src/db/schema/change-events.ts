@@ -0,0 +1,63 @@
+import { pgTable, varchar, bigserial, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { customType } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Postgres 64-bit transaction id. Read back as a decimal string.
+ */
+const xid8 = customType<{
+  data: string;
+  driverParam: string;
+}>({
+  dataType() {
+    return 'xid8';
+  },
+});
+
+/**
+ * TEXT[] array column helper.
+ */
+const textArray = customType<{
+  data: string[];
+  driverParam: string;
+}>({
+  dataType() {
+    return 'text[]';
+  },
+  toDriver(value: string[]): string {
+    return `{${value.map((v) => `"${v.replace(/"/g, '\\"')}"`).join(',')}}`;
+  },
+});
+
+// ─── Change Events (outbox) ──────────────────────────────────────────────────
+
+/**
+ * Structured change events, written in the same transaction as the data change
+ * they describe. Consumers page through them with a (txid, id) cursor — see
+ * readChangeEvents() for why the id alone isn't a safe cursor.
+ */
+export const changeEvents = pgTable(
+  'change_events',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    // Writing transaction; rows only become readable once every older transaction has finished
+    txid: xid8('txid').notNull().default(sql`pg_current_xact_id()`),
+    eventType: varchar('event_type').notNull(), // 'created', 'updated', 'price_changed', 'status_changed', 'photos_changed', 'hidden', 'deleted'
+    resourceType: varchar('resource_type').notNull(), // 'Property', 'Member', 'Office', 'OpenHouse'
+    resourceKey: varchar('resource_key').notNull(), // ListingKey, MemberKey, OfficeKey, OpenHouseKey
+    originatingSystem: varchar('originating_system').notNull(),
+    changedFields: textArray('changed_fields'), // column names, for 'updated'
+    // Event details, e.g. { "changes": { "listPrice": { "old": "350000", "new": "340000" } } }
+    payload: jsonb('payload'),
+    modificationTs: timestamp('modification_ts', { withTimezone: true }), // upstream ModificationTimestamp
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('idx_change_events_cursor').on(table.txid, table.id),
+    index('idx_change_events_resource').on(table.resourceType, table.resourceKey),
+    index('idx_change_events_created').on(table.createdAt),
+  ],
+);
+
+export type ChangeEvent = typeof changeEvents.$inferSelect;
+export type NewChangeEvent = typeof changeEvents.$inferInsert;
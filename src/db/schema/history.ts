@@ -67,3 +67,6 @@ export const propertyChangeLog = pgTable(
 export type PriceHistoryRecord = typeof priceHistory.$inferSelect;
 export type StatusHistoryRecord = typeof statusHistory.$inferSelect;
 export type PropertyChangeLogRecord = typeof propertyChangeLog.$inferSelect;
+export type NewPriceHistoryRecord = typeof priceHistory.$inferInsert;
+export type NewStatusHistoryRecord = typeof statusHistory.$inferInsert;
+export type NewPropertyChangeLogRecord = typeof propertyChangeLog.$inferInsert;
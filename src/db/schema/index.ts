@@ -30,12 +30,24 @@ export type {
   PriceHistoryRecord,
   StatusHistoryRecord,
   PropertyChangeLogRecord,
+  NewPriceHistoryRecord,
+  NewStatusHistoryRecord,
+  NewPropertyChangeLogRecord,
 } from './history.js';
 
 export {
   replicationRuns,
   replicationRequests,
   mediaDownloads,
+  retransformJobs,
+  reconciliationRuns,
+  reconciliationRefetches,
+  deadLetterRecords,
+  opsAlerts,
+  adminAuditLog,
+  workerInstances,
+  rateLimitEvents,
+  jobRuns,
 } from './monitoring.js';
 export type {
   ReplicationRun,
@@ -44,4 +56,53 @@ export type {
   NewReplicationRequest,
   MediaDownload,
   NewMediaDownload,
+  RetransformJob,
+  NewRetransformJob,
+  ReconciliationRun,
+  NewReconciliationRun,
+  ReconciliationRefetch,
+  NewReconciliationRefetch,
+  DeadLetterRecord,
+  NewDeadLetterRecord,
+  OpsAlert,
+  NewOpsAlert,
+  AdminAuditEntry,
+  NewAdminAuditEntry,
+  WorkerInstance,
+  NewWorkerInstance,
+  RateLimitEvent,
+  NewRateLimitEvent,
+  JobRun,
+  NewJobRun,
 } from './monitoring.js';
+
+export { metadataSnapshots, schemaDriftFields } from './metadata.js';
+export type {
+  MetadataSnapshot,
+  NewMetadataSnapshot,
+  SchemaDriftField,
+  NewSchemaDriftField,
+} from './metadata.js';
+
+export { changeEvents } from './change-events.js';
+export type { ChangeEvent, NewChangeEvent } from './change-events.js';
+
+export { webhookSubscriptions, webhookDeliveries } from './webhooks.js';
+export type {
+  WebhookSubscription,
+  NewWebhookSubscription,
+  WebhookDelivery,
+  NewWebhookDelivery,
+} from './webhooks.js';
+
+export { savedSearches, userNotifications, notificationRecipients, notificationSends } from './saved-searches.js';
+export type {
+  SavedSearch,
+  NewSavedSearch,
+  UserNotification,
+  NewUserNotification,
+  NotificationRecipient,
+  NewNotificationRecipient,
+  NotificationSend,
+  NewNotificationSend,
+} from './saved-searches.js';
@@ -0,0 +1,73 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  bigint,
+  bigserial,
+  boolean,
+  text,
+  timestamp,
+  jsonb,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+
+// ─── Metadata Snapshots ──────────────────────────────────────────────────────
+
+/**
+ * One row per distinct version of the MLS Grid $metadata EDMX document.
+ * A new row is only written when the document's hash changes.
+ */
+export const metadataSnapshots = pgTable(
+  'metadata_snapshots',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    fetchedAt: timestamp('fetched_at', { withTimezone: true }).notNull(),
+    lastCheckedAt: timestamp('last_checked_at', { withTimezone: true }).notNull(),
+    contentHash: varchar('content_hash').notNull(), // sha256 of the raw EDMX
+    documentBytes: integer('document_bytes').notNull(),
+    document: text('document').notNull(), // raw EDMX XML
+    entityFields: jsonb('entity_fields').notNull(), // { "Property": { "ListPrice": "Edm.Decimal", ... }, ... }
+    // Diff against the previous snapshot; null for the first one
+    // { "Property": { "added": [...], "removed": [...], "typeChanged": [{ field, from, to }] } }
+    diff: jsonb('diff'),
+  },
+  (table) => [
+    index('idx_metadata_snapshots_fetched').on(table.fetchedAt),
+  ],
+);
+
+export type MetadataSnapshot = typeof metadataSnapshots.$inferSelect;
+export type NewMetadataSnapshot = typeof metadataSnapshots.$inferInsert;
+
+// ─── Schema Drift ────────────────────────────────────────────────────────────
+
+/**
+ * Fields seen in incoming Property records that no `properties` column is mapped from.
+ * They survive only in raw_responses (or local_fields when MLS-prefixed), so each
+ * row is a candidate for promotion to a real column.
+ */
+export const schemaDriftFields = pgTable(
+  'schema_drift_fields',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    resourceType: varchar('resource_type').notNull(), // 'Property'
+    originatingSystem: varchar('originating_system').notNull(),
+    fieldName: varchar('field_name').notNull(),
+    storedIn: varchar('stored_in').notNull(), // 'raw_responses', 'local_fields'
+    inMetadata: boolean('in_metadata'), // declared in the latest $metadata snapshot (null = no snapshot yet)
+    edmType: varchar('edm_type'),
+    occurrences: bigint('occurrences', { mode: 'number' }).notNull().default(0),
+    sampleValue: jsonb('sample_value'),
+    sampleKey: varchar('sample_key'), // ListingKey the sample value came from
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).notNull(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_schema_drift_field').on(table.resourceType, table.originatingSystem, table.fieldName),
+    index('idx_schema_drift_last_seen').on(table.lastSeenAt),
+  ],
+);
+
+export type SchemaDriftField = typeof schemaDriftFields.$inferSelect;
+export type NewSchemaDriftField = typeof schemaDriftFields.$inferInsert;
@@ -8,43 +8,59 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // ─── Replication Runs ────────────────────────────────────────────────────────
 
-export const replicationRuns = pgTable('replication_runs', {
-  id: bigserial('id', { mode: 'number' }).primaryKey(),
-  resourceType: varchar('resource_type').notNull(), // 'Property', 'Member', 'Office', 'OpenHouse', 'Lookup'
-  runMode: varchar('run_mode').notNull(), // 'initial_import', 'replication'
-  startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
-  completedAt: timestamp('completed_at', { withTimezone: true }),
-  status: varchar('status').notNull(), // 'running', 'completed', 'failed', 'partial'
+export const replicationRuns = pgTable(
+  'replication_runs',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    resourceType: varchar('resource_type').notNull(), // 'Property', 'Member', 'Office', 'OpenHouse', 'Lookup'
+    originatingSystem: varchar('originating_system').notNull(), // HWMs are tracked per (system, resource)
+    runMode: varchar('run_mode').notNull(), // 'initial_import', 'replication', 'resync' (never moves the HWM)
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    status: varchar('status').notNull(), // 'running', 'completed', 'failed', 'partial'
+    instanceId: varchar('instance_id'), // worker replica running the cycle; null for CLI runs
+
+    errorMessage: text('error_message'),
 
-  errorMessage: text('error_message'),
+    // High-Water Marks
+    hwmStart: timestamp('hwm_start', { withTimezone: true }),
+    hwmEnd: timestamp('hwm_end', { withTimezone: true }),
 
-  // High-Water Marks
-  hwmStart: timestamp('hwm_start', { withTimezone: true }),
-  hwmEnd: timestamp('hwm_end', { withTimezone: true }),
+    // Pagination checkpoint — written after each committed page so an interrupted
+    // run can continue from its exact @odata.nextLink. Cleared when the run completes.
+    nextLink: text('next_link'),
+    pagesCompleted: integer('pages_completed').default(0),
+    resumedFromRunId: bigint('resumed_from_run_id', { mode: 'number' }),
 
-  // Record Counts
-  totalRecordsReceived: integer('total_records_received').default(0),
-  recordsInserted: integer('records_inserted').default(0),
-  recordsUpdated: integer('records_updated').default(0),
-  recordsDeleted: integer('records_deleted').default(0),
+    // Record Counts
+    totalRecordsReceived: integer('total_records_received').default(0),
+    recordsInserted: integer('records_inserted').default(0),
+    recordsUpdated: integer('records_updated').default(0),
+    recordsDeleted: integer('records_deleted').default(0),
 
-  // Media Counts (Property runs only)
-  mediaDownloaded: integer('media_downloaded').default(0),
-  mediaDeleted: integer('media_deleted').default(0),
-  mediaBytesDownloaded: bigint('media_bytes_downloaded', { mode: 'number' }).default(0),
+    // Media Counts (Property runs only)
+    mediaDownloaded: integer('media_downloaded').default(0),
+    mediaDeleted: integer('media_deleted').default(0),
+    mediaBytesDownloaded: bigint('media_bytes_downloaded', { mode: 'number' }).default(0),
 
-  // API Usage
-  apiRequestsMade: integer('api_requests_made').default(0),
-  apiBytesDownloaded: bigint('api_bytes_downloaded', { mode: 'number' }).default(0),
-  avgResponseTimeMs: integer('avg_response_time_ms'),
+    // API Usage
+    apiRequestsMade: integer('api_requests_made').default(0),
+    apiBytesDownloaded: bigint('api_bytes_downloaded', { mode: 'number' }).default(0),
+    avgResponseTimeMs: integer('avg_response_time_ms'),
 
-  // HTTP Errors
-  httpErrors: jsonb('http_errors'), // { "429": 2, "500": 1 } etc.
-});
+    // HTTP Errors
+    httpErrors: jsonb('http_errors'), // { "429": 2, "500": 1 } etc.
+  },
+  (table) => [
+    index('idx_repl_runs_system_resource').on(table.originatingSystem, table.resourceType, table.startedAt),
+  ],
+);
 
 export type ReplicationRun = typeof replicationRuns.$inferSelect;
 export type NewReplicationRun = typeof replicationRuns.$inferInsert;
@@ -97,3 +113,266 @@ export const mediaDownloads = pgTable(
 
 export type MediaDownload = typeof mediaDownloads.$inferSelect;
 export type NewMediaDownload = typeof mediaDownloads.$inferInsert;
+
+// ─── Re-transform Jobs ───────────────────────────────────────────────────────
+
+export const retransformJobs = pgTable(
+  'retransform_jobs',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    status: varchar('status').notNull(), // 'running', 'completed', 'failed', 'interrupted'
+    originatingSystem: varchar('originating_system'), // null = all systems
+    batchSize: integer('batch_size').notNull(),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull(), // progress heartbeat
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+
+    // Keyset cursor — last raw_responses.listing_key processed
+    lastListingKey: varchar('last_listing_key'),
+
+    totalRows: integer('total_rows'), // raw_responses count when the job started
+    processedRows: integer('processed_rows').notNull().default(0),
+    updatedRows: integer('updated_rows').notNull().default(0),
+    skippedRows: integer('skipped_rows').notNull().default(0), // newer replicated data or failed rows
+    errorCount: integer('error_count').notNull().default(0),
+    errorMessage: text('error_message'),
+  },
+  (table) => [
+    index('idx_retransform_jobs_started').on(table.startedAt),
+  ],
+);
+
+export type RetransformJob = typeof retransformJobs.$inferSelect;
+export type NewRetransformJob = typeof retransformJobs.$inferInsert;
+
+// ─── Reconciliation Runs ─────────────────────────────────────────────────────
+
+export const reconciliationRuns = pgTable(
+  'reconciliation_runs',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    resourceType: varchar('resource_type').notNull(),
+    originatingSystem: varchar('originating_system').notNull(),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    status: varchar('status').notNull(), // 'running', 'completed', 'failed', 'deletes_skipped'
+
+    // Key counts from the full scan
+    remoteCount: integer('remote_count').default(0), // viewable keys returned by the API
+    localCount: integer('local_count').default(0), // viewable keys stored locally
+
+    // Discrepancies
+    staleCount: integer('stale_count').default(0), // local but no longer viewable upstream
+    missingCount: integer('missing_count').default(0), // viewable upstream but absent/hidden locally
+    outdatedCount: integer('outdated_count').default(0), // upstream ModificationTimestamp is newer
+
+    // Actions taken
+    softDeleted: integer('soft_deleted').default(0),
+    refetchQueued: integer('refetch_queued').default(0),
+    refetched: integer('refetched').default(0),
+    refetchFailed: integer('refetch_failed').default(0),
+
+    apiRequestsMade: integer('api_requests_made').default(0),
+    errorMessage: text('error_message'),
+  },
+  (table) => [
+    index('idx_reconciliation_runs_system_resource').on(table.originatingSystem, table.resourceType, table.startedAt),
+  ],
+);
+
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type NewReconciliationRun = typeof reconciliationRuns.$inferInsert;
+
+// ─── Reconciliation Re-fetch Queue ───────────────────────────────────────────
+
+export const reconciliationRefetches = pgTable(
+  'reconciliation_refetches',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    resourceType: varchar('resource_type').notNull(),
+    originatingSystem: varchar('originating_system').notNull(),
+    recordKey: varchar('record_key').notNull(),
+    lookupId: varchar('lookup_id').notNull(), // searchable id used to re-fetch (ListingId, MemberMlsId, …)
+    reason: varchar('reason').notNull(), // 'missing', 'outdated'
+    status: varchar('status').notNull(), // 'pending', 'completed', 'not_found', 'failed'
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    reconciliationRunId: bigint('reconciliation_run_id', { mode: 'number' }),
+    queuedAt: timestamp('queued_at', { withTimezone: true }).notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex('idx_reconciliation_refetches_key').on(table.resourceType, table.originatingSystem, table.recordKey),
+    index('idx_reconciliation_refetches_status').on(table.status, table.queuedAt),
+  ],
+);
+
+export type ReconciliationRefetch = typeof reconciliationRefetches.$inferSelect;
+export type NewReconciliationRefetch = typeof reconciliationRefetches.$inferInsert;
+
+// ─── Dead-letter Queue ───────────────────────────────────────────────────────
+
+export const deadLetterRecords = pgTable(
+  'dead_letter_records',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    resourceType: varchar('resource_type').notNull(),
+    originatingSystem: varchar('originating_system').notNull(),
+    recordKey: varchar('record_key').notNull(),
+    modificationTs: timestamp('modification_ts', { withTimezone: true }), // of the failed payload
+    rawData: jsonb('raw_data').notNull(), // the record as received from the API
+    status: varchar('status').notNull(), // 'pending', 'resolved', 'superseded', 'exhausted', 'discarded'
+    attempts: integer('attempts').notNull().default(1),
+    errorMessage: text('error_message'),
+    errorStack: text('error_stack'),
+    replicationRunId: bigint('replication_run_id', { mode: 'number' }), // run that first hit the error
+    firstFailedAt: timestamp('first_failed_at', { withTimezone: true }).notNull(),
+    lastFailedAt: timestamp('last_failed_at', { withTimezone: true }).notNull(),
+    nextRetryAt: timestamp('next_retry_at', { withTimezone: true }),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex('idx_dead_letter_records_key').on(table.resourceType, table.originatingSystem, table.recordKey),
+    index('idx_dead_letter_records_status').on(table.status, table.nextRetryAt),
+  ],
+);
+
+export type DeadLetterRecord = typeof deadLetterRecords.$inferSelect;
+export type NewDeadLetterRecord = typeof deadLetterRecords.$inferInsert;
+
+// ─── Ops Alerts ──────────────────────────────────────────────────────────────
+
+/**
+ * Operational alerts raised by the rules in alerts/ops-alerts.ts. One row per
+ * occurrence: it opens as 'firing' and is closed as 'resolved' once the rule
+ * no longer reports the problem. At most one firing row exists per alert key.
+ */
+export const opsAlerts = pgTable(
+  'ops_alerts',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    ruleId: varchar('rule_id').notNull(), // e.g. 'resource_stale'
+    alertKey: varchar('alert_key').notNull(), // rule + subject, e.g. 'resource_stale:actris:Property'
+    severity: varchar('severity').notNull(), // 'warning', 'critical'
+    status: varchar('status').notNull(), // 'firing', 'resolved'
+    summary: text('summary').notNull(),
+    details: jsonb('details'),
+    firedAt: timestamp('fired_at', { withTimezone: true }).notNull(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).notNull(), // last evaluation that still reported it
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    // Status last announced (sent to OPS_ALERT_WEBHOOK_URL, or just logged without one);
+    // differs from `status` while a notice is owed
+    notifiedStatus: varchar('notified_status'),
+    notifyError: text('notify_error'),
+  },
+  (table) => [
+    uniqueIndex('idx_ops_alerts_firing').on(table.alertKey).where(sql`status = 'firing'`),
+    index('idx_ops_alerts_fired').on(table.firedAt),
+  ],
+);
+
+export type OpsAlert = typeof opsAlerts.$inferSelect;
+export type NewOpsAlert = typeof opsAlerts.$inferInsert;
+
+// ─── Admin Audit Log ─────────────────────────────────────────────────────────
+
+/**
+ * One row per admin API action (resync, dead-letter retry/discard, scheduler
+ * control, on-demand jobs). Written before the action runs — an action that
+ * can't be audited isn't performed — and completed with the response status.
+ */
+export const adminAuditLog = pgTable(
+  'admin_audit_log',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    actor: varchar('actor').notNull(), // token name from ADMIN_API_TOKENS ('admin' for ADMIN_API_TOKEN)
+    action: varchar('action').notNull(), // e.g. 'scheduler.pause', 'jobs.backup'
+    target: varchar('target'), // route params, e.g. 'actris:Property'
+    params: jsonb('params'), // request body
+    statusCode: integer('status_code'), // null if no response was sent (e.g. the process died mid-action)
+    error: text('error'),
+    requestedAt: timestamp('requested_at', { withTimezone: true }).defaultNow().notNull(),
+    respondedAt: timestamp('responded_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('idx_admin_audit_requested').on(table.requestedAt),
+    index('idx_admin_audit_actor').on(table.actor, table.requestedAt),
+  ],
+);
+
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type NewAdminAuditEntry = typeof adminAuditLog.$inferInsert;
+
+// ─── Worker Instances ────────────────────────────────────────────────────────
+
+/**
+ * Heartbeats of every worker replica sharing this database, written by
+ * scheduler/leader-election.ts. The advisory lock decides who leads; this
+ * table only reports it (health, dashboard).
+ */
+export const workerInstances = pgTable(
+  'worker_instances',
+  {
+    instanceId: varchar('instance_id').primaryKey(), // hostname:pid:random
+    hostname: varchar('hostname').notNull(),
+    pid: integer('pid').notNull(),
+    role: varchar('role').notNull(), // 'leader', 'standby', 'stopped'
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    leaderSince: timestamp('leader_since', { withTimezone: true }),
+    lastHeartbeatAt: timestamp('last_heartbeat_at', { withTimezone: true }).notNull(),
+    // Leader only: the cadence each "system:resource" loop currently waits (admin overrides, adaptive
+    // cadence), so a standby's health checks judge staleness the same way
+    cadencesSec: jsonb('cadences_sec').$type<Record<string, number>>(),
+  },
+  (table) => [index('idx_worker_instances_heartbeat').on(table.lastHeartbeatAt)],
+);
+
+export type WorkerInstance = typeof workerInstances.$inferSelect;
+export type NewWorkerInstance = typeof workerInstances.$inferInsert;
+
+// ─── Rate Limit Events ───────────────────────────────────────────────────────
+
+/**
+ * Shared rate-limiter counts (RATE_LIMITER_BACKEND=postgres): one row per API
+ * request slot taken and per media download, by any process using the token.
+ * Rows older than a day are pruned as new ones are written.
+ */
+export const rateLimitEvents = pgTable(
+  'rate_limit_events',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    kind: varchar('kind').notNull(), // 'api', 'media'
+    bytes: bigint('bytes', { mode: 'number' }), // media only
+    priority: varchar('priority').notNull().default('realtime'), // 'realtime', 'url_refresh', 'media_recovery', 'backfill'
+    occurredAt: timestamp('occurred_at', { withTimezone: true }).notNull(),
+  },
+  (table) => [index('idx_rate_limit_events_kind_time').on(table.kind, table.occurredAt)],
+);
+
+export type RateLimitEvent = typeof rateLimitEvents.$inferSelect;
+export type NewRateLimitEvent = typeof rateLimitEvents.$inferInsert;
+
+// ─── Job Runs ────────────────────────────────────────────────────────────────
+
+/**
+ * One row per maintenance job run (cron schedule, startup or admin request),
+ * including scheduled runs skipped because the job was still running.
+ */
+export const jobRuns = pgTable(
+  'job_runs',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    job: varchar('job').notNull(), // 'media_recovery', 'cleanup', 'backup', 'backup_prune', 'reconciliation', 'materialized_view_refresh'
+    trigger: varchar('trigger').notNull(), // 'schedule', 'startup', 'admin'
+    instanceId: varchar('instance_id').notNull(), // worker replica that ran it
+    status: varchar('status').notNull(), // 'running', 'completed', 'failed', 'skipped', 'interrupted'
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    durationMs: integer('duration_ms'),
+    errorMessage: text('error_message'),
+  },
+  (table) => [index('idx_job_runs_job_started').on(table.job, table.startedAt)],
+);
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type NewJobRun = typeof jobRuns.$inferInsert;
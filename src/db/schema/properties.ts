@@ -143,6 +143,7 @@ export const properties = pgTable(
     parcelNumber: varchar('parcel_number'),
     // ── NEW: Tax annual amount ──
     taxAnnualAmount: numeric('tax_annual_amount'),
+    estimatedTaxes: numeric('estimated_taxes'), // promoted from the ACT_EstimatedTaxes local field
 
     // Compensation
     buyerAgencyComp: varchar('buyer_agency_comp'),
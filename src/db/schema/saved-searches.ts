@@ -0,0 +1,189 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  numeric,
+  integer,
+  bigserial,
+  bigint,
+  boolean,
+  text,
+  timestamp,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { customType } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * PostGIS GEOGRAPHY columns, written as EWKT (e.g. 'SRID=4326;POLYGON((…))').
+ */
+const geographyPolygon = customType<{
+  data: string;
+  driverParam: string;
+}>({
+  dataType() {
+    return 'geography(POLYGON, 4326)';
+  },
+  toDriver(value: string): string {
+    return value;
+  },
+});
+
+const geographyPoint = customType<{
+  data: string;
+  driverParam: string;
+}>({
+  dataType() {
+    return 'geography(POINT, 4326)';
+  },
+  toDriver(value: string): string {
+    return value;
+  },
+});
+
+/**
+ * TEXT[] array column helper.
+ */
+const textArray = customType<{
+  data: string[];
+  driverParam: string;
+}>({
+  dataType() {
+    return 'text[]';
+  },
+  toDriver(value: string[]): string {
+    return `{${value.map((v) => `"${v.replace(/"/g, '\\"')}"`).join(',')}}`;
+  },
+});
+
+// ─── Saved Searches ──────────────────────────────────────────────────────────
+
+/**
+ * Users' saved search criteria, written by the API server. Every criterion is
+ * optional (NULL = no restriction); a listing matches when it satisfies all
+ * the criteria that are set.
+ */
+export const savedSearches = pgTable(
+  'saved_searches',
+  {
+    id: serial('id').primaryKey(),
+    userId: varchar('user_id').notNull(),
+    name: varchar('name'),
+    minPrice: numeric('min_price'),
+    maxPrice: numeric('max_price'),
+    minBeds: numeric('min_beds'),
+    maxBeds: numeric('max_beds'),
+    minBaths: numeric('min_baths'),
+    maxBaths: numeric('max_baths'),
+    propertyTypes: textArray('property_types'),
+    cities: textArray('cities'),
+    postalCodes: textArray('postal_codes'),
+    // Either a polygon, or a center point with a radius
+    area: geographyPolygon('area'),
+    center: geographyPoint('center'),
+    radiusMeters: integer('radius_meters'),
+    keywords: textArray('keywords'), // all must appear in public_remarks (case-insensitive)
+    // AlertEvent types to be notified of; NULL = the defaults in alerts/notify.ts
+    alertTypes: textArray('alert_types'),
+    active: boolean('active').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('idx_saved_searches_user').on(table.userId),
+    index('idx_saved_searches_price').on(table.minPrice, table.maxPrice).where(sql`active`),
+    index('idx_saved_searches_property_types').using('gin', table.propertyTypes),
+    index('idx_saved_searches_cities').using('gin', table.cities),
+    index('idx_saved_searches_postal_codes').using('gin', table.postalCodes),
+    index('idx_saved_searches_area').using('gist', table.area),
+    index('idx_saved_searches_center').using('gist', table.center),
+  ],
+);
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
+
+// ─── User Notifications ──────────────────────────────────────────────────────
+
+/**
+ * Per-user notification queue filled by saved-search matches. `dedupKey`
+ * identifies the change (listing, change type, new value), so a user is queued
+ * once per change however many of their searches match it or how often the
+ * event is replayed.
+ */
+export const userNotifications = pgTable(
+  'user_notifications',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    userId: varchar('user_id').notNull(),
+    savedSearchId: integer('saved_search_id').references(() => savedSearches.id, { onDelete: 'set null' }),
+    listingKey: varchar('listing_key').notNull(),
+    changeType: varchar('change_type').notNull(),
+    oldValue: text('old_value'),
+    newValue: text('new_value'),
+    dedupKey: varchar('dedup_key').notNull(),
+    status: varchar('status').notNull().default('pending'), // 'pending', 'sending', 'sent', 'failed', 'interrupted'
+    sendId: bigint('send_id', { mode: 'number' }).references(() => notificationSends.id, { onDelete: 'set null' }),
+    attempts: integer('attempts').notNull().default(0), // failed sends that included this notification
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex('idx_user_notifications_dedup').on(table.userId, table.dedupKey),
+    index('idx_user_notifications_pending').on(table.status, table.createdAt),
+  ],
+);
+
+export type UserNotification = typeof userNotifications.$inferSelect;
+export type NewUserNotification = typeof userNotifications.$inferInsert;
+
+// ─── Notification Recipients ─────────────────────────────────────────────────
+
+/**
+ * Where and how often each user is emailed, written by the API server. Users
+ * without a row keep their notifications queued until one exists.
+ */
+export const notificationRecipients = pgTable('notification_recipients', {
+  userId: varchar('user_id').primaryKey(),
+  email: varchar('email').notNull(),
+  digestFrequency: varchar('digest_frequency').notNull().default('instant'), // 'instant', 'hourly', 'daily'
+  enabled: boolean('enabled').notNull().default(true),
+  lastSentAt: timestamp('last_sent_at', { withTimezone: true }), // last successful send, for digest timing
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type NotificationRecipient = typeof notificationRecipients.$inferSelect;
+export type NewNotificationRecipient = typeof notificationRecipients.$inferInsert;
+
+// ─── Notification Sends ──────────────────────────────────────────────────────
+
+/**
+ * One email (instant or digest) and its send state. A row is written as
+ * 'sending' before the message is handed to SMTP, so a send interrupted by a
+ * restart is recognised and never repeated.
+ */
+export const notificationSends = pgTable(
+  'notification_sends',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    userId: varchar('user_id').notNull(),
+    channel: varchar('channel').notNull(), // 'email'
+    recipient: varchar('recipient').notNull(), // address the message went to
+    frequency: varchar('frequency').notNull(), // 'instant', 'hourly', 'daily'
+    status: varchar('status').notNull(), // 'sending', 'sent', 'failed', 'interrupted'
+    notificationCount: integer('notification_count').notNull(),
+    messageId: varchar('message_id'),
+    errorMessage: text('error_message'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('idx_notification_sends_user').on(table.userId, table.createdAt),
+    index('idx_notification_sends_status').on(table.status),
+  ],
+);
+
+export type NotificationSend = typeof notificationSends.$inferSelect;
+export type NewNotificationSend = typeof notificationSends.$inferInsert;
@@ -0,0 +1,89 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  integer,
+  bigserial,
+  boolean,
+  text,
+  timestamp,
+  jsonb,
+  index,
+} from 'drizzle-orm/pg-core';
+import { customType } from 'drizzle-orm/pg-core';
+
+/**
+ * TEXT[] array column helper.
+ */
+const textArray = customType<{
+  data: string[];
+  driverParam: string;
+}>({
+  dataType() {
+    return 'text[]';
+  },
+  toDriver(value: string[]): string {
+    return `{${value.map((v) => `"${v.replace(/"/g, '\\"')}"`).join(',')}}`;
+  },
+});
+
+// ─── Webhook Subscriptions ───────────────────────────────────────────────────
+
+/**
+ * Partner endpoints that are pushed listing events. Each filter is optional;
+ * NULL means "match everything" for that dimension.
+ */
+export const webhookSubscriptions = pgTable('webhook_subscriptions', {
+  id: serial('id').primaryKey(),
+  name: varchar('name').notNull(),
+  url: text('url').notNull(),
+  secret: varchar('secret').notNull(), // HMAC-SHA256 signing key shared with the partner
+  eventTypes: textArray('event_types'), // AlertEvent types (alerts/notify.ts); NULL = all
+  cities: textArray('cities'),
+  postalCodes: textArray('postal_codes'),
+  propertyTypes: textArray('property_types'),
+  enabled: boolean('enabled').notNull().default(true),
+  consecutiveFailures: integer('consecutive_failures').notNull().default(0), // failed attempts since the last success
+  disabledAt: timestamp('disabled_at', { withTimezone: true }),
+  disabledReason: text('disabled_reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+
+// ─── Webhook Deliveries ──────────────────────────────────────────────────────
+
+/**
+ * One event for one subscription, and the delivery log for it: attempts,
+ * the last response and when the next retry is due.
+ */
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    subscriptionId: integer('subscription_id')
+      .notNull()
+      .references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+    eventType: varchar('event_type').notNull(),
+    listingKey: varchar('listing_key').notNull(),
+    payload: jsonb('payload').notNull(), // the JSON body as signed and sent
+    status: varchar('status').notNull(), // 'pending', 'delivered', 'failed'
+    attempts: integer('attempts').notNull().default(0),
+    nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+    lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+    responseStatus: integer('response_status'),
+    responseBody: text('response_body'), // truncated
+    errorMessage: text('error_message'),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('idx_webhook_deliveries_due').on(table.status, table.nextAttemptAt),
+    index('idx_webhook_deliveries_subscription').on(table.subscriptionId, table.createdAt),
+  ],
+);
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
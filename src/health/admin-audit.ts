@@ -0,0 +1,85 @@
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { getDb } from '../db/connection.js';
+import { adminAuditLog } from '../db/schema/monitoring.js';
+import { getLogger } from '../lib/logger.js';
+import { getCallerName } from './auth.js';
+
+// Audit row of each in-flight admin request
+const auditIds = new WeakMap<FastifyRequest, number>();
+
+/**
+ * Route hooks that record an admin action in admin_audit_log: the row is
+ * written before the handler runs (the request fails with 500 if it can't be)
+ * and completed with the response status and error once the reply is sent.
+ * Use on routes behind requireNamedBearerToken so the caller is known.
+ */
+export function auditAdminAction(action: string) {
+  return {
+    preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const params = (request.params ?? {}) as Record<string, string>;
+      try {
+        const [row] = await getDb()
+          .insert(adminAuditLog)
+          .values({
+            actor: getCallerName(request) ?? 'unknown',
+            action,
+            target: Object.values(params).join(':') || null,
+            params: request.body ?? null,
+            requestedAt: new Date(),
+          })
+          .returning({ id: adminAuditLog.id });
+        auditIds.set(request, row.id);
+      } catch (err) {
+        getLogger().error({ err, action }, 'Admin audit log write failed — action not performed');
+        return reply.code(500).send({ error: 'Audit log unavailable; action not performed' });
+      }
+    },
+
+    onSend: async (request: FastifyRequest, reply: FastifyReply, payload: unknown) => {
+      const id = auditIds.get(request);
+      if (id === undefined) return payload;
+
+      try {
+        await getDb()
+          .update(adminAuditLog)
+          .set({
+            statusCode: reply.statusCode,
+            error: reply.statusCode >= 400 ? errorFromPayload(payload) : null,
+            respondedAt: new Date(),
+          })
+          .where(eq(adminAuditLog.id, id));
+      } catch (err) {
+        getLogger().error({ err, action, auditId: id }, 'Admin audit log update failed');
+      }
+      return payload;
+    },
+  };
+}
+
+export async function listAdminActions(filter: {
+  actor?: string;
+  action?: string;
+  limit?: number;
+} = {}) {
+  const conditions: SQL[] = [];
+  if (filter.actor) conditions.push(eq(adminAuditLog.actor, filter.actor));
+  if (filter.action) conditions.push(eq(adminAuditLog.action, filter.action));
+
+  return getDb()
+    .select()
+    .from(adminAuditLog)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(adminAuditLog.requestedAt), desc(adminAuditLog.id))
+    .limit(filter.limit ?? 100);
+}
+
+function errorFromPayload(payload: unknown): string | null {
+  if (typeof payload !== 'string') return null;
+  try {
+    const body = JSON.parse(payload) as { error?: unknown };
+    return typeof body.error === 'string' ? body.error : null;
+  } catch {
+    return payload.slice(0, 500);
+  }
+}
@@ -0,0 +1,275 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { getAdminTokens } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+import { requireNamedBearerToken, getCallerName } from './auth.js';
+import { auditAdminAction, listAdminActions } from './admin-audit.js';
+import { SchedulerControlError, type Scheduler } from '../scheduler/index.js';
+import { MAINTENANCE_JOBS, listJobRuns, type MaintenanceJob } from '../scheduler/jobs.js';
+import { runResync, ResyncRequestError } from '../pipeline/resync.js';
+import {
+  listDeadLetters,
+  getDeadLetter,
+  retryDeadLetter,
+  discardDeadLetter,
+  DeadLetterActionError,
+  DEAD_LETTER_STATUSES,
+} from '../pipeline/dead-letter.js';
+
+const resyncBodySchema = z.object({
+  listingIds: z.array(z.string().min(1)).optional(),
+  listingKeys: z.array(z.string().min(1)).optional(),
+  modifiedFrom: z.string().datetime({ offset: true }).optional(),
+  modifiedTo: z.string().datetime({ offset: true }).optional(),
+  originatingSystem: z.string().min(1).optional(),
+});
+
+const deadLetterListQuerySchema = z.object({
+  status: z.enum(DEAD_LETTER_STATUSES).optional(),
+  resource: z.enum(['Property', 'Member', 'Office', 'OpenHouse', 'Lookup']).optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+const deadLetterParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const auditLogQuerySchema = z.object({
+  actor: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+const jobRunsQuerySchema = z.object({
+  job: z.enum(MAINTENANCE_JOBS).optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+const resourceLoopParamsSchema = z.object({
+  originatingSystem: z.string().min(1),
+  resource: z.string().min(1),
+});
+
+const cadenceParamsSchema = z.object({
+  resource: z.string().min(1),
+});
+
+// null restores the configured CADENCE_* value (the adaptive one in CADENCE_MODE=adaptive)
+const cadenceBodySchema = z.object({
+  cadenceSec: z.number().int().positive().nullable(),
+});
+
+// URL form of the job name, e.g. /admin/jobs/media-recovery
+const jobParamsSchema = z.object({
+  job: z
+    .string()
+    .transform((value) => value.replace(/-/g, '_'))
+    .pipe(z.enum(MAINTENANCE_JOBS)),
+});
+
+/**
+ * Register admin routes on the health server. Every route requires a bearer
+ * token from ADMIN_API_TOKENS (or ADMIN_API_TOKEN); when none is configured
+ * the routes are not registered at all. Actions are recorded in admin_audit_log
+ * under the token's name. Scheduler controls are only registered when the
+ * server runs alongside a scheduler.
+ */
+export function registerAdminRoutes(server: FastifyInstance, scheduler: Scheduler | null = null): void {
+  const logger = getLogger();
+
+  const tokens = getAdminTokens();
+  if (Object.keys(tokens).length === 0) {
+    logger.info('ADMIN_API_TOKEN(S) not set — admin routes disabled');
+    return;
+  }
+  const requireAdminToken = requireNamedBearerToken(tokens);
+  const audited = (action: string) => ({ onRequest: requireAdminToken, ...auditAdminAction(action) });
+
+  // Re-fetch specific listings or a ModificationTimestamp range. Runs synchronously and responds
+  // with per-system run results once processing (including media) is done. Alongside a scheduler
+  // it runs on the leader only, in each system's Property loop slot (after any cycle in progress).
+  server.post('/admin/resync', audited('resync'), async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = resyncBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid request body', details: parsed.error.flatten().fieldErrors });
+    }
+
+    const body = parsed.data;
+    logger.info({ request: body, actor: getCallerName(request) }, 'Admin resync requested');
+
+    try {
+      const result = await runResync(
+        {
+          listingIds: body.listingIds,
+          listingKeys: body.listingKeys,
+          modifiedFrom: body.modifiedFrom ? new Date(body.modifiedFrom) : undefined,
+          modifiedTo: body.modifiedTo ? new Date(body.modifiedTo) : undefined,
+          originatingSystem: body.originatingSystem,
+        },
+        scheduler
+          ? {
+              instanceId: scheduler.getState().instanceId,
+              runExclusive: (system, fn) => scheduler.runInResourceSlot(system, 'Property', fn),
+            }
+          : {},
+      );
+      return reply.code(200).send(result);
+    } catch (err) {
+      if (err instanceof ResyncRequestError) {
+        return reply.code(400).send({ error: err.message });
+      }
+      if (err instanceof SchedulerControlError) {
+        return reply.code(409).send({ error: err.message });
+      }
+      logger.error({ err }, 'Admin resync failed');
+      return reply.code(500).send({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // Dead-letter queue: list, inspect (includes the raw payload), retry now, or discard
+  server.get('/admin/dead-letters', { onRequest: requireAdminToken }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = deadLetterListQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten().fieldErrors });
+    }
+    return reply.code(200).send(await listDeadLetters(parsed.data));
+  });
+
+  server.get('/admin/dead-letters/:id', { onRequest: requireAdminToken }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = deadLetterParamsSchema.safeParse(request.params);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid dead-letter id' });
+    }
+    const entry = await getDeadLetter(parsed.data.id);
+    if (!entry) {
+      return reply.code(404).send({ error: `Dead-letter entry ${parsed.data.id} not found` });
+    }
+    return reply.code(200).send(entry);
+  });
+
+  // Retries and discards run like the loop's own retries: alongside a scheduler, on the
+  // leader only and in the entry's (system, resource) loop slot
+  const deadLetterOptions = scheduler
+    ? { runExclusive: <T>(system: string, resource: string, fn: () => Promise<T>) => scheduler.runInResourceSlot(system, resource, fn) }
+    : {};
+
+  server.post('/admin/dead-letters/:id/retry', audited('dead_letters.retry'), async (request: FastifyRequest, reply: FastifyReply) => {
+    return runDeadLetterAction(request, reply, (id) => retryDeadLetter(id, deadLetterOptions));
+  });
+
+  server.post('/admin/dead-letters/:id/discard', audited('dead_letters.discard'), async (request: FastifyRequest, reply: FastifyReply) => {
+    return runDeadLetterAction(request, reply, (id) => discardDeadLetter(id, deadLetterOptions));
+  });
+
+  async function runDeadLetterAction(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    action: (id: number) => Promise<unknown>,
+  ) {
+    const parsed = deadLetterParamsSchema.safeParse(request.params);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid dead-letter id' });
+    }
+    logger.info({ id: parsed.data.id, url: request.url, actor: getCallerName(request) }, 'Admin dead-letter action requested');
+
+    try {
+      return reply.code(200).send(await action(parsed.data.id));
+    } catch (err) {
+      if (err instanceof DeadLetterActionError || err instanceof SchedulerControlError) {
+        return reply.code(err.reason === 'not_found' ? 404 : 409).send({ error: err.message });
+      }
+      logger.error({ err, id: parsed.data.id }, 'Admin dead-letter action failed');
+      return reply.code(500).send({ error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  // Who did what, newest first
+  server.get('/admin/audit-log', { onRequest: requireAdminToken }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = auditLogQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten().fieldErrors });
+    }
+    return reply.code(200).send(await listAdminActions(parsed.data));
+  });
+
+  // Maintenance job runs (scheduled, startup and on demand), newest first
+  server.get('/admin/job-runs', { onRequest: requireAdminToken }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = jobRunsQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten().fieldErrors });
+    }
+    return reply.code(200).send(await listJobRuns(parsed.data));
+  });
+
+  if (!scheduler) return;
+
+  // Scheduler state: per-loop paused/running flags, effective cadences and running jobs
+  server.get('/admin/scheduler', { onRequest: requireAdminToken }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.code(200).send(scheduler.getState());
+  });
+
+  // Pause, resume, or run a (system, resource) loop now. Leader only, and runtime state
+  // only — a restart or failover resumes every loop on its configured cadence.
+  server.post('/admin/scheduler/:originatingSystem/:resource/pause', audited('scheduler.pause'), async (request: FastifyRequest, reply: FastifyReply) => {
+    return runResourceLoopAction(request, reply, (system, resource) => scheduler.pause(system, resource));
+  });
+
+  server.post('/admin/scheduler/:originatingSystem/:resource/resume', audited('scheduler.resume'), async (request: FastifyRequest, reply: FastifyReply) => {
+    return runResourceLoopAction(request, reply, (system, resource) => scheduler.resume(system, resource));
+  });
+
+  server.post('/admin/scheduler/:originatingSystem/:resource/trigger', audited('scheduler.trigger'), async (request: FastifyRequest, reply: FastifyReply) => {
+    return runResourceLoopAction(request, reply, (system, resource) => scheduler.trigger(system, resource));
+  });
+
+  // Change a resource's cadence (all systems) on the leader until restart: { "cadenceSec": 120 }, or null to reset
+  server.post('/admin/cadences/:resource', audited('scheduler.cadence'), async (request: FastifyRequest, reply: FastifyReply) => {
+    const { resource } = cadenceParamsSchema.parse(request.params);
+    const body = cadenceBodySchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request body', details: body.error.flatten().fieldErrors });
+    }
+    logger.info({ resource, cadenceSec: body.data.cadenceSec, actor: getCallerName(request) }, 'Admin cadence change requested');
+    return runSchedulerAction(reply, 200, () => scheduler.setCadence(resource, body.data.cadenceSec));
+  });
+
+  // Start media recovery, cleanup or a database backup now. Runs in the background (202);
+  // progress and failures are logged, and a job that's already running is rejected with 409.
+  server.post('/admin/jobs/:job', audited('scheduler.job'), async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = jobParamsSchema.safeParse(request.params);
+    if (!parsed.success) {
+      return reply.code(404).send({ error: `Unknown job; expected one of ${MAINTENANCE_JOBS.join(', ')}` });
+    }
+    const job: MaintenanceJob = parsed.data.job;
+    logger.info({ job, actor: getCallerName(request) }, 'Admin job requested');
+    return runSchedulerAction(reply, 202, () => {
+      scheduler.startJob(job);
+      return { job, status: 'started' };
+    });
+  });
+
+  async function runResourceLoopAction(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    action: (originatingSystem: string, resource: string) => unknown,
+  ) {
+    const parsed = resourceLoopParamsSchema.safeParse(request.params);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid resource loop' });
+    }
+    logger.info({ ...parsed.data, url: request.url, actor: getCallerName(request) }, 'Admin scheduler action requested');
+    return runSchedulerAction(reply, 200, () => action(parsed.data.originatingSystem, parsed.data.resource));
+  }
+
+  function runSchedulerAction(reply: FastifyReply, code: number, action: () => unknown) {
+    try {
+      return reply.code(code).send(action());
+    } catch (err) {
+      if (err instanceof SchedulerControlError) {
+        return reply.code(err.reason === 'not_found' ? 404 : 409).send({ error: err.message });
+      }
+      logger.error({ err }, 'Admin scheduler action failed');
+      return reply.code(500).send({ error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+}
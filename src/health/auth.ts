@@ -0,0 +1,54 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+/**
+ * onRequest hook that rejects requests without `Authorization: Bearer <token>`.
+ * Compares in constant time.
+ */
+export function requireBearerToken(token: string) {
+  const expected = Buffer.from(token);
+
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!tokenMatches(bearerToken(request), expected)) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+  };
+}
+
+// Caller name for requests accepted by requireNamedBearerToken
+const callerNames = new WeakMap<FastifyRequest, string>();
+
+/**
+ * Like requireBearerToken, but accepts any of several named tokens and
+ * remembers which one was used (see getCallerName). Every token is compared,
+ * so the response time doesn't reveal which one nearly matched.
+ */
+export function requireNamedBearerToken(tokens: Record<string, string>) {
+  const expected = Object.entries(tokens).map(([name, token]) => [name, Buffer.from(token)] as const);
+
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const provided = bearerToken(request);
+    let caller: string | null = null;
+    for (const [name, token] of expected) {
+      if (tokenMatches(provided, token)) caller = name;
+    }
+    if (caller === null) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+    callerNames.set(request, caller);
+  };
+}
+
+/** Name of the token that authenticated this request, if it passed requireNamedBearerToken. */
+export function getCallerName(request: FastifyRequest): string | null {
+  return callerNames.get(request) ?? null;
+}
+
+function bearerToken(request: FastifyRequest): Buffer {
+  const header = request.headers.authorization ?? '';
+  return Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+}
+
+function tokenMatches(provided: Buffer, expected: Buffer): boolean {
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,57 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+import { readChangeEvents, ChangeCursorError, CHANGE_EVENT_TYPES } from '../pipeline/change-events.js';
+import { requireBearerToken } from './auth.js';
+
+const changesQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(5000).optional(),
+  resource: z.enum(['Property', 'Member', 'Office', 'OpenHouse']).optional(),
+  // Comma-separated, e.g. ?types=price_changed,status_changed
+  types: z
+    .string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(CHANGE_EVENT_TYPES)))
+    .optional(),
+});
+
+/**
+ * Register the change feed on the health server. Consumers page through
+ * GET /changes, storing `nextCursor` and passing it back as `?cursor=`.
+ * Requires `Authorization: Bearer $CHANGE_FEED_API_TOKEN`; disabled when unset.
+ */
+export function registerChangeFeedRoutes(server: FastifyInstance): void {
+  const env = getEnv();
+  const logger = getLogger();
+
+  if (!env.CHANGE_FEED_API_TOKEN) {
+    logger.info('CHANGE_FEED_API_TOKEN not set — change feed disabled');
+    return;
+  }
+  const requireFeedToken = requireBearerToken(env.CHANGE_FEED_API_TOKEN);
+
+  server.get('/changes', { onRequest: requireFeedToken }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = changesQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten().fieldErrors });
+    }
+
+    try {
+      const page = await readChangeEvents({
+        cursor: parsed.data.cursor,
+        limit: parsed.data.limit,
+        resourceType: parsed.data.resource,
+        eventTypes: parsed.data.types,
+      });
+      return reply.code(200).send(page);
+    } catch (err) {
+      if (err instanceof ChangeCursorError) {
+        return reply.code(400).send({ error: err.message });
+      }
+      logger.error({ err }, 'Change feed read failed');
+      return reply.code(500).send({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+}
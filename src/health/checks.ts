@@ -0,0 +1,256 @@
+import { and, desc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { media } from '../db/schema/media.js';
+import { replicationRuns } from '../db/schema/monitoring.js';
+import { HWM_RUN_MODES } from '../pipeline/replication-cycle.js';
+import { getRateLimiter, type RateLimiterUsage } from '../lib/rate-limiter.js';
+import { getEnv, getOriginatingSystems, getCadenceSec } from '../config/env.js';
+import type { ResourceType } from '../api/mlsgrid-client.js';
+import { resourceStateKey, type Scheduler } from '../scheduler/index.js';
+import { listWorkerInstances, type WorkerRole } from '../scheduler/leader-election.js';
+import { getReplicationTiming, staleThresholdSec } from './staleness.js';
+
+/**
+ * Health evaluation behind /health, /ready and /startup.
+ *
+ * - unhealthy: the database is unreachable or a resource has stopped replicating
+ * - degraded: replication is current but media downloads are lagging, or a
+ *   resource loop was paused through the admin API
+ * - healthy: everything else
+ */
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface ResourceCheck {
+  status: 'ok' | 'stale' | 'importing' | 'no_runs' | 'paused';
+  healthy: boolean;
+  lastRun: string | null; // completion of the last successful run
+  ageSec: number | null;
+  thresholdSec: number;
+  cadenceSec: number;
+  avgRunDurationSec: number | null; // over the last RUN_DURATION_SAMPLE successful runs
+  lastRunStatus: string | null; // latest finished run, successful or not
+  lastError: string | null;
+  reason: string | null;
+}
+
+export interface MediaCheck {
+  status: 'ok' | 'lagging';
+  pending: number;
+  oldestPendingSec: number | null;
+  failed: number;
+  expired: number;
+  bandwidthCapReached: boolean;
+  reason: string | null;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  ready: boolean;
+  reasons: string[];
+  scheduler: {
+    running: boolean;
+    initialImportComplete: boolean;
+    instanceId: string;
+    role: WorkerRole; // a standby serves health and the dashboard while the leader replicates
+    leaderSince: string | null;
+  } | null;
+  workers: Awaited<ReturnType<typeof listWorkerInstances>>;
+  database: { healthy: boolean; reason: string | null };
+  resources: Record<string, Record<string, ResourceCheck>>;
+  media: MediaCheck | null;
+  rateLimiter: RateLimiterUsage | null;
+}
+
+const RESOURCE_TYPES: ResourceType[] = ['Property', 'Member', 'Office', 'OpenHouse', 'Lookup'];
+
+export async function evaluateHealth(scheduler: Scheduler | null): Promise<HealthReport> {
+  const schedulerState = scheduler?.getState() ?? null;
+  const report: HealthReport = {
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    ready: false,
+    reasons: [],
+    scheduler: schedulerState
+      ? {
+          running: schedulerState.isRunning,
+          initialImportComplete: schedulerState.initialImportComplete,
+          instanceId: schedulerState.instanceId,
+          role: schedulerState.role,
+          leaderSince: schedulerState.leaderSince?.toISOString() ?? null,
+        }
+      : null,
+    workers: [],
+    database: { healthy: true, reason: null },
+    resources: {},
+    media: null,
+    rateLimiter: null,
+  };
+
+  try {
+    report.rateLimiter = await getRateLimiter().getUsageStats();
+  } catch {
+    // Rate limiter may not be initialized yet (or its Postgres backend is unreachable)
+  }
+
+  try {
+    await getDb().execute(sql`SELECT 1`);
+  } catch (err) {
+    report.database = { healthy: false, reason: `Database unreachable: ${err instanceof Error ? err.message : String(err)}` };
+    report.status = 'unhealthy';
+    report.reasons.push(report.database.reason!);
+    return report;
+  }
+
+  report.workers = await listWorkerInstances();
+
+  // A standby only knows the configured cadences; the leader publishes the ones it
+  // actually waits (admin overrides, adaptive cadence) with its heartbeat
+  const leaderCadences =
+    schedulerState?.role === 'leader' ? null : (report.workers.find((w) => w.alive && w.role === 'leader')?.cadencesSec ?? null);
+
+  // Only the leader imports; a standby (or a standalone health server) has no import to wait for
+  const importing = schedulerState?.role === 'leader' && !schedulerState.initialImportComplete;
+
+  for (const originatingSystem of getOriginatingSystems()) {
+    const systemChecks: Record<string, ResourceCheck> = {};
+    report.resources[originatingSystem] = systemChecks;
+
+    for (const resource of RESOURCE_TYPES) {
+      const cadenceSec =
+        leaderCadences?.[resourceStateKey(originatingSystem, resource)] ?? getCadenceSec(resource, originatingSystem);
+      const check = await checkResource(originatingSystem, resource, cadenceSec, importing);
+      systemChecks[resource] = check;
+      if (schedulerState?.resources[resourceStateKey(originatingSystem, resource)]?.paused) {
+        // Paused on purpose: degraded rather than unhealthy, however long it's been
+        check.status = 'paused';
+        check.healthy = true;
+        check.reason = `Paused through the admin API${check.reason ? ` (${check.reason})` : ''}`;
+        if (report.status === 'healthy') report.status = 'degraded';
+        report.reasons.push(`${originatingSystem} ${resource}: ${check.reason}`);
+      } else if (!check.healthy) {
+        report.status = 'unhealthy';
+        report.reasons.push(`${originatingSystem} ${resource}: ${check.reason}`);
+      }
+    }
+  }
+
+  report.media = await checkMedia(report.rateLimiter);
+  if (report.media.status === 'lagging') {
+    if (report.status === 'healthy') report.status = 'degraded';
+    report.reasons.push(`Media: ${report.media.reason}`);
+  }
+
+  if (importing) report.reasons.push('Initial import in progress');
+  report.ready = !importing && report.status !== 'unhealthy';
+  return report;
+}
+
+/**
+ * A resource is stale when its last successful run is older than
+ * HEALTH_STALE_MULTIPLIER × (cadence + average run duration) — the expected gap
+ * between two completions, with headroom.
+ */
+async function checkResource(
+  originatingSystem: string,
+  resource: ResourceType,
+  cadenceSec: number,
+  importing: boolean,
+): Promise<ResourceCheck> {
+  const db = getDb();
+  const env = getEnv();
+  const pair = and(
+    eq(replicationRuns.resourceType, resource),
+    eq(replicationRuns.originatingSystem, originatingSystem),
+    inArray(replicationRuns.runMode, HWM_RUN_MODES),
+  );
+
+  const { lastCompletedAt, avgRunDurationSec } = await getReplicationTiming(originatingSystem, resource);
+
+  const [latest] = await db
+    .select({ status: replicationRuns.status, errorMessage: replicationRuns.errorMessage })
+    .from(replicationRuns)
+    .where(and(pair, ne(replicationRuns.status, 'running')))
+    .orderBy(desc(replicationRuns.startedAt))
+    .limit(1);
+
+  const thresholdSec = staleThresholdSec(env.HEALTH_STALE_MULTIPLIER, cadenceSec, avgRunDurationSec);
+
+  const check: ResourceCheck = {
+    status: 'ok',
+    healthy: true,
+    lastRun: null,
+    ageSec: null,
+    thresholdSec,
+    cadenceSec,
+    avgRunDurationSec: avgRunDurationSec === null ? null : Math.round(avgRunDurationSec),
+    lastRunStatus: latest?.status ?? null,
+    lastError: latest?.status === 'failed' || latest?.status === 'partial' ? latest.errorMessage : null,
+    reason: null,
+  };
+
+  if (!lastCompletedAt) {
+    // Don't fail before the first import has had a chance to finish
+    check.status = importing ? 'importing' : 'no_runs';
+    check.reason = importing ? 'Waiting for the initial import' : 'No successful runs yet';
+    return check;
+  }
+
+  check.lastRun = lastCompletedAt.toISOString();
+  check.ageSec = Math.round((Date.now() - lastCompletedAt.getTime()) / 1000);
+  if (check.ageSec > thresholdSec) {
+    check.status = 'stale';
+    check.healthy = false;
+    check.reason =
+      `Last successful run ${formatSec(check.ageSec)} ago exceeds ${formatSec(thresholdSec)} ` +
+      `(${env.HEALTH_STALE_MULTIPLIER} × (cadence ${formatSec(cadenceSec)} + avg run ${formatSec(check.avgRunDurationSec ?? 0)}))` +
+      (check.lastError ? `; last run ${check.lastRunStatus}: ${check.lastError}` : '');
+  }
+  return check;
+}
+
+async function checkMedia(rateLimiter: HealthReport['rateLimiter']): Promise<MediaCheck> {
+  const db = getDb();
+  const env = getEnv();
+
+  const rows = await db
+    .select({
+      status: media.status,
+      count: sql<number>`count(*)::int`,
+      oldest: sql<string | null>`min(${media.updatedAt})`,
+    })
+    .from(media)
+    .where(inArray(media.status, ['pending_download', 'failed', 'expired']))
+    .groupBy(media.status);
+  const byStatus = new Map(rows.map((r) => [r.status, r]));
+
+  const pending = byStatus.get('pending_download');
+  const oldestPendingSec = pending?.oldest
+    ? Math.round((Date.now() - new Date(pending.oldest).getTime()) / 1000)
+    : null;
+  const usage = rateLimiter?.media.currentHourBytes;
+  const bandwidthCapReached = usage ? usage.current >= usage.limit : false;
+
+  const reasons: string[] = [];
+  if (oldestPendingSec !== null && oldestPendingSec > env.HEALTH_MEDIA_LAG_SEC) {
+    reasons.push(`${pending!.count} downloads pending, oldest for ${formatSec(oldestPendingSec)} (limit ${formatSec(env.HEALTH_MEDIA_LAG_SEC)})`);
+  }
+  if (bandwidthCapReached) reasons.push('hourly bandwidth hard cap reached');
+
+  return {
+    status: reasons.length > 0 ? 'lagging' : 'ok',
+    pending: pending?.count ?? 0,
+    oldestPendingSec,
+    failed: byStatus.get('failed')?.count ?? 0,
+    expired: byStatus.get('expired')?.count ?? 0,
+    bandwidthCapReached,
+    reason: reasons.length > 0 ? reasons.join('; ') : null,
+  };
+}
+
+function formatSec(sec: number): string {
+  if (sec < 120) return `${Math.round(sec)}s`;
+  if (sec < 7200) return `${Math.round(sec / 60)}m`;
+  return `${Math.round(sec / 3600)}h`;
+}
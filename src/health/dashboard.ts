@@ -2,6 +2,9 @@ import { sql } from 'drizzle-orm';
 import { getDb } from '../db/connection.js';
 import { getRateLimiter } from '../lib/rate-limiter.js';
 import { getLogger } from '../lib/logger.js';
+import { listWorkerInstances } from '../scheduler/leader-election.js';
+import { getNextJobRuns, getLatestJobRuns } from '../scheduler/jobs.js';
+import { getEnv } from '../config/env.js';
 
 /**
  * Fetch all dashboard data from the database and rate limiter.
@@ -76,10 +79,10 @@ export async function getDashboardData() {
     // 6. Recent replication runs (last 20)
     const recentRunsRows = await db.execute(sql`
       SELECT
-        id, resource_type, run_mode, status,
+        id, originating_system, resource_type, run_mode, status,
         started_at, completed_at,
         total_records_received, records_inserted, records_updated, records_deleted,
-        media_downloaded, error_message
+        media_downloaded, error_message, pages_completed, resumed_from_run_id
       FROM replication_runs
       ORDER BY started_at DESC
       LIMIT 20
@@ -112,10 +115,72 @@ export async function getDashboardData() {
         AND updated_at >= NOW() - INTERVAL '60 minutes'
     `);
 
+    // 8c. Latest $metadata snapshot and schema drift (fields we receive but don't map)
+    const metadataRows = await db.execute(sql`
+      SELECT id, fetched_at, last_checked_at, diff,
+             (SELECT count(*) FROM jsonb_object_keys(entity_fields->'Property'))::int as property_fields
+      FROM metadata_snapshots
+      ORDER BY fetched_at DESC
+      LIMIT 1
+    `);
+    const driftRows = await db.execute(sql`
+      SELECT originating_system, field_name, stored_in, in_metadata, edm_type,
+             occurrences, sample_value, first_seen_at, last_seen_at
+      FROM schema_drift_fields
+      WHERE resource_type = 'Property'
+      ORDER BY first_seen_at DESC, occurrences DESC
+      LIMIT 50
+    `);
+
+    // 8d. Most recent re-transform job (admin CLI) for progress reporting
+    const retransformRows = await db.execute(sql`
+      SELECT id, status, originating_system, batch_size, started_at, updated_at, completed_at,
+             last_listing_key, total_rows, processed_rows, updated_rows, skipped_rows, error_count, error_message
+      FROM retransform_jobs
+      ORDER BY started_at DESC
+      LIMIT 1
+    `);
+
+    // 8e. Latest key reconciliation per (system, resource) and the pending re-fetch backlog
+    const reconciliationRows = await db.execute(sql`
+      SELECT DISTINCT ON (r.originating_system, r.resource_type)
+             r.originating_system, r.resource_type, r.status, r.started_at, r.completed_at,
+             r.remote_count, r.local_count, r.stale_count, r.missing_count, r.outdated_count,
+             r.soft_deleted, r.refetched, r.refetch_failed, r.error_message,
+             (SELECT count(*) FROM reconciliation_refetches q
+              WHERE q.resource_type = r.resource_type
+                AND q.originating_system = r.originating_system
+                AND q.status = 'pending')::int as refetch_pending
+      FROM reconciliation_runs r
+      ORDER BY r.originating_system, r.resource_type, r.started_at DESC
+    `);
+
+    // 8f. Dead-letter queue: counts by status and the most recent open entries
+    const deadLetterCountRows = await db.execute(sql`
+      SELECT status, count(*)::int as count
+      FROM dead_letter_records
+      GROUP BY status
+    `);
+    const deadLetterRows = await db.execute(sql`
+      SELECT id, resource_type, originating_system, record_key, status, attempts,
+             error_message, last_failed_at, next_retry_at
+      FROM dead_letter_records
+      WHERE status IN ('pending', 'exhausted')
+      ORDER BY last_failed_at DESC
+      LIMIT 20
+    `);
+
+    // 8g. Worker replicas and which one holds the leader lock
+    const workers = await listWorkerInstances();
+
+    // 8h. Maintenance jobs: next cron fire time and the latest run of each
+    const latestJobRuns = new Map((await getLatestJobRuns()).map((run) => [run.job, run]));
+    const jobs = getNextJobRuns().map((job) => ({ ...job, lastRun: latestJobRuns.get(job.job) ?? null }));
+
     // 9. Rate limiter stats
     let rateLimiterStats = null;
     try {
-      rateLimiterStats = getRateLimiter().getUsageStats();
+      rateLimiterStats = await getRateLimiter().getUsageStats();
     } catch { /* not initialized */ }
 
     // db.execute() returns QueryResult with .rows property (node-postgres)
@@ -137,6 +202,15 @@ export async function getDashboardData() {
       totalMediaBytes: Number(((rows(totalMediaBytesRows) as Array<{ total_bytes: string }>)[0]?.total_bytes) ?? 0),
       rolling60mBytes: Number(((rows(rolling60mBytesRows) as Array<{ bytes_60m: string }>)[0]?.bytes_60m) ?? 0),
       rolling60mCount: ((rows(rolling60mBytesRows) as Array<{ count_60m: number }>)[0]?.count_60m) ?? 0,
+      metadata: (rows(metadataRows) as Array<Record<string, unknown>>)[0] ?? null,
+      schemaDrift: rows(driftRows) as Array<Record<string, unknown>>,
+      retransformJob: (rows(retransformRows) as Array<Record<string, unknown>>)[0] ?? null,
+      reconciliation: rows(reconciliationRows) as Array<Record<string, unknown>>,
+      deadLetterCounts: rows(deadLetterCountRows) as Array<{ status: string; count: number }>,
+      deadLetters: rows(deadLetterRows) as Array<Record<string, unknown>>,
+      workers,
+      jobs,
+      jobTimezone: getEnv().JOB_TIMEZONE,
       rateLimiter: rateLimiterStats,
       timestamp: new Date().toISOString(),
     };
@@ -193,9 +267,11 @@ export function renderDashboardHtml(data: Awaited<ReturnType<typeof getDashboard
     const durationSec = started && completed ? Math.round((completed.getTime() - started.getTime()) / 1000) : '-';
     const statusClass = r.status === 'completed' ? 'status-ok' : r.status === 'failed' ? 'status-fail' : r.status === 'running' ? 'status-running' : 'status-warn';
     return `<tr>
+      <td>${r.originating_system}</td>
       <td>${r.resource_type}</td>
-      <td>${r.run_mode}</td>
+      <td>${r.run_mode}${r.resumed_from_run_id ? ' <span class="badge badge-blue">resumed</span>' : ''}</td>
       <td class="${statusClass}">${r.status}</td>
+      <td>${r.pages_completed ?? 0}</td>
       <td>${r.total_records_received ?? 0}</td>
       <td>${r.records_inserted ?? 0}</td>
       <td>${r.records_updated ?? 0}</td>
@@ -206,6 +282,141 @@ export function renderDashboardHtml(data: Awaited<ReturnType<typeof getDashboard
     </tr>`;
   }).join('\n');
 
+  // Key reconciliation table — latest run per (system, resource)
+  const reconciliationHtml = data.reconciliation.map(r => {
+    const started = new Date(r.started_at as string);
+    const statusClass = r.status === 'completed' ? 'status-ok' : r.status === 'running' ? 'status-running' : 'status-fail';
+    return `<tr>
+      <td>${r.originating_system}</td>
+      <td>${r.resource_type}</td>
+      <td class="${statusClass}">${r.status}</td>
+      <td>${Number(r.remote_count ?? 0).toLocaleString()}</td>
+      <td>${Number(r.local_count ?? 0).toLocaleString()}</td>
+      <td>${r.stale_count ?? 0}${r.soft_deleted ? ` <span style="color:#64748b">(${r.soft_deleted} deleted)</span>` : ''}</td>
+      <td>${r.missing_count ?? 0}</td>
+      <td>${r.outdated_count ?? 0}</td>
+      <td>${r.refetched ?? 0}${r.refetch_failed ? ` <span class="status-fail">/ ${r.refetch_failed} failed</span>` : ''}</td>
+      <td>${r.refetch_pending ?? 0}</td>
+      <td class="utc-time" data-utc="${started.toISOString()}">${started.toISOString().replace('T', ' ').substring(0, 19)}</td>
+      <td class="error-cell">${r.error_message ? escapeHtml(String(r.error_message).substring(0, 60)) : ''}</td>
+    </tr>`;
+  }).join('\n');
+
+  // Worker replicas — the leader replicates, standbys wait to take over
+  const workersHtml = data.workers.map(w => {
+    const roleBadge = !w.alive
+      ? `<span class="badge badge-red">${w.role === 'stopped' ? 'stopped' : 'gone'}</span>`
+      : w.role === 'leader'
+        ? '<span class="badge badge-green">leader</span>'
+        : '<span class="badge badge-blue">standby</span>';
+    return `<tr>
+      <td>${escapeHtml(w.instanceId)}</td>
+      <td>${roleBadge}</td>
+      <td>${escapeHtml(w.hostname)}</td>
+      <td>${w.pid}</td>
+      <td class="utc-time" data-utc="${w.startedAt.toISOString()}">${w.startedAt.toISOString().replace('T', ' ').substring(0, 19)}</td>
+      <td${w.leaderSince ? ` class="utc-time" data-utc="${w.leaderSince.toISOString()}"` : ''}>${w.leaderSince ? w.leaderSince.toISOString().replace('T', ' ').substring(0, 19) : '-'}</td>
+      <td class="utc-time" data-utc="${w.lastHeartbeatAt.toISOString()}">${w.lastHeartbeatAt.toISOString().replace('T', ' ').substring(0, 19)}</td>
+    </tr>`;
+  }).join('\n');
+
+  // Maintenance jobs — cron schedule, next fire time and how the last run went
+  const jobBadges: Record<string, string> = {
+    completed: 'badge-green',
+    failed: 'badge-red',
+    interrupted: 'badge-red',
+    skipped: 'badge-yellow',
+    running: 'badge-blue',
+  };
+  const jobsHtml = data.jobs.map(j => {
+    const last = j.lastRun;
+    return `<tr>
+      <td>${escapeHtml(j.job)}</td>
+      <td><code>${j.cron ? escapeHtml(j.cron) : 'not scheduled'}</code></td>
+      <td${j.nextRunAt ? ` class="utc-time" data-utc="${j.nextRunAt.toISOString()}"` : ''}>${j.nextRunAt ? j.nextRunAt.toISOString().replace('T', ' ').substring(0, 19) : '-'}</td>
+      <td>${last ? `<span class="badge ${jobBadges[last.status] ?? 'badge-blue'}">${escapeHtml(last.status)}</span> ${escapeHtml(last.trigger)}` : '-'}</td>
+      <td${last ? ` class="utc-time" data-utc="${last.startedAt.toISOString()}"` : ''}>${last ? last.startedAt.toISOString().replace('T', ' ').substring(0, 19) : '-'}</td>
+      <td>${last?.durationMs != null ? `${(last.durationMs / 1000).toFixed(1)}s` : '-'}</td>
+      <td class="error-cell">${last?.errorMessage ? escapeHtml(last.errorMessage.substring(0, 60)) : ''}</td>
+    </tr>`;
+  }).join('\n');
+
+  // Dead-letter queue — open entries (pending retry or out of attempts)
+  const deadLetterCounts: Record<string, number> = {};
+  for (const row of data.deadLetterCounts) {
+    deadLetterCounts[row.status] = row.count;
+  }
+  const deadLetterHtml = data.deadLetters.map(d => {
+    const lastFailed = new Date(d.last_failed_at as string);
+    const nextRetry = d.next_retry_at ? new Date(d.next_retry_at as string) : null;
+    return `<tr>
+      <td>${d.id}</td>
+      <td>${d.originating_system}</td>
+      <td>${d.resource_type}</td>
+      <td>${escapeHtml(String(d.record_key))}</td>
+      <td class="${d.status === 'exhausted' ? 'status-fail' : 'status-warn'}">${d.status}</td>
+      <td>${d.attempts}</td>
+      <td class="utc-time" data-utc="${lastFailed.toISOString()}">${lastFailed.toISOString().replace('T', ' ').substring(0, 19)}</td>
+      <td${nextRetry ? ` class="utc-time" data-utc="${nextRetry.toISOString()}"` : ''}>${nextRetry ? nextRetry.toISOString().replace('T', ' ').substring(0, 19) : '-'}</td>
+      <td class="error-cell">${d.error_message ? escapeHtml(String(d.error_message).substring(0, 80)) : ''}</td>
+    </tr>`;
+  }).join('\n');
+
+  // Schema drift table — sample values come straight from the feed, so escape them
+  const driftHtml = data.schemaDrift.map(d => {
+    const sample = d.sample_value == null ? '' : typeof d.sample_value === 'string' ? d.sample_value : JSON.stringify(d.sample_value);
+    const metadataBadge = d.in_metadata == null
+      ? '<span class="badge badge-blue">unknown</span>'
+      : d.in_metadata
+        ? '<span class="badge badge-green">declared</span>'
+        : '<span class="badge badge-yellow">undeclared</span>';
+    const firstSeen = new Date(d.first_seen_at as string);
+    const lastSeen = new Date(d.last_seen_at as string);
+    return `<tr>
+      <td>${escapeHtml(String(d.field_name))}</td>
+      <td>${escapeHtml(String(d.originating_system))}</td>
+      <td>${d.stored_in}</td>
+      <td>${metadataBadge}${d.edm_type ? ` <span style="color:#64748b">${escapeHtml(String(d.edm_type))}</span>` : ''}</td>
+      <td>${Number(d.occurrences).toLocaleString()}</td>
+      <td class="utc-time" data-utc="${firstSeen.toISOString()}">${firstSeen.toISOString().replace('T', ' ').substring(0, 19)}</td>
+      <td class="utc-time" data-utc="${lastSeen.toISOString()}">${lastSeen.toISOString().replace('T', ' ').substring(0, 19)}</td>
+      <td class="error-cell" style="color:#94a3b8">${escapeHtml(sample.substring(0, 60))}</td>
+    </tr>`;
+  }).join('\n');
+
+  const md = data.metadata;
+  const propertyDiff = (md?.diff as Record<string, { added: string[]; removed: string[] }> | null)?.Property;
+  const metadataSummary = md
+    ? `Snapshot #${md.id} · ${md.property_fields} Property fields declared · last checked <span class="utc-time" data-utc="${new Date(md.last_checked_at as string).toISOString()}"></span>` +
+      (propertyDiff
+        ? ` · last change: <span class="status-ok">+${propertyDiff.added.length}</span> / <span class="status-fail">−${propertyDiff.removed.length}</span> fields` +
+          (propertyDiff.added.length > 0 ? ` (${escapeHtml(propertyDiff.added.slice(0, 10).join(', '))}${propertyDiff.added.length > 10 ? ', …' : ''})` : '')
+        : '')
+    : 'No $metadata snapshot yet';
+
+  // Re-transform job progress (only shown once a job has been run)
+  const rt = data.retransformJob;
+  const rtTotal = Number(rt?.total_rows ?? 0);
+  const rtProcessed = Number(rt?.processed_rows ?? 0);
+  const rtPct = rtTotal > 0 ? Math.min(100, Math.round((rtProcessed / rtTotal) * 100)) : (rt?.status === 'completed' ? 100 : 0);
+  const rtStatusClass = rt?.status === 'completed' ? 'status-ok' : rt?.status === 'failed' ? 'status-fail' : rt?.status === 'running' ? 'status-running' : 'status-warn';
+  const retransformHtml = rt
+    ? `<div class="card" style="margin-top: 16px;">
+    <h3>Re-transform Job #${rt.id} — <span class="${rtStatusClass}">${rt.status}</span></h3>
+    <div class="value">${rtPct}%</div>
+    <div class="sub">${rtProcessed.toLocaleString()} / ${rtTotal.toLocaleString()} raw responses${rt.originating_system ? ` · ${escapeHtml(String(rt.originating_system))}` : ''} · batch ${rt.batch_size}</div>
+    <div class="progress-bar">
+      <div class="progress-fill ${rt.status === 'failed' ? 'progress-red' : rt.status === 'interrupted' ? 'progress-yellow' : 'progress-green'}" style="width: ${rtPct}%"></div>
+    </div>
+    <div class="sub" style="margin-top: 8px;">
+      Updated ${Number(rt.updated_rows).toLocaleString()} · Skipped ${Number(rt.skipped_rows).toLocaleString()} · Errors ${Number(rt.error_count).toLocaleString()}
+      · cursor ${rt.last_listing_key ? escapeHtml(String(rt.last_listing_key)) : '-'}
+      · last progress <span class="utc-time" data-utc="${new Date(rt.updated_at as string).toISOString()}"></span>
+    </div>
+    ${rt.error_message ? `<div class="sub status-fail" style="margin-top: 4px;">${escapeHtml(String(rt.error_message).substring(0, 200))}</div>` : ''}
+  </div>`
+    : '';
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -358,9 +569,11 @@ export function renderDashboardHtml(data: Awaited<ReturnType<typeof getDashboard
       <table>
         <thead>
           <tr>
+            <th>System</th>
             <th>Resource</th>
             <th>Mode</th>
             <th>Status</th>
+            <th>Pages</th>
             <th>Records</th>
             <th>Inserted</th>
             <th>Updated</th>
@@ -377,6 +590,138 @@ export function renderDashboardHtml(data: Awaited<ReturnType<typeof getDashboard
     </div>
   </div>
 
+  <!-- Worker Replicas -->
+  <div class="card" style="margin-top: 16px;">
+    <h3>Worker Replicas</h3>
+    <div style="overflow-x: auto; margin-top: 8px;">
+      <table>
+        <thead>
+          <tr>
+            <th>Instance</th>
+            <th>Role</th>
+            <th>Host</th>
+            <th>PID</th>
+            <th>Started</th>
+            <th>Leader Since</th>
+            <th>Last Heartbeat</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${workersHtml}
+        </tbody>
+      </table>
+    </div>
+  </div>
+
+  <!-- Maintenance Jobs -->
+  <div class="card" style="margin-top: 16px;">
+    <h3>Maintenance Jobs</h3>
+    <div style="overflow-x: auto; margin-top: 8px;">
+      <table>
+        <thead>
+          <tr>
+            <th>Job</th>
+            <th>Schedule (${escapeHtml(data.jobTimezone)})</th>
+            <th>Next Run</th>
+            <th>Last Run</th>
+            <th>Started</th>
+            <th>Duration</th>
+            <th>Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${jobsHtml}
+        </tbody>
+      </table>
+    </div>
+  </div>
+
+  <!-- Key Reconciliation -->
+  <div class="card" style="margin-top: 16px;">
+    <h3>Key Reconciliation</h3>
+    <div style="overflow-x: auto; margin-top: 8px;">
+      <table>
+        <thead>
+          <tr>
+            <th>System</th>
+            <th>Resource</th>
+            <th>Status</th>
+            <th>Remote</th>
+            <th>Local</th>
+            <th>Stale</th>
+            <th>Missing</th>
+            <th>Outdated</th>
+            <th>Re-fetched</th>
+            <th>Queued</th>
+            <th>Started</th>
+            <th>Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${reconciliationHtml}
+        </tbody>
+      </table>
+    </div>
+  </div>
+
+  <!-- Dead-letter Queue -->
+  <div class="card" style="margin-top: 16px;">
+    <h3>Dead-letter Queue</h3>
+    <div class="sub">
+      <span class="status-warn">${deadLetterCounts.pending ?? 0} pending</span>
+      · <span class="status-fail">${deadLetterCounts.exhausted ?? 0} exhausted</span>
+      · ${deadLetterCounts.resolved ?? 0} resolved · ${deadLetterCounts.superseded ?? 0} superseded · ${deadLetterCounts.discarded ?? 0} discarded
+    </div>
+    <div style="overflow-x: auto; margin-top: 8px;">
+      <table>
+        <thead>
+          <tr>
+            <th>ID</th>
+            <th>System</th>
+            <th>Resource</th>
+            <th>Key</th>
+            <th>Status</th>
+            <th>Attempts</th>
+            <th>Last Failed</th>
+            <th>Next Retry</th>
+            <th>Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${deadLetterHtml}
+        </tbody>
+      </table>
+    </div>
+  </div>
+
+  <!-- Schema Drift -->
+  <div class="card" style="margin-top: 16px;">
+    <h3>Schema Drift — Unmapped Property Fields (${data.schemaDrift.length})</h3>
+    <div class="sub" style="font-size: 0.8rem; color: #64748b;">${metadataSummary}</div>
+    <div style="overflow-x: auto; margin-top: 8px;">
+      <table>
+        <thead>
+          <tr>
+            <th>Field</th>
+            <th>System</th>
+            <th>Stored In</th>
+            <th>$metadata</th>
+            <th>Seen</th>
+            <th>First Seen</th>
+            <th>Last Seen</th>
+            <th>Sample</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${driftHtml}
+        </tbody>
+      </table>
+    </div>
+  </div>
+
+  <!-- Re-transform Job -->
+  ${retransformHtml}
+
   <script>
     // Helper: convert ISO timestamp to local time string
     function toLocalHour(iso) {
@@ -478,3 +823,11 @@ export function renderDashboardHtml(data: Awaited<ReturnType<typeof getDashboard
 </body>
 </html>`;
 }
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
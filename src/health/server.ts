@@ -1,102 +1,25 @@
 import Fastify, { type FastifyRequest, type FastifyReply } from 'fastify';
-import { eq, desc, and, inArray } from 'drizzle-orm';
+import { sql } from 'drizzle-orm';
 import { getDb } from '../db/connection.js';
-import { replicationRuns } from '../db/schema/monitoring.js';
-import { getRateLimiter } from '../lib/rate-limiter.js';
 import { getLogger } from '../lib/logger.js';
+import type { Scheduler } from '../scheduler/index.js';
+import { evaluateHealth } from './checks.js';
 import { getDashboardData, renderDashboardHtml } from './dashboard.js';
+import { registerAdminRoutes } from './admin.js';
+import { registerChangeFeedRoutes } from './change-feed.js';
+import { metricsRegistry } from '../lib/metrics.js';
 
 let _server: ReturnType<typeof Fastify> | null = null;
 
-const RESOURCE_TYPES = ['Property', 'Member', 'Office', 'OpenHouse', 'Lookup'] as const;
-
-// Expected cadence multiplier — alert if no run in 2x expected cadence
-const CADENCE_THRESHOLDS_MS: Record<string, number> = {
-  Property: 2 * 60 * 1000,       // 2 minutes
-  Member: 2 * 5 * 60 * 1000,     // 10 minutes
-  Office: 2 * 5 * 60 * 1000,     // 10 minutes
-  OpenHouse: 2 * 5 * 60 * 1000,  // 10 minutes
-  Lookup: 2 * 24 * 60 * 60 * 1000, // 48 hours
-};
-
-export async function startHealthServer(port: number): Promise<void> {
+export async function startHealthServer(port: number, scheduler: Scheduler | null = null): Promise<void> {
   _server = Fastify({ logger: false });
 
+  // Full report: per-check detail and the reasons behind a non-healthy status.
+  // 503 only when unhealthy — a degraded worker (media lagging) is still serving data.
   _server.get('/health', async (_request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const db = getDb();
-      const now = Date.now();
-
-      // Get last successful run for each resource type
-      const resourceStatuses: Record<string, {
-        lastRun: string | null;
-        status: string;
-        healthy: boolean;
-      }> = {};
-
-      let allHealthy = true;
-
-      for (const resource of RESOURCE_TYPES) {
-        const lastRun = await db
-          .select({
-            completedAt: replicationRuns.completedAt,
-            status: replicationRuns.status,
-            hwmEnd: replicationRuns.hwmEnd,
-          })
-          .from(replicationRuns)
-          .where(
-            and(
-              eq(replicationRuns.resourceType, resource),
-              inArray(replicationRuns.status, ['completed', 'partial']),
-            ),
-          )
-          .orderBy(desc(replicationRuns.startedAt))
-          .limit(1);
-
-        if (lastRun.length === 0) {
-          // No runs yet — could be initial startup
-          resourceStatuses[resource] = {
-            lastRun: null,
-            status: 'no_runs',
-            healthy: true, // Don't fail health check on first startup
-          };
-          continue;
-        }
-
-        const completedAt = lastRun[0].completedAt;
-        const threshold = CADENCE_THRESHOLDS_MS[resource] ?? 600_000;
-        const isStale = completedAt
-          ? now - completedAt.getTime() > threshold
-          : false;
-
-        const healthy = !isStale;
-        if (!healthy) allHealthy = false;
-
-        resourceStatuses[resource] = {
-          lastRun: completedAt?.toISOString() ?? null,
-          status: isStale ? 'stale' : 'ok',
-          healthy,
-        };
-      }
-
-      // Get rate limiter stats
-      let rateLimiterStats = null;
-      try {
-        rateLimiterStats = getRateLimiter().getUsageStats();
-      } catch {
-        // Rate limiter may not be initialized yet
-      }
-
-      const response = {
-        status: allHealthy ? 'healthy' : 'degraded',
-        timestamp: new Date().toISOString(),
-        resources: resourceStatuses,
-        rateLimiter: rateLimiterStats,
-      };
-
-      return reply
-        .code(allHealthy ? 200 : 503)
-        .send(response);
+      const report = await evaluateHealth(scheduler);
+      return reply.code(report.status === 'unhealthy' ? 503 : 200).send(report);
     } catch (err) {
       getLogger().error({ err }, 'Health check error');
       return reply.code(503).send({
@@ -106,11 +29,45 @@ export async function startHealthServer(port: number): Promise<void> {
     }
   });
 
-  // Simple liveness probe
+  // Liveness — the process and its event loop are up; never depends on the database
   _server.get('/live', async (_request: FastifyRequest, reply: FastifyReply) => {
     return reply.code(200).send({ status: 'alive' });
   });
 
+  // Startup — the worker has booted: database reachable and the scheduler started
+  _server.get('/startup', async (_request: FastifyRequest, reply: FastifyReply) => {
+    const reasons: string[] = [];
+    if (scheduler && !scheduler.getState().isRunning) reasons.push('Scheduler not started');
+    try {
+      await getDb().execute(sql`SELECT 1`);
+    } catch (err) {
+      reasons.push(`Database unreachable: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return reply.code(reasons.length === 0 ? 200 : 503).send({ started: reasons.length === 0, reasons });
+  });
+
+  // Readiness — initial import complete and no resource unhealthy (degraded is still ready)
+  _server.get('/ready', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const report = await evaluateHealth(scheduler);
+      return reply.code(report.ready ? 200 : 503).send({ ready: report.ready, status: report.status, reasons: report.reasons });
+    } catch (err) {
+      getLogger().error({ err }, 'Readiness check error');
+      return reply.code(503).send({ ready: false, reasons: [err instanceof Error ? err.message : 'Unknown error'] });
+    }
+  });
+
+  // Prometheus metrics — in-process counters and gauges, no database queries
+  _server.get('/metrics', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = await metricsRegistry.metrics();
+      return reply.code(200).type(metricsRegistry.contentType).send(body);
+    } catch (err) {
+      getLogger().error({ err }, 'Metrics error');
+      return reply.code(500).send(err instanceof Error ? err.message : String(err));
+    }
+  });
+
   // Dashboard — HTML page with charts (auto-refreshes every 15s)
   _server.get('/dashboard', async (_request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -137,6 +94,12 @@ export async function startHealthServer(port: number): Promise<void> {
     }
   });
 
+  // Admin operations and scheduler controls (token-protected, audited, disabled without admin tokens)
+  registerAdminRoutes(_server, scheduler);
+
+  // Listing change events (token-protected, disabled without CHANGE_FEED_API_TOKEN)
+  registerChangeFeedRoutes(_server);
+
   await _server.listen({ port, host: '0.0.0.0' });
 }
 
@@ -0,0 +1,51 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { replicationRuns } from '../db/schema/monitoring.js';
+import { HWM_RUN_MODES } from '../pipeline/replication-cycle.js';
+import type { ResourceType } from '../api/mlsgrid-client.js';
+
+/**
+ * When a (system, resource) pair counts as no longer replicating. Shared by
+ * the health checks and the resource_stale ops alert so they agree, each with
+ * its own multiplier.
+ */
+
+// Successful runs averaged for the expected run duration
+export const RUN_DURATION_SAMPLE = 5;
+
+export interface ReplicationTiming {
+  lastCompletedAt: Date | null; // completion of the last successful run
+  avgRunDurationSec: number | null; // over the last RUN_DURATION_SAMPLE successful runs
+}
+
+export async function getReplicationTiming(originatingSystem: string, resource: ResourceType): Promise<ReplicationTiming> {
+  const successful = await getDb()
+    .select({ startedAt: replicationRuns.startedAt, completedAt: replicationRuns.completedAt })
+    .from(replicationRuns)
+    .where(
+      and(
+        eq(replicationRuns.resourceType, resource),
+        eq(replicationRuns.originatingSystem, originatingSystem),
+        inArray(replicationRuns.runMode, HWM_RUN_MODES),
+        inArray(replicationRuns.status, ['completed', 'partial']),
+      ),
+    )
+    .orderBy(desc(replicationRuns.startedAt))
+    .limit(RUN_DURATION_SAMPLE);
+
+  const durations = successful
+    .filter((r) => r.completedAt)
+    .map((r) => (r.completedAt!.getTime() - r.startedAt.getTime()) / 1000);
+  return {
+    lastCompletedAt: successful[0]?.completedAt ?? null,
+    avgRunDurationSec: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : null,
+  };
+}
+
+/**
+ * multiplier × (cadence + average run duration), in seconds — the expected gap
+ * between two completions, with headroom.
+ */
+export function staleThresholdSec(multiplier: number, cadenceSec: number, avgRunDurationSec: number | null): number {
+  return Math.round(multiplier * (cadenceSec + (avgRunDurationSec ?? 0)));
+}
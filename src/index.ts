@@ -1,9 +1,10 @@
 import 'dotenv/config';
-import { loadEnv } from './config/env.js';
+import { loadEnv, getOriginatingSystems } from './config/env.js';
 import { createLogger } from './lib/logger.js';
 import { createDb, closeDb } from './db/connection.js';
 import { startHealthServer, stopHealthServer } from './health/server.js';
 import { createScheduler } from './scheduler/index.js';
+import { validateFieldMappings, PROPERTY_FIELD_MAPPINGS } from './transform/field-mappings.js';
 
 async function main() {
   // 1. Load and validate environment
@@ -11,20 +12,24 @@ async function main() {
 
   // 2. Initialize logger
   const logger = createLogger();
-  logger.info({ originatingSystem: env.MLSGRID_ORIGINATING_SYSTEM }, 'MLS Replication Worker starting');
+  logger.info({ originatingSystems: getOriginatingSystems() }, 'MLS Replication Worker starting');
 
-  // 3. Initialize database connection
+  // 3. Validate the property field-mapping spec against the Drizzle schema
+  validateFieldMappings();
+  logger.info({ mappedColumns: PROPERTY_FIELD_MAPPINGS.length }, 'Property field mappings validated');
+
+  // 4. Initialize database connection
   createDb();
   logger.info('Database connection initialized');
 
-  // 4. Start health check server
-  await startHealthServer(env.WORKER_HEALTH_PORT);
+  // 5. Start health check server (it reports the scheduler's import/readiness state)
+  const scheduler = createScheduler();
+  await startHealthServer(env.WORKER_HEALTH_PORT, scheduler);
   logger.info({ port: env.WORKER_HEALTH_PORT }, 'Health check server started');
 
-  // 5. Start replication scheduler
-  const scheduler = createScheduler();
+  // 6. Start replication scheduler
   await scheduler.start();
-  logger.info('Replication scheduler started');
+  logger.info({ role: scheduler.getState().role }, 'Replication scheduler started');
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
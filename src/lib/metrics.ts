@@ -0,0 +1,258 @@
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import { getRateLimiter, type RateLimiterUsage } from './rate-limiter.js';
+import { getPoolStats } from '../db/connection.js';
+
+/**
+ * Prometheus metrics, served at GET /metrics on the health server.
+ *
+ * Everything here is updated in-process by the code doing the work (fetchPage,
+ * downloadMedia, the replication cycle, …) or read from in-memory state at
+ * scrape time, so a scrape never runs SQL — except the rate-limit gauges with
+ * RATE_LIMITER_BACKEND=postgres, whose counts live in the database.
+ */
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+// ─── Replication ─────────────────────────────────────────────────────────────
+
+// HWM per (system, resource), as last seen by a replication cycle
+const hwms = new Map<string, { originatingSystem: string; resource: string; hwm: Date }>();
+
+new Gauge({
+  name: 'mls_replication_lag_seconds',
+  help: 'Seconds between now and the replication high-water mark',
+  labelNames: ['originating_system', 'resource'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    const now = Date.now();
+    for (const { originatingSystem, resource, hwm } of hwms.values()) {
+      this.set({ originating_system: originatingSystem, resource }, (now - hwm.getTime()) / 1000);
+    }
+  },
+});
+
+const replicationRunsTotal = new Counter({
+  name: 'mls_replication_runs_total',
+  help: 'Finished replication runs by outcome',
+  labelNames: ['originating_system', 'resource', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+const replicationRunDuration = new Histogram({
+  name: 'mls_replication_run_duration_seconds',
+  help: 'Replication run duration',
+  labelNames: ['originating_system', 'resource', 'status'] as const,
+  buckets: [0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 3600, 14400],
+  registers: [metricsRegistry],
+});
+
+const recordsProcessedTotal = new Counter({
+  name: 'mls_records_processed_total',
+  help: 'Records processed by replication, by operation',
+  labelNames: ['originating_system', 'resource', 'operation'] as const,
+  registers: [metricsRegistry],
+});
+
+export function recordReplicationHwm(originatingSystem: string, resource: string, hwm: Date | null): void {
+  if (hwm) hwms.set(`${originatingSystem}:${resource}`, { originatingSystem, resource, hwm });
+}
+
+export function recordReplicationRun(
+  originatingSystem: string,
+  resource: string,
+  status: string,
+  durationMs: number,
+): void {
+  const labels = { originating_system: originatingSystem, resource, status };
+  replicationRunsTotal.inc(labels);
+  replicationRunDuration.observe(labels, durationMs / 1000);
+}
+
+export function recordRecordsProcessed(
+  originatingSystem: string,
+  resource: string,
+  counts: Partial<Record<'inserted' | 'updated' | 'deleted' | 'failed', number>>,
+): void {
+  for (const [operation, count] of Object.entries(counts)) {
+    if (count) recordsProcessedTotal.inc({ originating_system: originatingSystem, resource, operation }, count);
+  }
+}
+
+// ─── MLS Grid API ────────────────────────────────────────────────────────────
+
+const apiRequestsTotal = new Counter({
+  name: 'mls_api_requests_total',
+  help: 'MLS Grid API requests by HTTP status ("error" when no response was received)',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+});
+
+const apiRequestDuration = new Histogram({
+  name: 'mls_api_request_duration_seconds',
+  help: 'MLS Grid API response time',
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export function recordApiRequest(httpStatus: number | null, durationMs: number): void {
+  apiRequestsTotal.inc({ status: httpStatus ? String(httpStatus) : 'error' });
+  apiRequestDuration.observe(durationMs / 1000);
+}
+
+// ─── Rate Limiter ────────────────────────────────────────────────────────────
+
+new Gauge({
+  name: 'mls_rate_limit_api_requests',
+  help: 'API requests in each rate-limit window',
+  labelNames: ['window'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const stats = await usageStats();
+    if (!stats) return;
+    this.set({ window: 'second' }, stats.api.lastSecond.current);
+    this.set({ window: 'hour' }, stats.api.lastHour.current);
+    this.set({ window: 'day' }, stats.api.lastDay.current);
+  },
+});
+
+new Gauge({
+  name: 'mls_rate_limit_api_requests_limit',
+  help: 'API request caps per rate-limit window',
+  labelNames: ['window', 'cap'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const stats = await usageStats();
+    if (!stats) return;
+    for (const [window, usage] of [
+      ['second', stats.api.lastSecond],
+      ['hour', stats.api.lastHour],
+      ['day', stats.api.lastDay],
+    ] as const) {
+      this.set({ window, cap: 'hard' }, usage.limit);
+      this.set({ window, cap: 'soft' }, usage.softLimit);
+    }
+  },
+});
+
+new Gauge({
+  name: 'mls_rate_limit_media_bytes',
+  help: 'Media bytes downloaded in the rolling 60-minute window',
+  registers: [metricsRegistry],
+  async collect() {
+    const stats = await usageStats();
+    if (stats) this.set(stats.media.currentHourBytes.current);
+  },
+});
+
+new Gauge({
+  name: 'mls_rate_limit_media_bytes_limit',
+  help: 'Media bandwidth caps for the rolling 60-minute window',
+  labelNames: ['cap'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const stats = await usageStats();
+    if (!stats) return;
+    this.set({ cap: 'hard' }, stats.media.currentHourBytes.limit);
+    this.set({ cap: 'soft' }, stats.media.currentHourBytes.softLimit);
+  },
+});
+
+// The four gauges above share one read per scrape (a query with the Postgres backend)
+let usageStatsRead: { at: number; stats: Promise<RateLimiterUsage | null> } | null = null;
+
+function usageStats(): Promise<RateLimiterUsage | null> {
+  if (usageStatsRead && Date.now() - usageStatsRead.at < 1_000) return usageStatsRead.stats;
+
+  let stats: Promise<RateLimiterUsage | null>;
+  try {
+    stats = getRateLimiter().getUsageStats().catch(() => null);
+  } catch {
+    stats = Promise.resolve(null); // Rate limiter not initialized in this process
+  }
+  usageStatsRead = { at: Date.now(), stats };
+  return stats;
+}
+
+// ─── Media ───────────────────────────────────────────────────────────────────
+
+const mediaDownloadBytesTotal = new Counter({
+  name: 'mls_media_download_bytes_total',
+  help: 'Bytes downloaded from MLS Grid media URLs',
+  registers: [metricsRegistry],
+});
+
+const mediaDownloadDuration = new Histogram({
+  name: 'mls_media_download_duration_seconds',
+  help: 'Media download time (excluding bandwidth-limit waits)',
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+const mediaDownloadFailuresTotal = new Counter({
+  name: 'mls_media_download_failures_total',
+  help: "Media downloads that didn't end up in R2, by reason",
+  labelNames: ['reason'] as const,
+  registers: [metricsRegistry],
+});
+
+const mediaBacklog = new Gauge({
+  name: 'mls_media_backlog',
+  help: 'Media rows not yet stored in R2, by status (refreshed by the ops alert pass)',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+});
+
+export type MediaFailureReason = 'expired_url' | 'rate_limited' | 'http_error' | 'network' | 'r2_upload';
+
+export function recordMediaDownload(bytes: number, durationMs: number): void {
+  mediaDownloadBytesTotal.inc(bytes);
+  mediaDownloadDuration.observe(durationMs / 1000);
+}
+
+export function recordMediaFailure(reason: MediaFailureReason): void {
+  mediaDownloadFailuresTotal.inc({ reason });
+}
+
+export function recordMediaBacklog(countsByStatus: Record<string, number>): void {
+  for (const [status, count] of Object.entries(countsByStatus)) {
+    mediaBacklog.set({ status }, count);
+  }
+}
+
+// ─── Database Pool ───────────────────────────────────────────────────────────
+
+new Gauge({
+  name: 'mls_db_pool_connections',
+  help: 'Database pool connections by state',
+  labelNames: ['state'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    const stats = getPoolStats();
+    if (!stats) return;
+    this.set({ state: 'total' }, stats.total);
+    this.set({ state: 'idle' }, stats.idle);
+    this.set({ state: 'active' }, stats.total - stats.idle);
+  },
+});
+
+new Gauge({
+  name: 'mls_db_pool_waiting_clients',
+  help: 'Queries waiting for a free pool connection',
+  registers: [metricsRegistry],
+  collect() {
+    const stats = getPoolStats();
+    if (stats) this.set(stats.waiting);
+  },
+});
+
+new Gauge({
+  name: 'mls_db_pool_max_connections',
+  help: 'Configured pool size (DATABASE_POOL_SIZE)',
+  registers: [metricsRegistry],
+  collect() {
+    const stats = getPoolStats();
+    if (stats) this.set(stats.max);
+  },
+});
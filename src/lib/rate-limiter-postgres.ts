@@ -0,0 +1,125 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { getDb, type DbExecutor } from '../db/connection.js';
+import { rateLimitEvents } from '../db/schema/monitoring.js';
+import {
+  REQUEST_PRIORITIES,
+  type ApiWindowCounts,
+  type MediaWindowUsage,
+  type RateLimiterBackend,
+  type RequestPriority,
+} from './rate-limiter.js';
+
+// Transaction-level advisory lock serializing API slot checks across processes
+const API_SLOT_LOCK_KEY = 727_002;
+
+// Each process prunes events older than a day at most this often
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Rate limiter counts shared through Postgres (RATE_LIMITER_BACKEND=postgres),
+ * so the worker, CLI resyncs and backfill scripts all draw on one budget.
+ *
+ * Taking an API slot locks pg_advisory_xact_lock, counts the rate_limit_events
+ * windows and inserts the new event in one transaction. Windows are measured on
+ * the database clock, so processes on different hosts agree on them.
+ */
+export class PostgresRateLimiterBackend implements RateLimiterBackend {
+  readonly name = 'postgres';
+  private lastPrunedAt = 0;
+
+  async acquireApiSlot(priority: RequestPriority, decide: (counts: ApiWindowCounts) => number): Promise<number> {
+    return getDb().transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${API_SLOT_LOCK_KEY})`);
+      const waitMs = decide(await this.countApiRequests(tx));
+      if (waitMs === 0) {
+        await tx.insert(rateLimitEvents).values({ kind: 'api', priority, occurredAt: sql`clock_timestamp()` });
+      }
+      if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+        this.lastPrunedAt = Date.now();
+        await tx
+          .delete(rateLimitEvents)
+          .where(sql`${rateLimitEvents.occurredAt} < statement_timestamp() - interval '1 day'`);
+      }
+      return waitMs;
+    });
+  }
+
+  async getApiCounts(): Promise<ApiWindowCounts> {
+    return this.countApiRequests(getDb());
+  }
+
+  async recordMediaDownload(bytes: number, priority: RequestPriority): Promise<void> {
+    await getDb()
+      .insert(rateLimitEvents)
+      .values({ kind: 'media', bytes, priority, occurredAt: sql`clock_timestamp()` });
+  }
+
+  async getMediaUsage(): Promise<MediaWindowUsage> {
+    const inWindow = sql`${rateLimitEvents.occurredAt} >= statement_timestamp() - interval '1 hour'`;
+    const rows = await getDb()
+      .select({
+        priority: rateLimitEvents.priority,
+        bytes: sql<number>`coalesce(sum(${rateLimitEvents.bytes}), 0)`.mapWith(Number),
+        oldestAgeMs: sql<number | null>`extract(epoch from statement_timestamp() - min(${rateLimitEvents.occurredAt})) * 1000`,
+      })
+      .from(rateLimitEvents)
+      .where(and(eq(rateLimitEvents.kind, 'media'), inWindow))
+      .groupBy(rateLimitEvents.priority);
+
+    const usage: MediaWindowUsage = { bytes: 0, oldestAgeMs: null, bytesByPriority: zeroByPriority(() => 0) };
+    for (const row of rows) {
+      usage.bytes += row.bytes;
+      usage.bytesByPriority[asPriority(row.priority)] += row.bytes;
+      usage.oldestAgeMs = maxOrNull(usage.oldestAgeMs, row.oldestAgeMs);
+    }
+    return usage;
+  }
+
+  private async countApiRequests(db: DbExecutor): Promise<ApiWindowCounts> {
+    const since = (interval: string) => sql`${rateLimitEvents.occurredAt} > statement_timestamp() - ${sql.raw(`interval '${interval}'`)}`;
+    const rows = await db
+      .select({
+        priority: rateLimitEvents.priority,
+        lastSecond: sql<number>`count(*) filter (where ${since('1 second')})::int`,
+        lastHour: sql<number>`count(*) filter (where ${since('1 hour')})::int`,
+        lastDay: sql<number>`count(*)::int`,
+        oldestInLastSecondAgeMs: sql<number | null>`extract(epoch from statement_timestamp() - min(${rateLimitEvents.occurredAt}) filter (where ${since('1 second')})) * 1000`,
+      })
+      .from(rateLimitEvents)
+      .where(and(eq(rateLimitEvents.kind, 'api'), since('1 day')))
+      .groupBy(rateLimitEvents.priority);
+
+    const counts: ApiWindowCounts = {
+      lastSecond: 0,
+      lastHour: 0,
+      lastDay: 0,
+      oldestInLastSecondAgeMs: null,
+      byPriority: zeroByPriority(() => ({ lastHour: 0, lastDay: 0 })),
+    };
+    for (const row of rows) {
+      counts.lastSecond += row.lastSecond;
+      counts.lastHour += row.lastHour;
+      counts.lastDay += row.lastDay;
+      counts.oldestInLastSecondAgeMs = maxOrNull(counts.oldestInLastSecondAgeMs, row.oldestInLastSecondAgeMs);
+      const forPriority = counts.byPriority[asPriority(row.priority)];
+      forPriority.lastHour += row.lastHour;
+      forPriority.lastDay += row.lastDay;
+    }
+    return counts;
+  }
+}
+
+function zeroByPriority<T>(zero: () => T): Record<RequestPriority, T> {
+  return Object.fromEntries(REQUEST_PRIORITIES.map((p) => [p, zero()])) as Record<RequestPriority, T>;
+}
+
+// Events written before priorities existed, or by a newer version, count as realtime
+function asPriority(value: string): RequestPriority {
+  return (REQUEST_PRIORITIES as readonly string[]).includes(value) ? (value as RequestPriority) : 'realtime';
+}
+
+// Ages come back as numeric strings; the oldest event across classes wins
+function maxOrNull(current: number | null, value: number | string | null): number | null {
+  if (value == null) return current;
+  return current === null ? Number(value) : Math.max(current, Number(value));
+}
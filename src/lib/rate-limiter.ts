@@ -1,5 +1,7 @@
-import { getEnv } from '../config/env.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getEnv, getRateLimitReserves } from '../config/env.js';
 import { getLogger } from './logger.js';
+import { PostgresRateLimiterBackend } from './rate-limiter-postgres.js';
 
 /**
  * Two-dimension rate limiter.
@@ -11,6 +13,18 @@ import { getLogger } from './logger.js';
  *
  * Dimension 2: Media download bytes (CDN, not API endpoint) — rolling 60-minute window
  *   Caps are configurable via WORKER_MEDIA_BANDWIDTH_HARD_CAP_GB / WORKER_MEDIA_BANDWIDTH_SOFT_CAP_GB.
+ *
+ * The caps are decided here; where requests and downloads are counted is up to
+ * the backend (RATE_LIMITER_BACKEND): in this process's memory by default, or
+ * in Postgres so every process using the same token shares one budget.
+ *
+ * Every request and download belongs to a priority class (REQUEST_PRIORITIES).
+ * Each class may always use its reserved share of the hourly and daily budgets
+ * (RATE_LIMIT_RESERVE_*_PCT); the unreserved remainder is shared, and lower
+ * classes stop drawing on it earlier as usage approaches the soft caps. The
+ * reserve of a lower class that hasn't used the window at all is lent to the
+ * classes above it, up to the hard cap. Queued API requests are granted
+ * highest class first.
  */
 
 const ONE_SECOND = 1_000;
@@ -25,6 +39,41 @@ const API_LIMITS = {
   perDay: { hard: 40_000, soft: 35_000 },
 } as const;
 
+/** Priority classes, highest first. */
+export const REQUEST_PRIORITIES = ['realtime', 'url_refresh', 'media_recovery', 'backfill'] as const;
+export type RequestPriority = (typeof REQUEST_PRIORITIES)[number];
+
+// Past its reserve, a class stops using the shared budget once total usage
+// reaches this fraction of the soft cap (realtime goes on to the hard cap)
+const YIELD_AT_SOFT_CAP: Record<RequestPriority, number> = {
+  realtime: Infinity,
+  url_refresh: 0.95,
+  media_recovery: 0.85,
+  backfill: 0.75,
+};
+
+// How long a class that is out of budget waits before asking again
+const SHARE_RECHECK_MS = 30_000;
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+/**
+ * Run `fn` with every API request and media download it makes — however
+ * deeply nested — counted against `priority`.
+ */
+export function withRequestPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityContext.run(priority, fn);
+}
+
+/** The priority class of the calling code; replication ('realtime') unless set. */
+export function currentRequestPriority(): RequestPriority {
+  return priorityContext.getStore() ?? 'realtime';
+}
+
+function byPriority<T>(value: (priority: RequestPriority) => T): Record<RequestPriority, T> {
+  return Object.fromEntries(REQUEST_PRIORITIES.map((p) => [p, value(p)])) as Record<RequestPriority, T>;
+}
+
 function getMediaLimits() {
   const env = getEnv();
   return {
@@ -33,38 +82,68 @@ function getMediaLimits() {
   };
 }
 
-interface TimestampedEntry {
-  timestamp: number;
-  bytes?: number;
+/** API requests in each window, as seen by a backend. */
+export interface ApiWindowCounts {
+  lastSecond: number;
+  lastHour: number;
+  lastDay: number;
+  oldestInLastSecondAgeMs: number | null; // age of the oldest request in the 1-second window
+  byPriority: Record<RequestPriority, { lastHour: number; lastDay: number }>;
 }
 
-export class RateLimiter {
-  private apiRequests: TimestampedEntry[] = [];
-  private mediaDownloads: TimestampedEntry[] = [];
-  private apiSlotLock: Promise<void> = Promise.resolve();
+/** Media bytes downloaded in the rolling 60-minute window. */
+export interface MediaWindowUsage {
+  bytes: number;
+  oldestAgeMs: number | null; // age of the oldest download still in the window
+  bytesByPriority: Record<RequestPriority, number>;
+}
+
+/** Reserved share of each budget per class, in percent. */
+export type RateLimitReserves = Record<RequestPriority, number>;
 
+/**
+ * Where request and download events are counted. Implementations must make
+ * acquireApiSlot atomic for everyone sharing the backend: no two callers may
+ * both see room for one more request and both take it.
+ */
+export interface RateLimiterBackend {
+  readonly name: 'memory' | 'postgres';
   /**
-   * Initialize counters from database records (for restart recovery).
+   * Pass the current API counts to `decide`; when it returns 0, record a
+   * request for `priority` before anyone else can look. Returns what `decide`
+   * returned.
    */
+  acquireApiSlot(priority: RequestPriority, decide: (counts: ApiWindowCounts) => number): Promise<number>;
+  getApiCounts(): Promise<ApiWindowCounts>;
+  recordMediaDownload(bytes: number, priority: RequestPriority): Promise<void>;
+  getMediaUsage(): Promise<MediaWindowUsage>;
+}
+
+/**
+ * Counts kept in this process only. Seeded from replication_requests /
+ * media_downloads at startup (initializeFromHistory); other processes using the
+ * same token are invisible to it.
+ */
+export class MemoryRateLimiterBackend implements RateLimiterBackend {
+  readonly name = 'memory';
+  private apiRequests: Array<{ timestamp: number; priority: RequestPriority }> = [];
+  private mediaDownloads: Array<{ timestamp: number; bytes: number; priority: RequestPriority }> = [];
+
   initializeFromHistory(
     apiRequestTimestamps: Date[],
     mediaDownloadEntries: Array<{ timestamp: Date; bytes: number }>,
   ): void {
     const now = Date.now();
-    const dayAgo = now - ONE_DAY;
-    const oneHourAgo = now - ONE_HOUR;
-
+    // History doesn't record a class; it is counted as realtime
     this.apiRequests = apiRequestTimestamps
-      .map((ts) => ({ timestamp: ts.getTime() }))
-      .filter((e) => e.timestamp > dayAgo);
-
+      .map((ts) => ({ timestamp: ts.getTime(), priority: 'realtime' as const }))
+      .filter((e) => e.timestamp > now - ONE_DAY);
     // Load entries from the rolling 60-minute window
     this.mediaDownloads = mediaDownloadEntries
-      .map((e) => ({ timestamp: e.timestamp.getTime(), bytes: Number(e.bytes) }))
-      .filter((e) => e.timestamp >= oneHourAgo);
+      .map((e) => ({ timestamp: e.timestamp.getTime(), bytes: Number(e.bytes), priority: 'realtime' as const }))
+      .filter((e) => e.timestamp >= now - ONE_HOUR);
 
-    const logger = getLogger();
-    logger.info(
+    getLogger().info(
       {
         apiRequestsInWindow: this.apiRequests.length,
         mediaDownloadsInWindow: this.mediaDownloads.length,
@@ -73,127 +152,185 @@ export class RateLimiter {
     );
   }
 
-  /**
-   * Check if an API request can proceed. Returns wait time in ms (0 = proceed).
-   */
-  checkApiRequest(): number {
-    this.pruneApiRequests();
-    const now = Date.now();
+  // Slots are only taken by one RateLimiter's grant loop at a time, and nothing
+  // here awaits, so check-and-record can't interleave
+  async acquireApiSlot(priority: RequestPriority, decide: (counts: ApiWindowCounts) => number): Promise<number> {
+    const waitMs = decide(await this.getApiCounts());
+    if (waitMs === 0) this.apiRequests.push({ timestamp: Date.now(), priority });
+    return waitMs;
+  }
 
-    // Check 1-second window
+  async getApiCounts(): Promise<ApiWindowCounts> {
+    const now = Date.now();
+    this.apiRequests = this.apiRequests.filter((e) => e.timestamp > now - ONE_DAY);
     const lastSecond = this.apiRequests.filter((e) => e.timestamp > now - ONE_SECOND);
-    if (lastSecond.length >= API_LIMITS.perSecond.hard) {
-      const oldestInWindow = Math.min(...lastSecond.map((e) => e.timestamp));
-      return oldestInWindow + ONE_SECOND - now + 50; // +50ms buffer
-    }
-
-    // Check hourly window
     const lastHour = this.apiRequests.filter((e) => e.timestamp > now - ONE_HOUR);
-    if (lastHour.length >= API_LIMITS.perHour.hard) {
-      return ONE_HOUR; // Wait a full hour (will be rechecked)
-    }
+    return {
+      lastSecond: lastSecond.length,
+      lastHour: lastHour.length,
+      lastDay: this.apiRequests.length,
+      oldestInLastSecondAgeMs: lastSecond.length > 0 ? now - Math.min(...lastSecond.map((e) => e.timestamp)) : null,
+      byPriority: byPriority((p) => ({
+        lastHour: lastHour.filter((e) => e.priority === p).length,
+        lastDay: this.apiRequests.filter((e) => e.priority === p).length,
+      })),
+    };
+  }
 
-    // Check daily window
-    const lastDay = this.apiRequests.filter((e) => e.timestamp > now - ONE_DAY);
-    if (lastDay.length >= API_LIMITS.perDay.hard) {
-      return ONE_HOUR; // Wait and recheck
-    }
+  async recordMediaDownload(bytes: number, priority: RequestPriority): Promise<void> {
+    this.mediaDownloads.push({ timestamp: Date.now(), bytes: Number(bytes), priority });
+  }
 
-    // Soft cap warnings
-    if (lastSecond.length >= API_LIMITS.perSecond.soft) {
-      return 200; // Brief pause at soft cap
-    }
-    if (lastHour.length >= API_LIMITS.perHour.soft) {
-      return 2_000; // 2s pause approaching hourly limit
-    }
-    if (lastDay.length >= API_LIMITS.perDay.soft) {
-      return 5_000; // 5s pause approaching daily limit
-    }
+  async getMediaUsage(): Promise<MediaWindowUsage> {
+    const now = Date.now();
+    // Keep only entries from the rolling 60-minute window
+    this.mediaDownloads = this.mediaDownloads.filter((e) => e.timestamp >= now - ONE_HOUR);
+    const sumBytes = (entries: typeof this.mediaDownloads) => entries.reduce((sum, e) => sum + e.bytes, 0);
+    return {
+      bytes: sumBytes(this.mediaDownloads),
+      oldestAgeMs: this.mediaDownloads.length > 0 ? now - Math.min(...this.mediaDownloads.map((e) => e.timestamp)) : null,
+      bytesByPriority: byPriority((p) => sumBytes(this.mediaDownloads.filter((e) => e.priority === p))),
+    };
+  }
+}
 
-    return 0;
+interface ApiSlotWaiter {
+  priority: RequestPriority;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+export class RateLimiter {
+  private apiWaiters: ApiSlotWaiter[] = [];
+  private granting = false;
+  private wakeGranter: (() => void) | null = null;
+
+  constructor(
+    readonly backend: RateLimiterBackend,
+    readonly reserves: RateLimitReserves = getRateLimitReserves(),
+  ) {}
+
+  /**
+   * Initialize counters from database records (for restart recovery). Only the
+   * in-memory backend needs this; the Postgres backend's counts survive restarts.
+   */
+  initializeFromHistory(
+    apiRequestTimestamps: Date[],
+    mediaDownloadEntries: Array<{ timestamp: Date; bytes: number }>,
+  ): void {
+    if (this.backend instanceof MemoryRateLimiterBackend) {
+      this.backend.initializeFromHistory(apiRequestTimestamps, mediaDownloadEntries);
+    }
   }
 
   /**
-   * Record an API request.
+   * Check if an API request can proceed. Returns wait time in ms (0 = proceed).
    */
-  recordApiRequest(): void {
-    this.apiRequests.push({ timestamp: Date.now() });
+  async checkApiRequest(priority: RequestPriority = currentRequestPriority()): Promise<number> {
+    return apiWaitMs(await this.backend.getApiCounts(), priority, this.reserves);
   }
 
   /**
    * Check if a media download can proceed. Returns wait time in ms (0 = proceed).
-   * Uses a fixed clock-hour window (resets at :00 each hour) to match MLS Grid's billing window.
+   * Uses the rolling 60-minute window MLS Grid bills bandwidth against.
    */
-  checkMediaDownload(): number {
-    this.pruneMediaDownloads();
-    const now = Date.now();
-    const oneHourAgo = now - ONE_HOUR;
-    const mediaLimits = getMediaLimits();
-
-    const rollingHourBytes = this.mediaDownloads
-      .filter((e) => e.timestamp >= oneHourAgo)
-      .reduce((sum, e) => sum + Number(e.bytes ?? 0), 0);
-
-    if (rollingHourBytes >= mediaLimits.hard) {
-      // Find the oldest entry in the window — wait until it falls out
-      const oldest = Math.min(...this.mediaDownloads.filter((e) => e.timestamp >= oneHourAgo).map((e) => e.timestamp));
-      const waitMs = oldest + ONE_HOUR - now + 100; // +100ms buffer
-      return Math.max(waitMs, 1_000); // At least 1s
-    }
-
-    if (rollingHourBytes >= mediaLimits.soft) {
-      return 10_000; // 10s pause approaching bandwidth limit
-    }
-
-    return 0;
+  async checkMediaDownload(priority: RequestPriority = currentRequestPriority()): Promise<number> {
+    return mediaWaitMs(await this.backend.getMediaUsage(), priority, this.reserves);
   }
 
   /**
    * Record a media download.
    */
-  recordMediaDownload(bytes: number): void {
-    this.mediaDownloads.push({ timestamp: Date.now(), bytes: Number(bytes) });
+  async recordMediaDownload(bytes: number, priority: RequestPriority = currentRequestPriority()): Promise<void> {
+    await this.backend.recordMediaDownload(bytes, priority);
   }
 
   /**
    * Wait until an API request is allowed, then record it.
-   * Uses a promise-chain mutex to serialize concurrent callers and prevent
-   * TOCTOU race conditions where multiple callers check simultaneously,
+   * Callers queue up and a single grant loop hands out slots one at a time,
+   * which prevents TOCTOU races where multiple callers check simultaneously,
    * all see < 2 requests, and all proceed — causing bursts above the limit.
+   * (The backend does the same across processes.)
    */
-  async waitForApiSlot(): Promise<void> {
-    // Chain onto the previous caller's promise so only one caller
-    // can check + record at a time.
-    const previous = this.apiSlotLock;
-    let resolve!: () => void;
-    this.apiSlotLock = new Promise<void>((r) => { resolve = r; });
+  async waitForApiSlot(priority: RequestPriority = currentRequestPriority()): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      // A class the grant loop isn't asking for yet may be allowed now
+      if (!this.apiWaiters.some((w) => w.priority === priority)) this.wakeGranter?.();
+      this.apiWaiters.push({ priority, resolve, reject });
+      void this.grantApiSlots();
+    });
+  }
 
-    await previous; // Wait for the previous caller to finish
+  /**
+   * Grant one slot at a time to the longest-waiting caller of the highest class
+   * that has room, sleeping while none has. Runs while anyone is queued.
+   */
+  private async grantApiSlots(): Promise<void> {
+    if (this.granting) return;
+    this.granting = true;
 
     try {
-      let waitMs = this.checkApiRequest();
-      while (waitMs > 0) {
-        const logger = getLogger();
-        logger.warn({ waitMs }, 'Rate limiter: waiting for API slot');
-        await sleep(waitMs);
-        waitMs = this.checkApiRequest();
+      while (this.apiWaiters.length > 0) {
+        const waits: Partial<Record<RequestPriority, number>> = {};
+        let granted = false;
+
+        for (const priority of REQUEST_PRIORITIES) {
+          const waiter = this.apiWaiters.find((w) => w.priority === priority);
+          if (!waiter) continue;
+
+          let waitMs: number;
+          try {
+            waitMs = await this.backend.acquireApiSlot(priority, (counts) => apiWaitMs(counts, priority, this.reserves));
+          } catch (err) {
+            this.apiWaiters.splice(this.apiWaiters.indexOf(waiter), 1);
+            waiter.reject(err);
+            granted = true;
+            break;
+          }
+
+          if (waitMs === 0) {
+            this.apiWaiters.splice(this.apiWaiters.indexOf(waiter), 1);
+            waiter.resolve();
+            granted = true;
+            break;
+          }
+          waits[priority] = waitMs;
+        }
+
+        if (!granted) {
+          const waitMs = Math.min(...Object.values(waits));
+          getLogger().warn({ waitMs, waits }, 'Rate limiter: waiting for API slot');
+          await this.sleepUnlessWoken(waitMs);
+        }
       }
-      this.recordApiRequest();
     } finally {
-      resolve(); // Release the lock for the next caller
+      this.granting = false;
     }
   }
 
+  // Sleep between grant attempts; waitForApiSlot cuts it short when a new class queues
+  private sleepUnlessWoken(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.wakeGranter = null;
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.wakeGranter = wake;
+    });
+  }
+
   /**
    * Wait until a media download is allowed.
    */
-  async waitForMediaSlot(): Promise<void> {
-    let waitMs = this.checkMediaDownload();
+  async waitForMediaSlot(priority: RequestPriority = currentRequestPriority()): Promise<void> {
+    let waitMs = await this.checkMediaDownload(priority);
     while (waitMs > 0) {
       const logger = getLogger();
-      logger.warn({ waitMs }, 'Rate limiter: waiting for media bandwidth slot');
+      logger.warn({ waitMs, priority }, 'Rate limiter: waiting for media bandwidth slot');
       await sleep(waitMs);
-      waitMs = this.checkMediaDownload();
+      waitMs = await this.checkMediaDownload(priority);
     }
   }
 
@@ -201,47 +338,122 @@ export class RateLimiter {
    * Get current usage stats for health check reporting.
    * Media bytes use a rolling 60-minute window.
    */
-  getUsageStats() {
-    this.pruneApiRequests();
-    this.pruneMediaDownloads();
-    const now = Date.now();
-    const oneHourAgo = now - ONE_HOUR;
+  async getUsageStats() {
+    const api = await this.backend.getApiCounts();
+    const mediaUsage = await this.backend.getMediaUsage();
     const mediaLimits = getMediaLimits();
 
-    const apiLastSecond = this.apiRequests.filter((e) => e.timestamp > now - ONE_SECOND).length;
-    const apiLastHour = this.apiRequests.filter((e) => e.timestamp > now - ONE_HOUR).length;
-    const apiLastDay = this.apiRequests.filter((e) => e.timestamp > now - ONE_DAY).length;
-    const mediaRollingHourBytes = this.mediaDownloads
-      .filter((e) => e.timestamp >= oneHourAgo)
-      .reduce((sum, e) => sum + Number(e.bytes ?? 0), 0);
-
     return {
+      backend: this.backend.name,
       api: {
-        lastSecond: { current: apiLastSecond, limit: API_LIMITS.perSecond.hard },
-        lastHour: { current: apiLastHour, limit: API_LIMITS.perHour.hard },
-        lastDay: { current: apiLastDay, limit: API_LIMITS.perDay.hard },
+        lastSecond: { current: api.lastSecond, limit: API_LIMITS.perSecond.hard, softLimit: API_LIMITS.perSecond.soft },
+        lastHour: { current: api.lastHour, limit: API_LIMITS.perHour.hard, softLimit: API_LIMITS.perHour.soft },
+        lastDay: { current: api.lastDay, limit: API_LIMITS.perDay.hard, softLimit: API_LIMITS.perDay.soft },
       },
       media: {
         currentHourBytes: {
-          current: mediaRollingHourBytes,
+          current: mediaUsage.bytes,
           limit: mediaLimits.hard,
           softLimit: mediaLimits.soft,
-          percentUsed: Math.round((mediaRollingHourBytes / mediaLimits.hard) * 100),
+          percentUsed: Math.round((mediaUsage.bytes / mediaLimits.hard) * 100),
         },
       },
+      priorities: byPriority((p) => ({
+        reservedPct: this.reserves[p],
+        apiLastHour: api.byPriority[p].lastHour,
+        apiLastDay: api.byPriority[p].lastDay,
+        mediaCurrentHourBytes: mediaUsage.bytesByPriority[p],
+      })),
     };
   }
+}
 
-  private pruneApiRequests(): void {
-    const cutoff = Date.now() - ONE_DAY;
-    this.apiRequests = this.apiRequests.filter((e) => e.timestamp > cutoff);
+export type RateLimiterUsage = Awaited<ReturnType<RateLimiter['getUsageStats']>>;
+
+/**
+ * Whether `priority` may take one more unit of a window's budget: always
+ * within its own reserved share, otherwise from the unreserved remainder —
+ * which lower classes stop drawing on as total usage nears the soft cap —
+ * plus the reserves of lower classes that are idle in this window. A class
+ * that has started using the window keeps its whole reserve.
+ */
+function hasShare(
+  usage: Record<RequestPriority, number>,
+  limits: { hard: number; soft: number },
+  priority: RequestPriority,
+  reserves: RateLimitReserves,
+): boolean {
+  const reserved = (p: RequestPriority) => (limits.hard * reserves[p]) / 100;
+  if (usage[priority] < reserved(priority)) return true;
+
+  const rank = REQUEST_PRIORITIES.indexOf(priority);
+  let pool = limits.hard;
+  let borrowed = 0;
+  let total = 0;
+  for (const [i, p] of REQUEST_PRIORITIES.entries()) {
+    const lendable = i > rank && usage[p] === 0;
+    if (!lendable) pool -= reserved(p);
+    borrowed += Math.max(usage[p] - reserved(p), 0);
+    total += usage[p];
   }
+  return borrowed < pool && total < limits.hard && total < limits.soft * YIELD_AT_SOFT_CAP[priority];
+}
 
-  private pruneMediaDownloads(): void {
-    // Keep only entries from the rolling 60-minute window
-    const cutoff = Date.now() - ONE_HOUR;
-    this.mediaDownloads = this.mediaDownloads.filter((e) => e.timestamp >= cutoff);
+function apiWaitMs(counts: ApiWindowCounts, priority: RequestPriority, reserves: RateLimitReserves): number {
+  // Check 1-second window
+  if (counts.lastSecond >= API_LIMITS.perSecond.hard) {
+    return Math.max(ONE_SECOND - (counts.oldestInLastSecondAgeMs ?? 0), 0) + 50; // +50ms buffer
+  }
+
+  // Check hourly window
+  if (counts.lastHour >= API_LIMITS.perHour.hard) {
+    return ONE_HOUR; // Wait a full hour (will be rechecked)
+  }
+
+  // Check daily window
+  if (counts.lastDay >= API_LIMITS.perDay.hard) {
+    return ONE_HOUR; // Wait and recheck
+  }
+
+  // Check this class's share of the hourly and daily budgets
+  const hourly = byPriority((p) => counts.byPriority[p].lastHour);
+  const daily = byPriority((p) => counts.byPriority[p].lastDay);
+  if (!hasShare(hourly, API_LIMITS.perHour, priority, reserves) || !hasShare(daily, API_LIMITS.perDay, priority, reserves)) {
+    return SHARE_RECHECK_MS;
+  }
+
+  // Soft cap warnings
+  if (counts.lastSecond >= API_LIMITS.perSecond.soft) {
+    return 200; // Brief pause at soft cap
   }
+  if (counts.lastHour >= API_LIMITS.perHour.soft) {
+    return 2_000; // 2s pause approaching hourly limit
+  }
+  if (counts.lastDay >= API_LIMITS.perDay.soft) {
+    return 5_000; // 5s pause approaching daily limit
+  }
+
+  return 0;
+}
+
+function mediaWaitMs(usage: MediaWindowUsage, priority: RequestPriority, reserves: RateLimitReserves): number {
+  const mediaLimits = getMediaLimits();
+
+  if (usage.bytes >= mediaLimits.hard) {
+    // Wait until the oldest entry in the window falls out
+    const waitMs = ONE_HOUR - (usage.oldestAgeMs ?? 0) + 100; // +100ms buffer
+    return Math.max(waitMs, 1_000); // At least 1s
+  }
+
+  if (!hasShare(usage.bytesByPriority, mediaLimits, priority, reserves)) {
+    return SHARE_RECHECK_MS;
+  }
+
+  if (usage.bytes >= mediaLimits.soft) {
+    return 10_000; // 10s pause approaching bandwidth limit
+  }
+
+  return 0;
 }
 
 function sleep(ms: number): Promise<void> {
@@ -253,7 +465,11 @@ let _rateLimiter: RateLimiter | null = null;
 
 export function createRateLimiter(): RateLimiter {
   if (_rateLimiter) return _rateLimiter;
-  _rateLimiter = new RateLimiter();
+  const backend = getEnv().RATE_LIMITER_BACKEND === 'postgres'
+    ? new PostgresRateLimiterBackend()
+    : new MemoryRateLimiterBackend();
+  _rateLimiter = new RateLimiter(backend);
+  getLogger().info({ backend: backend.name }, 'Rate limiter created');
   return _rateLimiter;
 }
 
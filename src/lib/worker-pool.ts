@@ -0,0 +1,64 @@
+/**
+ * Bounded worker pool with per-key serialization.
+ *
+ * At most `concurrency` tasks run at once. Tasks submitted with the same key
+ * run one after another in submission order (a key waits for its predecessor
+ * before taking a slot, so it never holds a slot idle). A null key opts out of
+ * serialization.
+ */
+export class KeyedWorkerPool {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+  private readonly keyTails = new Map<string, Promise<void>>();
+
+  constructor(private readonly concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Worker pool concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  run<T>(key: string | null, task: () => Promise<T>): Promise<T> {
+    const previous = key !== null ? this.keyTails.get(key) : undefined;
+
+    const result = (async () => {
+      if (previous) await previous;
+      await this.acquire();
+      try {
+        return await task();
+      } finally {
+        this.release();
+      }
+    })();
+
+    if (key !== null) {
+      const tail = result.then(
+        () => undefined,
+        () => undefined,
+      );
+      this.keyTails.set(key, tail);
+      void tail.then(() => {
+        if (this.keyTails.get(key) === tail) this.keyTails.delete(key);
+      });
+    }
+
+    return result;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { sql } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { schemaDriftFields } from '../db/schema/metadata.js';
+import { MAPPED_PROPERTY_FIELDS, isLocalField } from '../transform/property-mapper.js';
+import { getLatestPropertyMetadataFields } from './metadata-sync.js';
+import { getLogger } from '../lib/logger.js';
+
+const MAX_SAMPLE_LENGTH = 500;
+
+interface DriftObservation {
+  originatingSystem: string;
+  fieldName: string;
+  occurrences: number;
+  sampleValue: unknown;
+  sampleKey: string | null;
+}
+
+// Observations accumulated in memory during a cycle, flushed once at its end
+const pending = new Map<string, DriftObservation>();
+
+/**
+ * Note every field of an incoming Property record that transformProperty()
+ * doesn't map to a `properties` column. Cheap enough to call per record.
+ */
+export function observePropertyFields(raw: Record<string, unknown>): void {
+  const originatingSystem = (raw.OriginatingSystemName as string | undefined) ?? 'unknown';
+  const listingKey = (raw.ListingKey as string | undefined) ?? null;
+
+  for (const [fieldName, value] of Object.entries(raw)) {
+    // Skip mapped fields and OData annotations (e.g. "@odata.id")
+    if (MAPPED_PROPERTY_FIELDS.has(fieldName) || fieldName.includes('@')) continue;
+
+    const key = `${originatingSystem}:${fieldName}`;
+    const existing = pending.get(key);
+    if (existing) {
+      existing.occurrences++;
+      if (value != null) {
+        existing.sampleValue = value;
+        existing.sampleKey = listingKey;
+      }
+    } else {
+      pending.set(key, { originatingSystem, fieldName, occurrences: 1, sampleValue: value, sampleKey: listingKey });
+    }
+  }
+}
+
+/**
+ * Write the accumulated observations to schema_drift_fields.
+ * Non-fatal: drift reporting must never fail a replication cycle.
+ */
+export async function flushDriftObservations(): Promise<number> {
+  if (pending.size === 0) return 0;
+
+  const observations = [...pending.values()];
+  pending.clear();
+
+  const db = getDb();
+  const logger = getLogger();
+
+  try {
+    const metadataFields = await getLatestPropertyMetadataFields();
+    const now = new Date();
+
+    for (const obs of observations) {
+      const values = {
+        resourceType: 'Property',
+        originatingSystem: obs.originatingSystem,
+        fieldName: obs.fieldName,
+        storedIn: isLocalField(obs.fieldName) ? 'local_fields' : 'raw_responses',
+        inMetadata: metadataFields ? obs.fieldName in metadataFields : null,
+        edmType: metadataFields?.[obs.fieldName] ?? null,
+        occurrences: obs.occurrences,
+        sampleValue: truncateSample(obs.sampleValue),
+        sampleKey: obs.sampleKey,
+        firstSeenAt: now,
+        lastSeenAt: now,
+      };
+
+      await db
+        .insert(schemaDriftFields)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [schemaDriftFields.resourceType, schemaDriftFields.originatingSystem, schemaDriftFields.fieldName],
+          set: {
+            occurrences: sql`${schemaDriftFields.occurrences} + ${obs.occurrences}`,
+            storedIn: values.storedIn,
+            inMetadata: values.inMetadata,
+            edmType: values.edmType,
+            sampleValue: values.sampleValue,
+            sampleKey: values.sampleKey,
+            lastSeenAt: now,
+          },
+        });
+    }
+
+    logger.debug({ fields: observations.length }, 'Flushed schema drift observations');
+    return observations.length;
+  } catch (err) {
+    logger.warn({ err }, 'Failed to flush schema drift observations (non-fatal)');
+    return 0;
+  }
+}
+
+function truncateSample(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > MAX_SAMPLE_LENGTH) {
+    return `${value.substring(0, MAX_SAMPLE_LENGTH)}…`;
+  }
+  if (value != null && typeof value === 'object') {
+    const json = JSON.stringify(value);
+    if (json.length > MAX_SAMPLE_LENGTH) return `${json.substring(0, MAX_SAMPLE_LENGTH)}…`;
+  }
+  return value ?? null;
+}
@@ -0,0 +1,232 @@
+import { createHash } from 'node:crypto';
+import { desc, eq } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { metadataSnapshots, schemaDriftFields } from '../db/schema/metadata.js';
+import { replicationRequests } from '../db/schema/monitoring.js';
+import { MlsGridApiError } from '../api/mlsgrid-client.js';
+import { getRateLimiter } from '../lib/rate-limiter.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+
+/** EntityType name → field name → EDM type, e.g. { Property: { ListPrice: 'Edm.Decimal' } } */
+export type EntityFields = Record<string, Record<string, string>>;
+
+export interface EntityFieldsDiff {
+  added: string[];
+  removed: string[];
+  typeChanged: Array<{ field: string; from: string; to: string }>;
+}
+
+export interface MetadataSyncResult {
+  snapshotId: number;
+  changed: boolean;
+  diff: Record<string, EntityFieldsDiff> | null;
+}
+
+/**
+ * Fetch the $metadata EDMX document, store it when it differs from the last
+ * snapshot, and diff the declared fields against the previous version.
+ * Counts as one API request against the shared rate limiter budget.
+ */
+export async function syncMetadata(): Promise<MetadataSyncResult> {
+  const db = getDb();
+  const logger = getLogger();
+
+  const document = await fetchMetadataDocument();
+  const contentHash = createHash('sha256').update(document).digest('hex');
+  const now = new Date();
+
+  const [latest] = await db
+    .select({
+      id: metadataSnapshots.id,
+      contentHash: metadataSnapshots.contentHash,
+      entityFields: metadataSnapshots.entityFields,
+    })
+    .from(metadataSnapshots)
+    .orderBy(desc(metadataSnapshots.fetchedAt))
+    .limit(1);
+
+  if (latest && latest.contentHash === contentHash) {
+    await db
+      .update(metadataSnapshots)
+      .set({ lastCheckedAt: now })
+      .where(eq(metadataSnapshots.id, latest.id));
+    logger.info({ snapshotId: latest.id }, 'MLS Grid $metadata unchanged');
+    return { snapshotId: latest.id, changed: false, diff: null };
+  }
+
+  const entityFields = parseEdmx(document);
+  const diff = latest ? diffEntityFields(latest.entityFields as EntityFields, entityFields) : null;
+
+  const [snapshot] = await db
+    .insert(metadataSnapshots)
+    .values({
+      fetchedAt: now,
+      lastCheckedAt: now,
+      contentHash,
+      documentBytes: Buffer.byteLength(document),
+      document,
+      entityFields,
+      diff,
+    })
+    .returning({ id: metadataSnapshots.id });
+
+  if (diff && Object.keys(diff).length > 0) {
+    logger.warn({ snapshotId: snapshot.id, diff }, 'MLS Grid $metadata changed');
+  } else {
+    logger.info(
+      {
+        snapshotId: snapshot.id,
+        entityTypes: Object.keys(entityFields).length,
+        propertyFields: Object.keys(entityFields.Property ?? {}).length,
+      },
+      latest ? 'MLS Grid $metadata document changed (no field changes)' : 'Stored first MLS Grid $metadata snapshot',
+    );
+  }
+
+  // Re-classify known drift fields against the new Property declaration
+  await refreshDriftMetadataFlags(entityFields.Property ?? {});
+
+  return { snapshotId: snapshot.id, changed: true, diff };
+}
+
+/**
+ * Load the Property fields declared in the latest $metadata snapshot, or null
+ * if no snapshot has been stored yet.
+ */
+export async function getLatestPropertyMetadataFields(): Promise<Record<string, string> | null> {
+  const db = getDb();
+  const [latest] = await db
+    .select({ entityFields: metadataSnapshots.entityFields })
+    .from(metadataSnapshots)
+    .orderBy(desc(metadataSnapshots.fetchedAt))
+    .limit(1);
+
+  if (!latest) return null;
+  return (latest.entityFields as EntityFields).Property ?? {};
+}
+
+/**
+ * Extract EntityType → Property name/type pairs from an EDMX document.
+ * The MLS Grid EDMX is flat and machine-generated, so a regex pass is enough —
+ * NavigationProperty and annotation elements are ignored.
+ */
+export function parseEdmx(xml: string): EntityFields {
+  const result: EntityFields = {};
+  const entityPattern = /<EntityType\b[^>]*\bName="([^"]+)"[^>]*>([\s\S]*?)<\/EntityType>/g;
+  const propertyPattern = /<Property\b([^>]*?)\/?>/g;
+
+  for (const [, entityName, body] of xml.matchAll(entityPattern)) {
+    const fields: Record<string, string> = {};
+    for (const [, attrs] of body.matchAll(propertyPattern)) {
+      const name = attrs.match(/\bName="([^"]+)"/)?.[1];
+      const type = attrs.match(/\bType="([^"]+)"/)?.[1];
+      if (name) fields[name] = type ?? 'unknown';
+    }
+    result[entityName] = fields;
+  }
+
+  return result;
+}
+
+/**
+ * Compare two parsed EDMX documents. Entity types with no changes are omitted.
+ */
+export function diffEntityFields(
+  previous: EntityFields,
+  next: EntityFields,
+): Record<string, EntityFieldsDiff> {
+  const diff: Record<string, EntityFieldsDiff> = {};
+  const entityNames = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  for (const entity of entityNames) {
+    const before = previous[entity] ?? {};
+    const after = next[entity] ?? {};
+    const added = Object.keys(after).filter((f) => !(f in before)).sort();
+    const removed = Object.keys(before).filter((f) => !(f in after)).sort();
+    const typeChanged = Object.keys(after)
+      .filter((f) => f in before && before[f] !== after[f])
+      .sort()
+      .map((field) => ({ field, from: before[field], to: after[field] }));
+
+    if (added.length > 0 || removed.length > 0 || typeChanged.length > 0) {
+      diff[entity] = { added, removed, typeChanged };
+    }
+  }
+
+  return diff;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function fetchMetadataDocument(): Promise<string> {
+  const env = getEnv();
+  const logger = getLogger();
+  const url = `${env.MLSGRID_API_BASE_URL}/$metadata`;
+
+  await getRateLimiter().waitForApiSlot();
+
+  const startTime = Date.now();
+  let httpStatus = 0;
+  let responseBytes = 0;
+  let errorMessage: string | null = null;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${env.MLSGRID_API_TOKEN}`,
+        'Accept-Encoding': 'gzip',
+      },
+    });
+    httpStatus = response.status;
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new MlsGridApiError(
+        `MLS Grid $metadata error: ${response.status} ${response.statusText}`,
+        response.status,
+        body,
+      );
+    }
+
+    responseBytes = Buffer.byteLength(body);
+    return body;
+  } catch (err) {
+    errorMessage = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    // Logged like any other API request so it counts towards the restored rate limiter history
+    try {
+      await getDb().insert(replicationRequests).values({
+        runId: 0,
+        requestUrl: url,
+        httpStatus: httpStatus || null,
+        responseTimeMs: Date.now() - startTime,
+        responseBytes: responseBytes || null,
+        recordsReturned: null,
+        requestedAt: new Date(),
+        errorMessage,
+      });
+    } catch (logErr) {
+      logger.warn({ err: logErr }, 'Failed to log $metadata request');
+    }
+  }
+}
+
+async function refreshDriftMetadataFlags(propertyFields: Record<string, string>): Promise<void> {
+  const db = getDb();
+  const driftRows = await db
+    .select({ id: schemaDriftFields.id, fieldName: schemaDriftFields.fieldName })
+    .from(schemaDriftFields)
+    .where(eq(schemaDriftFields.resourceType, 'Property'));
+
+  for (const row of driftRows) {
+    await db
+      .update(schemaDriftFields)
+      .set({
+        inMetadata: row.fieldName in propertyFields,
+        edmType: propertyFields[row.fieldName] ?? null,
+      })
+      .where(eq(schemaDriftFields.id, row.id));
+  }
+}
@@ -0,0 +1,232 @@
+import { and, asc, eq, inArray, lt, sql, type SQL } from 'drizzle-orm';
+import { getDb, type DbExecutor } from '../db/connection.js';
+import { chunkRows } from '../db/batch.js';
+import { changeEvents, type NewChangeEvent } from '../db/schema/change-events.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+
+export const CHANGE_EVENT_TYPES = [
+  'created',
+  'updated',
+  'price_changed',
+  'status_changed',
+  'photos_changed',
+  'hidden',
+  'deleted',
+] as const;
+export type ChangeEventType = (typeof CHANGE_EVENT_TYPES)[number];
+
+export type FieldChanges = Record<string, { old: unknown; new: unknown }>;
+
+interface EventSubject {
+  resourceType: 'Property' | 'Member' | 'Office' | 'OpenHouse';
+  resourceKey: string;
+  originatingSystem: string;
+  modificationTs: Date | null;
+}
+
+// Bookkeeping columns that change on every write and aren't worth an event
+const IGNORED_COLUMNS = new Set(['createdAt', 'updatedAt']);
+
+/**
+ * Events for an insert or update of one record. A new record yields `created`;
+ * an existing one yields `updated` listing every changed column, plus one
+ * specific event per changed column in `derived` (e.g. listPrice →
+ * price_changed). Nothing is emitted when no column changed.
+ */
+export function buildUpsertEvents(
+  subject: EventSubject,
+  existing: Record<string, unknown> | null,
+  incoming: Record<string, unknown>,
+  options: { ignore?: string[]; derived?: Record<string, ChangeEventType> } = {},
+): NewChangeEvent[] {
+  if (!existing) {
+    return [toRow(subject, 'created', null, null)];
+  }
+
+  const changes = diffColumns(existing, incoming, options.ignore ?? []);
+  const changedFields = Object.keys(changes);
+  if (changedFields.length === 0) return [];
+
+  const events = [toRow(subject, 'updated', changedFields, { changes })];
+  for (const [column, eventType] of Object.entries(options.derived ?? {})) {
+    if (changes[column]) {
+      events.push(toRow(subject, eventType, null, changes[column]));
+    }
+  }
+  return events;
+}
+
+/** A record became MlgCanView=false (kept locally, hidden from consumers). */
+export function buildHiddenEvent(subject: EventSubject): NewChangeEvent {
+  return toRow(subject, 'hidden', null, null);
+}
+
+/** A record was removed from the database. */
+export function buildDeletedEvent(subject: EventSubject): NewChangeEvent {
+  return toRow(subject, 'deleted', null, null);
+}
+
+/**
+ * Insert events with the caller's executor — pass the transaction that makes
+ * the data change so events and data commit (or roll back) together.
+ */
+export async function writeChangeEvents(db: DbExecutor, events: NewChangeEvent[]): Promise<void> {
+  for (const chunk of chunkRows(events)) {
+    await db.insert(changeEvents).values(chunk);
+  }
+}
+
+export interface ChangeEventPage {
+  events: Array<{
+    id: number;
+    cursor: string;
+    eventType: string;
+    resourceType: string;
+    resourceKey: string;
+    originatingSystem: string;
+    changedFields: string[] | null;
+    payload: unknown;
+    modificationTs: Date | null;
+    createdAt: Date;
+  }>;
+  /** Pass back as `cursor` to continue after the last returned event. */
+  nextCursor: string;
+}
+
+export class ChangeCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChangeCursorError';
+  }
+}
+
+/**
+ * Read events after `cursor` in commit-safe order.
+ *
+ * Ids are assigned at insert time, so a transaction can commit an event with a
+ * lower id after a reader has already moved past it. Events are therefore
+ * ordered by (writing transaction id, id) and only returned once every
+ * transaction older than theirs has finished (txid below the snapshot xmin).
+ * No event can later appear behind a returned cursor, so consumers can simply
+ * resume from the last cursor they stored.
+ */
+export async function readChangeEvents(options: {
+  cursor?: string;
+  limit?: number;
+  resourceType?: string;
+  eventTypes?: ChangeEventType[];
+}): Promise<ChangeEventPage> {
+  const [txid, id] = parseCursor(options.cursor);
+
+  const conditions: SQL[] = [
+    sql`(${changeEvents.txid}, ${changeEvents.id}) > (${txid}::xid8, ${id})`,
+    sql`${changeEvents.txid} < pg_snapshot_xmin(pg_current_snapshot())`,
+  ];
+  if (options.resourceType) conditions.push(eq(changeEvents.resourceType, options.resourceType));
+  if (options.eventTypes?.length) conditions.push(inArray(changeEvents.eventType, options.eventTypes));
+
+  const rows = await getDb()
+    .select()
+    .from(changeEvents)
+    .where(and(...conditions))
+    .orderBy(asc(changeEvents.txid), asc(changeEvents.id))
+    .limit(options.limit ?? 500);
+
+  const events = rows.map((row) => ({
+    id: row.id,
+    cursor: `${row.txid}-${row.id}`,
+    eventType: row.eventType,
+    resourceType: row.resourceType,
+    resourceKey: row.resourceKey,
+    originatingSystem: row.originatingSystem,
+    changedFields: row.changedFields,
+    payload: row.payload,
+    modificationTs: row.modificationTs,
+    createdAt: row.createdAt,
+  }));
+
+  return {
+    events,
+    nextCursor: events.at(-1)?.cursor ?? `${txid}-${id}`,
+  };
+}
+
+/**
+ * Delete events older than CHANGE_EVENTS_RETENTION_DAYS. Consumers that fall
+ * further behind than that must re-sync from the tables.
+ */
+export async function pruneChangeEvents(): Promise<number> {
+  const cutoff = new Date(Date.now() - getEnv().CHANGE_EVENTS_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await getDb()
+    .delete(changeEvents)
+    .where(lt(changeEvents.createdAt, cutoff))
+    .returning({ id: changeEvents.id });
+
+  if (deleted.length > 0) {
+    getLogger().info({ count: deleted.length, cutoff: cutoff.toISOString() }, 'Pruned old change events');
+  }
+  return deleted.length;
+}
+
+function parseCursor(cursor: string | undefined): [string, number] {
+  if (!cursor) return ['0', 0];
+  const match = /^(\d+)-(\d+)$/.exec(cursor);
+  if (!match) {
+    throw new ChangeCursorError(`Invalid cursor '${cursor}' — expected the nextCursor of a previous page`);
+  }
+  return [match[1], Number(match[2])];
+}
+
+function toRow(
+  subject: EventSubject,
+  eventType: ChangeEventType,
+  changedFields: string[] | null,
+  payload: unknown,
+): NewChangeEvent {
+  return {
+    eventType,
+    resourceType: subject.resourceType,
+    resourceKey: subject.resourceKey,
+    originatingSystem: subject.originatingSystem,
+    changedFields,
+    payload,
+    modificationTs: subject.modificationTs,
+  };
+}
+
+/**
+ * Columns of `incoming` whose value differs from `existing`. Values are
+ * compared in a normalized form so a round trip through Postgres (numbers vs
+ * numeric strings, Date objects, jsonb key order) doesn't count as a change.
+ */
+function diffColumns(existing: Record<string, unknown>, incoming: Record<string, unknown>, ignore: string[]): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const [column, value] of Object.entries(incoming)) {
+    if (value === undefined || IGNORED_COLUMNS.has(column) || ignore.includes(column)) continue;
+    const before = normalize(existing[column]);
+    const after = normalize(value);
+    if (stableStringify(before) !== stableStringify(after)) {
+      changes[column] = { old: before, new: after };
+    }
+  }
+  return changes;
+}
+
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return String(value);
+  return value;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
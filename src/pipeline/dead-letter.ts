@@ -0,0 +1,371 @@
+import { createHash } from 'node:crypto';
+import { and, asc, desc, eq, inArray, lte, type SQL } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { properties } from '../db/schema/properties.js';
+import { members } from '../db/schema/members.js';
+import { offices } from '../db/schema/offices.js';
+import { openHouses } from '../db/schema/open-houses.js';
+import { lookups } from '../db/schema/lookups.js';
+import { deadLetterRecords, type DeadLetterRecord } from '../db/schema/monitoring.js';
+import type { ResourceType } from '../api/mlsgrid-client.js';
+import { processRecord, getRecordKey } from './replication-cycle.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+
+export const DEAD_LETTER_STATUSES = ['pending', 'resolved', 'superseded', 'exhausted', 'discarded'] as const;
+export type DeadLetterStatus = (typeof DEAD_LETTER_STATUSES)[number];
+
+// Entries in these states can still be retried or discarded
+const OPEN_STATUSES: DeadLetterStatus[] = ['pending', 'exhausted'];
+
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+// Entries retried per (system, resource) pass, so a large backlog can't stall the loop
+const RETRY_BATCH_LIMIT = 100;
+
+export interface DeadLetterRetryOutcome {
+  id: number;
+  recordKey: string;
+  status: DeadLetterStatus;
+  attempts: number;
+  error?: string;
+}
+
+export class DeadLetterActionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'invalid_status',
+  ) {
+    super(message);
+    this.name = 'DeadLetterActionError';
+  }
+}
+
+/**
+ * Persist records that failed processing so they aren't lost once the HWM
+ * moves past them. A key has at most one entry: a new failure for the same key
+ * replaces the stored payload, and only counts as another attempt when it is
+ * the same version (ModificationTimestamp) failing again. A record without a
+ * key is stored under one derived from its payload (see unkeyedRecordKey).
+ */
+export async function recordDeadLetters(
+  resource: ResourceType,
+  originatingSystem: string,
+  runId: number,
+  failures: Array<{ record: Record<string, unknown>; error: unknown }>,
+): Promise<void> {
+  const db = getDb();
+  const logger = getLogger();
+  const now = new Date();
+
+  for (const { record, error } of failures) {
+    const recordKey = getRecordKey(resource, record) ?? unkeyedRecordKey(record);
+
+    const modTs = record.ModificationTimestamp ? new Date(record.ModificationTimestamp as string) : null;
+    const [existing] = await db
+      .select()
+      .from(deadLetterRecords)
+      .where(
+        and(
+          eq(deadLetterRecords.resourceType, resource),
+          eq(deadLetterRecords.originatingSystem, originatingSystem),
+          eq(deadLetterRecords.recordKey, recordKey),
+        ),
+      );
+
+    const sameVersion =
+      existing !== undefined &&
+      OPEN_STATUSES.includes(existing.status as DeadLetterStatus) &&
+      existing.modificationTs?.getTime() === modTs?.getTime();
+    const attempts = sameVersion ? existing.attempts + 1 : 1;
+
+    const values = {
+      modificationTs: modTs,
+      rawData: record,
+      status: 'pending',
+      attempts,
+      errorMessage: errorMessage(error),
+      errorStack: error instanceof Error ? (error.stack ?? null) : null,
+      replicationRunId: runId,
+      firstFailedAt: sameVersion ? existing.firstFailedAt : now,
+      lastFailedAt: now,
+      nextRetryAt: nextRetryAt(attempts, now),
+      resolvedAt: null,
+    };
+
+    if (existing) {
+      await db.update(deadLetterRecords).set(values).where(eq(deadLetterRecords.id, existing.id));
+    } else {
+      await db.insert(deadLetterRecords).values({ resourceType: resource, originatingSystem, recordKey, ...values });
+    }
+
+    logger.warn({ resource, originatingSystem, recordKey, attempts, runId }, 'Record dead-lettered');
+  }
+}
+
+/**
+ * Close open entries whose record has since been written successfully with a
+ * version at least as new as the failed payload. Called after each committed
+ * page; returns the number of entries marked superseded.
+ */
+export async function resolveSupersededDeadLetters(
+  resource: ResourceType,
+  originatingSystem: string,
+  committed: Record<string, unknown>[],
+): Promise<number> {
+  const committedTs = new Map<string, number>();
+  for (const record of committed) {
+    const key = getRecordKey(resource, record);
+    if (!key) continue;
+    const ts = record.ModificationTimestamp ? new Date(record.ModificationTimestamp as string).getTime() : 0;
+    committedTs.set(key, Math.max(ts, committedTs.get(key) ?? 0));
+  }
+  if (committedTs.size === 0) return 0;
+
+  const db = getDb();
+  const open = await db
+    .select({ id: deadLetterRecords.id, recordKey: deadLetterRecords.recordKey, modificationTs: deadLetterRecords.modificationTs })
+    .from(deadLetterRecords)
+    .where(
+      and(
+        eq(deadLetterRecords.resourceType, resource),
+        eq(deadLetterRecords.originatingSystem, originatingSystem),
+        inArray(deadLetterRecords.status, OPEN_STATUSES),
+        inArray(deadLetterRecords.recordKey, [...committedTs.keys()]),
+      ),
+    );
+
+  const superseded = open.filter((e) => (e.modificationTs?.getTime() ?? 0) <= committedTs.get(e.recordKey)!);
+  if (superseded.length > 0) {
+    await db
+      .update(deadLetterRecords)
+      .set({ status: 'superseded', resolvedAt: new Date(), nextRetryAt: null })
+      .where(inArray(deadLetterRecords.id, superseded.map((e) => e.id)));
+    getLogger().info(
+      { resource, originatingSystem, keys: superseded.map((e) => e.recordKey) },
+      'Dead-lettered records superseded by newer data',
+    );
+  }
+  return superseded.length;
+}
+
+/**
+ * Retry pending entries for a (system, resource) pair whose backoff has
+ * elapsed. Must not run concurrently with that pair's replication cycle, so an
+ * older payload can't overwrite a newer one being written at the same time.
+ */
+export async function retryDueDeadLetters(
+  resource: ResourceType,
+  originatingSystem: string,
+): Promise<DeadLetterRetryOutcome[]> {
+  const db = getDb();
+  const due = await db
+    .select()
+    .from(deadLetterRecords)
+    .where(
+      and(
+        eq(deadLetterRecords.resourceType, resource),
+        eq(deadLetterRecords.originatingSystem, originatingSystem),
+        eq(deadLetterRecords.status, 'pending'),
+        lte(deadLetterRecords.nextRetryAt, new Date()),
+      ),
+    )
+    .orderBy(asc(deadLetterRecords.nextRetryAt), asc(deadLetterRecords.id))
+    .limit(RETRY_BATCH_LIMIT);
+
+  const outcomes: DeadLetterRetryOutcome[] = [];
+  for (const entry of due) {
+    outcomes.push(await retryEntry(entry));
+  }
+
+  if (outcomes.length > 0) {
+    getLogger().info(
+      {
+        resource,
+        originatingSystem,
+        retried: outcomes.length,
+        resolved: outcomes.filter((o) => o.status === 'resolved').length,
+        superseded: outcomes.filter((o) => o.status === 'superseded').length,
+        exhausted: outcomes.filter((o) => o.status === 'exhausted').length,
+      },
+      'Dead-letter retry pass complete',
+    );
+  }
+  return outcomes;
+}
+
+export interface DeadLetterActionOptions {
+  /**
+   * Runs the action, e.g. in the scheduler's loop slot for the entry's
+   * (system, resource) so it never overlaps that pair's cycle. Called directly by default.
+   */
+  runExclusive?: <T>(originatingSystem: string, resource: ResourceType, fn: () => Promise<T>) => Promise<T>;
+}
+
+/** Retry one entry now, ignoring its backoff. Exhausted entries get another attempt. */
+export async function retryDeadLetter(id: number, options: DeadLetterActionOptions = {}): Promise<DeadLetterRetryOutcome> {
+  return withOpenEntry(id, 'retried', options, retryEntry);
+}
+
+/** Stop retrying an entry. The payload is kept for inspection. */
+export async function discardDeadLetter(id: number, options: DeadLetterActionOptions = {}): Promise<DeadLetterRecord> {
+  return withOpenEntry(id, 'discarded', options, async (entry) => {
+    const [updated] = await getDb()
+      .update(deadLetterRecords)
+      .set({ status: 'discarded', resolvedAt: new Date(), nextRetryAt: null })
+      .where(eq(deadLetterRecords.id, id))
+      .returning();
+    getLogger().info({ id, recordKey: entry.recordKey, resource: entry.resourceType }, 'Dead-letter entry discarded');
+    return updated;
+  });
+}
+
+// Run `fn` on an open entry under options.runExclusive. The status is checked once
+// inside, since the loop may have settled the entry while we waited for the slot.
+async function withOpenEntry<T>(
+  id: number,
+  action: 'retried' | 'discarded',
+  options: DeadLetterActionOptions,
+  fn: (entry: DeadLetterRecord) => Promise<T>,
+): Promise<T> {
+  const found = await getDeadLetter(id);
+  if (!found) {
+    throw new DeadLetterActionError(`Dead-letter entry ${id} not found`, 'not_found');
+  }
+
+  const runExclusive = options.runExclusive ?? ((_system, _resource, run) => run());
+  return runExclusive(found.originatingSystem, found.resourceType as ResourceType, async () => {
+    const entry = (await getDeadLetter(id)) ?? found;
+    if (!OPEN_STATUSES.includes(entry.status as DeadLetterStatus)) {
+      throw new DeadLetterActionError(`Dead-letter entry ${id} is ${entry.status} and can't be ${action}`, 'invalid_status');
+    }
+    return fn(entry);
+  });
+}
+
+export async function getDeadLetter(id: number): Promise<DeadLetterRecord | null> {
+  const [entry] = await getDb().select().from(deadLetterRecords).where(eq(deadLetterRecords.id, id));
+  return entry ?? null;
+}
+
+/** List entries without their payloads, most recently failed first. */
+export async function listDeadLetters(filter: {
+  status?: DeadLetterStatus;
+  resource?: ResourceType;
+  limit?: number;
+} = {}) {
+  const conditions: SQL[] = [];
+  if (filter.status) conditions.push(eq(deadLetterRecords.status, filter.status));
+  if (filter.resource) conditions.push(eq(deadLetterRecords.resourceType, filter.resource));
+
+  return getDb()
+    .select({
+      id: deadLetterRecords.id,
+      resourceType: deadLetterRecords.resourceType,
+      originatingSystem: deadLetterRecords.originatingSystem,
+      recordKey: deadLetterRecords.recordKey,
+      modificationTs: deadLetterRecords.modificationTs,
+      status: deadLetterRecords.status,
+      attempts: deadLetterRecords.attempts,
+      errorMessage: deadLetterRecords.errorMessage,
+      replicationRunId: deadLetterRecords.replicationRunId,
+      firstFailedAt: deadLetterRecords.firstFailedAt,
+      lastFailedAt: deadLetterRecords.lastFailedAt,
+      nextRetryAt: deadLetterRecords.nextRetryAt,
+      resolvedAt: deadLetterRecords.resolvedAt,
+    })
+    .from(deadLetterRecords)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(deadLetterRecords.lastFailedAt), desc(deadLetterRecords.id))
+    .limit(filter.limit ?? 100);
+}
+
+/**
+ * Re-process a stored payload. Entries whose record has already been written
+ * with the same or a newer version are closed as superseded without touching
+ * the record.
+ */
+async function retryEntry(entry: DeadLetterRecord): Promise<DeadLetterRetryOutcome> {
+  const db = getDb();
+  const logger = getLogger();
+  const resource = entry.resourceType as ResourceType;
+  const now = new Date();
+
+  const localTs = await loadLocalModificationTs(resource, entry.recordKey);
+  if (localTs && entry.modificationTs && localTs >= entry.modificationTs) {
+    await db
+      .update(deadLetterRecords)
+      .set({ status: 'superseded', resolvedAt: now, nextRetryAt: null })
+      .where(eq(deadLetterRecords.id, entry.id));
+    return { id: entry.id, recordKey: entry.recordKey, status: 'superseded', attempts: entry.attempts };
+  }
+
+  try {
+    await processRecord(resource, entry.rawData as Record<string, unknown>, false, entry.replicationRunId ?? 0);
+    await db
+      .update(deadLetterRecords)
+      .set({ status: 'resolved', resolvedAt: new Date(), nextRetryAt: null })
+      .where(eq(deadLetterRecords.id, entry.id));
+    logger.info({ id: entry.id, resource, recordKey: entry.recordKey }, 'Dead-lettered record processed');
+    return { id: entry.id, recordKey: entry.recordKey, status: 'resolved', attempts: entry.attempts };
+  } catch (err) {
+    const attempts = entry.attempts + 1;
+    const status: DeadLetterStatus = attempts >= getEnv().DEAD_LETTER_MAX_ATTEMPTS ? 'exhausted' : 'pending';
+    await db
+      .update(deadLetterRecords)
+      .set({
+        status,
+        attempts,
+        errorMessage: errorMessage(err),
+        errorStack: err instanceof Error ? (err.stack ?? null) : null,
+        lastFailedAt: now,
+        nextRetryAt: status === 'pending' ? nextRetryAt(attempts, now) : null,
+      })
+      .where(eq(deadLetterRecords.id, entry.id));
+    logger.warn({ err, id: entry.id, resource, recordKey: entry.recordKey, attempts, status }, 'Dead-letter retry failed');
+    return { id: entry.id, recordKey: entry.recordKey, status, attempts, error: errorMessage(err) };
+  }
+}
+
+/**
+ * Stand-in key for a failed record with no key field, e.g. "unkeyed:3f2a…".
+ * The same payload failing again maps to the same entry; retries fail until
+ * the entry is exhausted or discarded, but the payload stays inspectable.
+ */
+function unkeyedRecordKey(record: Record<string, unknown>): string {
+  return `unkeyed:${createHash('sha256').update(JSON.stringify(record)).digest('hex').slice(0, 16)}`;
+}
+
+/** Backoff after `attempts` failures: base × 2^(attempts − 1), capped at 24h. */
+function nextRetryAt(attempts: number, from: Date): Date {
+  const delayMs = Math.min(getEnv().DEAD_LETTER_RETRY_BASE_SEC * 1000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return new Date(from.getTime() + delayMs);
+}
+
+async function loadLocalModificationTs(resource: ResourceType, recordKey: string): Promise<Date | null> {
+  const db = getDb();
+
+  let rows: Array<{ modificationTs: Date | null }>;
+  switch (resource) {
+    case 'Property':
+      rows = await db.select({ modificationTs: properties.modificationTs }).from(properties).where(eq(properties.listingKey, recordKey));
+      break;
+    case 'Member':
+      rows = await db.select({ modificationTs: members.modificationTs }).from(members).where(eq(members.memberKey, recordKey));
+      break;
+    case 'Office':
+      rows = await db.select({ modificationTs: offices.modificationTs }).from(offices).where(eq(offices.officeKey, recordKey));
+      break;
+    case 'OpenHouse':
+      rows = await db.select({ modificationTs: openHouses.modificationTs }).from(openHouses).where(eq(openHouses.openHouseKey, recordKey));
+      break;
+    case 'Lookup':
+      rows = await db.select({ modificationTs: lookups.modificationTs }).from(lookups).where(eq(lookups.lookupKey, recordKey));
+      break;
+  }
+  return rows[0]?.modificationTs ?? null;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,51 @@
+/**
+ * Tracks the high-water mark while records finish out of order.
+ *
+ * Records are added in the order the API returned them (ModificationTimestamp
+ * ascending) and settled as their processing finishes. The HWM only advances
+ * through the contiguous prefix of settled records, so a checkpoint never
+ * claims a timestamp while an earlier record is still in flight.
+ *
+ * A record that failed is settled once it has been written to the dead-letter
+ * queue, so one bad record can't pin the HWM but isn't lost either.
+ */
+export class HwmTracker<T extends object> {
+  // Insertion-ordered, so the first entries are always the unsettled prefix
+  private readonly pending = new Map<T, { timestamp: Date | null; settled: boolean }>();
+  private hwm: Date | null;
+
+  constructor(start: Date | null) {
+    this.hwm = start;
+  }
+
+  add(item: T, modificationTimestamp: string | undefined): void {
+    this.pending.set(item, {
+      timestamp: modificationTimestamp ? new Date(modificationTimestamp) : null,
+      settled: false,
+    });
+  }
+
+  settle(item: T): void {
+    const entry = this.pending.get(item);
+    if (!entry) return;
+    entry.settled = true;
+
+    for (const [head, headEntry] of this.pending) {
+      if (!headEntry.settled) break;
+      if (headEntry.timestamp && (!this.hwm || headEntry.timestamp > this.hwm)) {
+        this.hwm = headEntry.timestamp;
+      }
+      this.pending.delete(head);
+    }
+  }
+
+  /** Highest timestamp whose predecessors have all settled. */
+  get value(): Date | null {
+    return this.hwm;
+  }
+
+  /** Number of added records that haven't settled yet. */
+  get inFlight(): number {
+    return this.pending.size;
+  }
+}
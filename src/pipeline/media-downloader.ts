@@ -9,6 +9,7 @@ import { downloadMedia, fetchPage, MlsGridApiError } from '../api/mlsgrid-client
 import { uploadToR2, buildR2ObjectKey, buildPublicUrl } from '../storage/r2-client.js';
 import { getLogger } from '../lib/logger.js';
 import { getEnv } from '../config/env.js';
+import { withRequestPriority } from '../lib/rate-limiter.js';
 
 const MAX_RETRIES = 5; // Increased from 3 for 429 resilience
 const BACKOFF_BASE_MS = 2_000;
@@ -44,7 +45,8 @@ export class MediaDownloader {
     this.metrics.lastStatsLogAt = Date.now();
     const logger = getLogger();
     logger.info('Media download loop started');
-    this.loop();
+    // Replication downloads inline; this loop only picks up what it left behind
+    withRequestPriority('media_recovery', () => this.loop());
     this.statsLoop(); // Periodic stats logging
   }
 
@@ -209,14 +211,18 @@ export class MediaDownloader {
       // Property: filter by ListingId
       if (propertyKeys.length > 0) {
         const propRows = await db
-          .select({ listingKey: properties.listingKey, listingId: properties.listingId })
+          .select({
+            listingKey: properties.listingKey,
+            listingId: properties.listingId,
+            originatingSystem: properties.originatingSystem,
+          })
           .from(properties)
           .where(inArray(properties.listingKey, [...new Set(propertyKeys)]));
         for (const r of propRows) {
           if (r.listingId) {
             apiUrlMap.set(r.listingKey,
               `${env.MLSGRID_API_BASE_URL}/Property` +
-              `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${env.MLSGRID_ORIGINATING_SYSTEM}' and ListingId eq '${r.listingId}'`)}` +
+              `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${r.originatingSystem}' and ListingId eq '${r.listingId}'`)}` +
               `&$expand=Media&$top=1`,
             );
           }
@@ -226,14 +232,18 @@ export class MediaDownloader {
       // Member: filter by MemberMlsId
       if (memberKeys.length > 0) {
         const memberRows = await db
-          .select({ memberKey: members.memberKey, memberMlsId: members.memberMlsId })
+          .select({
+            memberKey: members.memberKey,
+            memberMlsId: members.memberMlsId,
+            originatingSystem: members.originatingSystem,
+          })
           .from(members)
           .where(inArray(members.memberKey, [...new Set(memberKeys)]));
         for (const r of memberRows) {
           if (r.memberMlsId) {
             apiUrlMap.set(r.memberKey,
               `${env.MLSGRID_API_BASE_URL}/Member` +
-              `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${env.MLSGRID_ORIGINATING_SYSTEM}' and MemberMlsId eq '${r.memberMlsId}'`)}` +
+              `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${r.originatingSystem}' and MemberMlsId eq '${r.memberMlsId}'`)}` +
               `&$expand=Media&$top=1`,
             );
           }
@@ -243,21 +253,25 @@ export class MediaDownloader {
       // Office: filter by OfficeMlsId
       if (officeKeys.length > 0) {
         const officeRows = await db
-          .select({ officeKey: offices.officeKey, officeMlsId: offices.officeMlsId })
+          .select({
+            officeKey: offices.officeKey,
+            officeMlsId: offices.officeMlsId,
+            originatingSystem: offices.originatingSystem,
+          })
           .from(offices)
           .where(inArray(offices.officeKey, [...new Set(officeKeys)]));
         for (const r of officeRows) {
           if (r.officeMlsId) {
             apiUrlMap.set(r.officeKey,
               `${env.MLSGRID_API_BASE_URL}/Office` +
-              `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${env.MLSGRID_ORIGINATING_SYSTEM}' and OfficeMlsId eq '${r.officeMlsId}'`)}` +
+              `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${r.originatingSystem}' and OfficeMlsId eq '${r.officeMlsId}'`)}` +
               `&$expand=Media&$top=1`,
             );
           }
         }
       }
 
-      // Fetch fresh records in small batches. The rate limiter mutex serializes
+      // Fetch fresh records in small batches. The rate limiter queue serializes
       // concurrent waitForApiSlot() calls, so 2 concurrent callers safely
       // alternate at ~2 RPS without race conditions.
       const BATCH_SIZE = 2;
@@ -284,7 +298,7 @@ export class MediaDownloader {
             let freshMediaMap: Map<string, string> | null = null;
             try {
               // fetchPage honours waitForApiSlot() internally
-              const page = await fetchPage(apiUrl, this.currentRunId ?? 0);
+              const page = await withRequestPriority('url_refresh', () => fetchPage(apiUrl, this.currentRunId ?? 0));
               if (page.value.length > 0) {
                 const record = page.value[0] as Record<string, unknown>;
                 const mediaArray = record.Media as Array<Record<string, unknown>> | undefined;
@@ -345,7 +359,7 @@ export class MediaDownloader {
 
     try {
       // downloadMedia() honours waitForMediaSlot() and recordMediaDownload() internally
-      const result = await downloadMedia(mediaUrl);
+      const result = await withRequestPriority('media_recovery', () => downloadMedia(mediaUrl));
       downloadTimeMs = Date.now() - downloadStart;
       fileSizeBytes = result.bytes;
 
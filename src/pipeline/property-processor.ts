@@ -1,11 +1,19 @@
-import { eq } from 'drizzle-orm';
-import { getDb } from '../db/connection.js';
-import { properties } from '../db/schema/properties.js';
+import { eq, inArray } from 'drizzle-orm';
+import { getDb, type Transaction } from '../db/connection.js';
+import { chunkRows, excludedSet } from '../db/batch.js';
+import { properties, type NewProperty } from '../db/schema/properties.js';
 import { media } from '../db/schema/media.js';
-import { rooms } from '../db/schema/rooms.js';
-import { unitTypes } from '../db/schema/unit-types.js';
-import { rawResponses } from '../db/schema/raw-responses.js';
-import { priceHistory, statusHistory, propertyChangeLog } from '../db/schema/history.js';
+import { rooms, type NewRoom } from '../db/schema/rooms.js';
+import { unitTypes, type NewUnitType } from '../db/schema/unit-types.js';
+import { rawResponses, type NewRawResponse } from '../db/schema/raw-responses.js';
+import {
+  priceHistory,
+  statusHistory,
+  propertyChangeLog,
+  type NewPriceHistoryRecord,
+  type NewStatusHistoryRecord,
+  type NewPropertyChangeLogRecord,
+} from '../db/schema/history.js';
 import {
   transformProperty,
   transformRooms,
@@ -19,10 +27,29 @@ import { downloadMedia, fetchPage, MlsGridApiError } from '../api/mlsgrid-client
 import { isMediaUrlExpired } from './media-downloader.js';
 import { getEnv } from '../config/env.js';
 import { getLogger } from '../lib/logger.js';
-import { notifyIfNeeded } from '../alerts/notify.js';
+import { withRequestPriority } from '../lib/rate-limiter.js';
+import type { AlertEvent } from '../alerts/notify.js';
+import { dispatchAlerts } from '../alerts/dispatch.js';
+import { classifyListingUpdate } from '../alerts/lifecycle.js';
+import { observePropertyFields } from '../metadata/drift-tracker.js';
+import { KeyedWorkerPool } from '../lib/worker-pool.js';
+import {
+  buildUpsertEvents,
+  buildHiddenEvent,
+  writeChangeEvents,
+  type ChangeEventType,
+} from './change-events.js';
+import type { NewChangeEvent } from '../db/schema/change-events.js';
 
 const MEDIA_MAX_RETRIES = 3;
 
+// Columns whose change gets its own outbox event besides 'updated'
+const PROPERTY_DERIVED_EVENTS: Record<string, ChangeEventType> = {
+  listPrice: 'price_changed',
+  standardStatus: 'status_changed',
+  photosChangeTs: 'photos_changed',
+};
+
 export interface ProcessingStats {
   inserted: number;
   updated: number;
@@ -33,163 +60,394 @@ export interface ProcessingStats {
 export interface ProcessRecordOptions {
   isInitialImport: boolean;
   runId: number;
+  /** Reconcile media even when PhotosChangeTimestamp is unchanged (targeted re-syncs). */
+  forceMediaSync?: boolean;
+}
+
+export interface PageProcessingResult {
+  stats: ProcessingStats;
+  /** Records whose writes were committed — only these may advance the HWM. */
+  committed: MlsGridPropertyRecord[];
+  /** Records that couldn't be written, for the caller to dead-letter. */
+  failed: Array<{ record: MlsGridPropertyRecord; error: unknown }>;
+}
+
+/** Work deferred until the page transaction has committed. */
+interface CommittedBatch {
+  stats: ProcessingStats;
+  followUps: Map<string, FollowUp>;
+}
+
+/** Per-listing post-commit work: media reconciliation and alert evaluation. */
+interface FollowUp {
+  media: {
+    listingId: string | null;
+    originatingSystem: string;
+    records: MlsGridMediaRecord[];
+    existing: typeof properties.$inferSelect | null;
+  } | null;
+  alerts: AlertEvent[];
 }
 
 /**
- * Process a single property record from MLS Grid.
- * Implements the full per-record pipeline from the Phase 1 spec.
+ * Process one API page of property records.
+ *
+ * All non-media writes for the page (properties, raw_responses, rooms,
+ * unit_types and history) are committed in one transaction using multi-row
+ * statements, so a crash can't leave a listing half-written. Media downloads
+ * and alert evaluation run after the commit. If the page transaction fails,
+ * each record is retried in its own transaction so one bad record can't block
+ * the rest of the page.
+ *
+ * Per-record work (individual retries, media, alerts) runs on a worker pool of
+ * WORKER_RECORD_CONCURRENCY, serialized per ListingKey, so one listing with
+ * dozens of photos doesn't hold up the rest of the page. `onSettled` is called
+ * for every input record once it is fully processed or skipped; failed records
+ * are returned in `failed` instead.
  */
-export async function processPropertyRecord(
-  raw: MlsGridPropertyRecord,
+export async function processPropertyPage(
+  records: MlsGridPropertyRecord[],
   options: ProcessRecordOptions,
-): Promise<ProcessingStats> {
-  const db = getDb();
+  onSettled?: (record: MlsGridPropertyRecord) => void,
+): Promise<PageProcessingResult> {
   const logger = getLogger();
-  const stats: ProcessingStats = { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 };
+  const settle = (record: MlsGridPropertyRecord) => onSettled?.(record);
+  const result: PageProcessingResult = {
+    stats: { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 },
+    committed: [],
+    failed: [],
+  };
 
-  const listingKey = raw.ListingKey;
-  if (!listingKey) {
-    logger.warn({ raw: JSON.stringify(raw).substring(0, 200) }, 'Skipping record with no ListingKey');
-    return stats;
+  // A listing can appear twice in one page if it changed while we paginated;
+  // keep the newest version, since one upsert can't touch the same row twice.
+  const byKey = new Map<string, MlsGridPropertyRecord>();
+  for (const raw of records) {
+    if (!raw.ListingKey) {
+      // Can't be written, but is dead-lettered under a key derived from its payload
+      logger.warn({ raw: JSON.stringify(raw).substring(0, 200) }, 'Record has no ListingKey');
+      result.failed.push({ record: raw, error: new Error('Record has no ListingKey') });
+      continue;
+    }
+    const seen = byKey.get(raw.ListingKey);
+    if (!seen || (raw.ModificationTimestamp ?? '') >= (seen.ModificationTimestamp ?? '')) {
+      byKey.set(raw.ListingKey, raw);
+      if (seen) settle(seen);
+    } else {
+      settle(raw);
+    }
+    // Note any fields the mapper doesn't know about
+    if (raw.MlgCanView !== false) observePropertyFields(raw);
   }
+  const unique = [...byKey.values()];
+  if (unique.length === 0) return result;
+
+  const addStats = (stats: ProcessingStats) => {
+    result.stats.inserted += stats.inserted;
+    result.stats.updated += stats.updated;
+    result.stats.deleted += stats.deleted;
+    result.stats.mediaQueued += stats.mediaQueued;
+  };
 
-  // Step 1: CHECK MlgCanView
-  if (raw.MlgCanView === false) {
-    await handleSoftDelete(listingKey, raw, options);
-    stats.deleted = 1;
-    return stats;
+  const fail = (raw: MlsGridPropertyRecord, error: unknown) => {
+    logger.error({ err: error, listingKey: raw.ListingKey }, 'Error processing property record — continuing');
+    result.failed.push({ record: raw, error });
+  };
+
+  const pool = new KeyedWorkerPool(getEnv().WORKER_RECORD_CONCURRENCY);
+
+  // Media (URLs expire ~11h, so still within this cycle) and alerts, after commit
+  const runFollowUp = async (raw: MlsGridPropertyRecord, followUp: FollowUp | undefined) => {
+    const listingKey = raw.ListingKey!;
+    if (followUp?.media) {
+      try {
+        const mediaResult = await downloadMediaInline(
+          listingKey,
+          followUp.media.listingId,
+          followUp.media.originatingSystem,
+          'Property',
+          followUp.media.records,
+          followUp.media.existing,
+        );
+        result.stats.mediaQueued += mediaResult.downloaded + mediaResult.failed;
+      } catch (err) {
+        logger.error({ err, listingKey }, 'Media processing failed for listing — continuing');
+      }
+    }
+    await dispatchAlerts(followUp?.alerts ?? []);
+    settle(raw);
+  };
+
+  let pageBatch: CommittedBatch | null = null;
+  try {
+    pageBatch = await commitPropertyBatch(unique, options);
+  } catch (err) {
+    if (unique.length > 1) {
+      logger.warn({ err, records: unique.length }, 'Page transaction failed — retrying records individually');
+    } else {
+      fail(unique[0], err);
+      return result;
+    }
   }
 
-  // Step 2: LOAD existing record
-  const existing = await db
-    .select()
-    .from(properties)
-    .where(eq(properties.listingKey, listingKey))
-    .limit(1);
+  await Promise.all(
+    unique.map((raw) =>
+      pool.run(raw.ListingKey!, async () => {
+        let batch = pageBatch;
+        if (!batch) {
+          try {
+            batch = await commitPropertyBatch([raw], options);
+            addStats(batch.stats);
+          } catch (err) {
+            fail(raw, err);
+            return;
+          }
+        }
+        result.committed.push(raw);
+        await runFollowUp(raw, batch.followUps.get(raw.ListingKey!));
+      }),
+    ),
+  );
+  if (pageBatch) addStats(pageBatch.stats);
 
-  const isNew = existing.length === 0;
-  const existingRecord = existing[0] ?? null;
+  // Keep committed records in page order for callers that track the HWM
+  const committed = new Set(result.committed);
+  result.committed = unique.filter((raw) => committed.has(raw));
 
-  // Step 3: DIFF against existing (update path only, skip during initial import)
-  if (!isNew && !options.isInitialImport && existingRecord) {
-    await recordDiffs(listingKey, existingRecord, raw);
+  return result;
+}
+
+/**
+ * Process a single property record — a one-record page. Throws if the record
+ * couldn't be written, so callers can apply their own error handling.
+ */
+export async function processPropertyRecord(
+  raw: MlsGridPropertyRecord,
+  options: ProcessRecordOptions,
+): Promise<ProcessingStats> {
+  const result = await processPropertyPage([raw], options);
+  if (result.failed.length > 0) {
+    throw result.failed[0].error;
   }
+  return result.stats;
+}
 
-  // Step 4: TRANSFORM data
-  const transformed = transformProperty(raw);
-  const rawData = stripExpandedResources(raw as Record<string, unknown>);
-  const roomRows = transformRooms(listingKey, raw.Rooms);
-  const unitTypeRows = transformUnitTypes(listingKey, raw.UnitTypes);
-
-  // Step 5: UPSERT property + rooms + unit_types + raw_response
-  // Property must be upserted BEFORE media (FK constraint)
-
-  // Delete existing rooms/unit_types and re-insert (replace strategy)
-  await db.delete(rooms).where(eq(rooms.listingKey, listingKey));
-  await db.delete(unitTypes).where(eq(unitTypes.listingKey, listingKey));
-
-  // Upsert property
-  await db
-    .insert(properties)
-    .values(transformed)
-    .onConflictDoUpdate({
-      target: properties.listingKey,
-      set: {
-        ...transformed,
-        createdAt: undefined, // Don't overwrite created_at on update
-      },
-    });
+/**
+ * Write a batch of (unique) property records in one transaction:
+ *
+ * 1. LOAD the existing rows for every key in one query
+ * 2. MlgCanView=false records: mark hidden, keep media (no deletedAt)
+ * 3. DIFF the rest against existing rows (update path only, not during initial import)
+ * 4. TRANSFORM the rest
+ * 5. UPSERT properties + raw_responses, replace rooms/unit_types
+ * 6. INSERT history rows
+ * 7. INSERT change events (outbox) describing the changes
+ *
+ * Returns the stats plus the media and alert work to run once committed.
+ */
+async function commitPropertyBatch(
+  records: MlsGridPropertyRecord[],
+  options: ProcessRecordOptions,
+): Promise<CommittedBatch> {
+  const db = getDb();
+  const logger = getLogger();
 
-  // Upsert raw_response
-  await db
-    .insert(rawResponses)
-    .values({
-      listingKey,
-      rawData,
-      originatingSystem: transformed.originatingSystem,
-      receivedAt: new Date(),
-    })
-    .onConflictDoUpdate({
-      target: rawResponses.listingKey,
-      set: {
-        rawData,
+  return db.transaction(async (tx) => {
+    const batch: CommittedBatch = {
+      stats: { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 },
+      followUps: new Map(),
+    };
+
+    // Step 1: LOAD existing records
+    const keys = records.map((r) => r.ListingKey!);
+    const existingRows = await tx.select().from(properties).where(inArray(properties.listingKey, keys));
+    const existingByKey = new Map(existingRows.map((row) => [row.listingKey, row]));
+
+    const propertyRows: NewProperty[] = [];
+    const rawRows: NewRawResponse[] = [];
+    const roomRows: NewRoom[] = [];
+    const unitTypeRows: NewUnitType[] = [];
+    const priceRows: NewPriceHistoryRecord[] = [];
+    const statusRows: NewStatusHistoryRecord[] = [];
+    const changeLogRows: NewPropertyChangeLogRecord[] = [];
+    const eventRows: NewChangeEvent[] = [];
+
+    for (const raw of records) {
+      const listingKey = raw.ListingKey!;
+      const existingRecord = existingByKey.get(listingKey) ?? null;
+      const followUp: FollowUp = { media: null, alerts: [] };
+      batch.followUps.set(listingKey, followUp);
+
+      // Step 2: CHECK MlgCanView
+      if (raw.MlgCanView === false) {
+        await applySoftDelete(tx, raw, existingRecord, options, statusRows, eventRows, followUp.alerts);
+        batch.stats.deleted++;
+        continue;
+      }
+
+      const isNew = existingRecord === null;
+
+      // Step 3: DIFF against existing (update path only, skip during initial import)
+      if (existingRecord && !options.isInitialImport) {
+        collectDiffs(listingKey, existingRecord, raw, priceRows, statusRows, changeLogRows);
+      }
+
+      // Step 4: TRANSFORM
+      const transformed = transformProperty(raw);
+      propertyRows.push(transformed);
+      eventRows.push(
+        ...buildUpsertEvents(
+          {
+            resourceType: 'Property',
+            resourceKey: listingKey,
+            originatingSystem: transformed.originatingSystem,
+            modificationTs: transformed.modificationTs ?? null,
+          },
+          existingRecord,
+          transformed,
+          { ignore: ['geog'], derived: PROPERTY_DERIVED_EVENTS },
+        ),
+      );
+      rawRows.push({
+        listingKey,
+        rawData: stripExpandedResources(raw as Record<string, unknown>),
+        originatingSystem: transformed.originatingSystem,
         receivedAt: new Date(),
-      },
-    });
+      });
+      roomRows.push(...transformRooms(listingKey, raw.Rooms));
+      unitTypeRows.push(...transformUnitTypes(listingKey, raw.UnitTypes));
+
+      // Media is downloaded after commit (FK needs the property row first)
+      const photosChanged =
+        isNew ||
+        options.forceMediaSync ||
+        (raw.PhotosChangeTimestamp &&
+          existingRecord.photosChangeTs?.toISOString() !== new Date(raw.PhotosChangeTimestamp).toISOString());
+      if (photosChanged && raw.Media && raw.Media.length > 0) {
+        followUp.media = {
+          listingId: raw.ListingId ?? null,
+          originatingSystem: transformed.originatingSystem,
+          records: raw.Media,
+          existing: existingRecord,
+        };
+      }
 
-  // Insert rooms
-  if (roomRows.length > 0) {
-    await db.insert(rooms).values(roomRows);
-  }
+      if (isNew) {
+        batch.stats.inserted++;
+      } else {
+        batch.stats.updated++;
+      }
 
-  // Insert unit types
-  if (unitTypeRows.length > 0) {
-    await db.insert(unitTypes).values(unitTypeRows);
-  }
+      // Alerts and webhooks are evaluated after commit
+      if (!options.isInitialImport) {
+        if (isNew) {
+          followUp.alerts.push({
+            type: 'new_listing',
+            listingKey,
+            oldValue: null,
+            newValue: transformed.standardStatus ?? null,
+          });
+        } else {
+          followUp.alerts.push({
+            type: 'property_updated',
+            listingKey,
+            oldValue: existingRecord.listPrice?.toString() ?? null,
+            newValue: raw.ListPrice?.toString() ?? null,
+          });
+          followUp.alerts.push(
+            ...classifyListingUpdate(listingKey, existingRecord, {
+              standardStatus: transformed.standardStatus ?? null,
+              listPrice: transformed.listPrice ?? null,
+              photosCount: transformed.photosCount ?? null,
+            }),
+          );
+        }
+      }
+    }
 
-  // Step 6: DOWNLOAD MEDIA INLINE (URLs expire ~11h, must download immediately)
-  const mediaRecords = raw.Media;
-  const photosChanged =
-    isNew ||
-    (existingRecord &&
-      raw.PhotosChangeTimestamp &&
-      existingRecord.photosChangeTs?.toISOString() !== new Date(raw.PhotosChangeTimestamp).toISOString());
-
-  if (photosChanged && mediaRecords && mediaRecords.length > 0) {
-    const mediaResult = await downloadMediaInline(listingKey, raw.ListingId ?? null, 'Property', mediaRecords, existingRecord);
-    stats.mediaQueued = mediaResult.downloaded + mediaResult.failed;
-  }
+    // Step 5: UPSERT property + raw_response, replace rooms/unit_types (replace strategy)
+    if (propertyRows.length > 0) {
+      const upsertKeys = propertyRows.map((r) => r.listingKey);
+      await tx.delete(rooms).where(inArray(rooms.listingKey, upsertKeys));
+      await tx.delete(unitTypes).where(inArray(unitTypes.listingKey, upsertKeys));
 
-  if (isNew) {
-    stats.inserted = 1;
-  } else {
-    stats.updated = 1;
-  }
+      // Don't overwrite created_at on update
+      const propertySet = excludedSet(
+        properties,
+        Object.keys(propertyRows[0]).filter((k) => k !== 'listingKey' && k !== 'createdAt'),
+      );
+      for (const chunk of chunkRows(propertyRows)) {
+        await tx
+          .insert(properties)
+          .values(chunk)
+          .onConflictDoUpdate({ target: properties.listingKey, set: propertySet });
+      }
 
-  // Step 7: EVALUATE ALERTS (no-op in Phase 1)
-  if (!options.isInitialImport && !isNew) {
-    await notifyIfNeeded({
-      type: 'property_updated',
-      listingKey,
-      oldValue: existingRecord?.listPrice?.toString() ?? null,
-      newValue: raw.ListPrice?.toString() ?? null,
-    });
-  }
+      for (const chunk of chunkRows(rawRows)) {
+        await tx
+          .insert(rawResponses)
+          .values(chunk)
+          .onConflictDoUpdate({
+            target: rawResponses.listingKey,
+            set: excludedSet(rawResponses, ['rawData', 'receivedAt']),
+          });
+      }
 
-  return stats;
+      for (const chunk of chunkRows(roomRows)) {
+        await tx.insert(rooms).values(chunk);
+      }
+      for (const chunk of chunkRows(unitTypeRows)) {
+        await tx.insert(unitTypes).values(chunk);
+      }
+    }
+
+    // Step 6: HISTORY
+    for (const chunk of chunkRows(priceRows)) {
+      await tx.insert(priceHistory).values(chunk);
+    }
+    for (const chunk of chunkRows(statusRows)) {
+      await tx.insert(statusHistory).values(chunk);
+    }
+    for (const chunk of chunkRows(changeLogRows)) {
+      await tx.insert(propertyChangeLog).values(chunk);
+    }
+
+    // Step 7: OUTBOX — committed together with the changes it describes
+    await writeChangeEvents(tx, eventRows);
+
+    logger.debug(
+      { records: records.length, upserted: propertyRows.length, deleted: batch.stats.deleted, rooms: roomRows.length },
+      'Property batch committed',
+    );
+
+    return batch;
+  });
 }
 
 /**
  * Handle MlgCanView=false: update the flag but keep the property and its media.
+ * Status history, the hidden event and the delete alert are only produced for
+ * new transitions.
  */
-async function handleSoftDelete(
-  listingKey: string,
+async function applySoftDelete(
+  tx: Transaction,
   raw: MlsGridPropertyRecord,
+  existing: typeof properties.$inferSelect | null,
   options: ProcessRecordOptions,
+  statusRows: NewStatusHistoryRecord[],
+  eventRows: NewChangeEvent[],
+  alerts: AlertEvent[],
 ): Promise<void> {
-  const db = getDb();
-  const logger = getLogger();
-
-  // Check if record exists and whether it's already marked as not viewable
-  const existing = await db
-    .select({
-      listingKey: properties.listingKey,
-      standardStatus: properties.standardStatus,
-      mlgCanView: properties.mlgCanView,
-    })
-    .from(properties)
-    .where(eq(properties.listingKey, listingKey))
-    .limit(1);
+  const listingKey = raw.ListingKey!;
 
-  if (existing.length === 0) {
+  if (!existing) {
     // Record doesn't exist locally — nothing to update
     return;
   }
 
-  const alreadyHidden = existing[0].mlgCanView === false;
+  const alreadyHidden = existing.mlgCanView === false;
 
   // Mark property as no longer viewable (keep media and do NOT set deletedAt)
-  await db
+  await tx
     .update(properties)
     .set({
       mlgCanView: false,
@@ -198,39 +456,48 @@ async function handleSoftDelete(
     })
     .where(eq(properties.listingKey, listingKey));
 
-  // Log status change only if this is a new transition to MlgCanView=false
+  if (!alreadyHidden) {
+    eventRows.push(
+      buildHiddenEvent({
+        resourceType: 'Property',
+        resourceKey: listingKey,
+        originatingSystem: existing.originatingSystem,
+        modificationTs: new Date(raw.ModificationTimestamp!),
+      }),
+    );
+  }
+
+  // Log status change and notify only on a new transition to MlgCanView=false
   if (!options.isInitialImport && !alreadyHidden) {
-    await db.insert(statusHistory).values({
+    statusRows.push({
       listingKey,
-      oldStatus: existing[0].standardStatus,
+      oldStatus: existing.standardStatus,
       newStatus: 'Deleted/Removed',
       modificationTs: new Date(raw.ModificationTimestamp!),
     });
-  }
-
-  // Notify only on new transitions (no-op in Phase 1)
-  if (!options.isInitialImport && !alreadyHidden) {
-    await notifyIfNeeded({
+    alerts.push({
       type: 'property_deleted',
       listingKey,
-      oldValue: existing[0].standardStatus,
+      oldValue: existing.standardStatus,
       newValue: null,
     });
   }
 
-  logger.info({ listingKey, alreadyHidden }, 'Property marked MlgCanView=false (media retained)');
+  getLogger().info({ listingKey, alreadyHidden }, 'Property marked MlgCanView=false (media retained)');
 }
 
 /**
- * Record diffs between existing and incoming record.
- * Inserts into price_history, status_history, and property_change_log.
+ * Collect diffs between existing and incoming record into the
+ * price_history, status_history, and property_change_log row lists.
  */
-async function recordDiffs(
+function collectDiffs(
   listingKey: string,
   existing: typeof properties.$inferSelect,
   raw: MlsGridPropertyRecord,
-): Promise<void> {
-  const db = getDb();
+  priceRows: NewPriceHistoryRecord[],
+  statusRows: NewStatusHistoryRecord[],
+  changeLogRows: NewPropertyChangeLogRecord[],
+): void {
   const modTs = new Date(raw.ModificationTimestamp!);
 
   // Price change
@@ -242,7 +509,7 @@ async function recordDiffs(
         ? 'Price Increase'
         : 'Price Decrease';
 
-    await db.insert(priceHistory).values({
+    priceRows.push({
       listingKey,
       oldPrice,
       newPrice,
@@ -255,7 +522,7 @@ async function recordDiffs(
   const oldStatus = existing.standardStatus;
   const newStatus = raw.StandardStatus ?? null;
   if (oldStatus !== newStatus && newStatus !== null) {
-    await db.insert(statusHistory).values({
+    statusRows.push({
       listingKey,
       oldStatus,
       newStatus,
@@ -277,7 +544,7 @@ async function recordDiffs(
 
   for (const [fieldName, values] of Object.entries(fieldMap)) {
     if (values.old !== values.new && values.new !== null) {
-      await db.insert(propertyChangeLog).values({
+      changeLogRows.push({
         listingKey,
         fieldName,
         oldValue: values.old,
@@ -296,6 +563,7 @@ async function recordDiffs(
 async function downloadMediaInline(
   listingKey: string,
   listingId: string | null,
+  originatingSystem: string,
   resourceType: string,
   incomingMedia: MlsGridMediaRecord[],
   _existingRecord: typeof properties.$inferSelect | null,
@@ -353,9 +621,9 @@ async function downloadMediaInline(
     try {
       const apiUrl =
         `${env.MLSGRID_API_BASE_URL}/Property` +
-        `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${env.MLSGRID_ORIGINATING_SYSTEM}' and ListingId eq '${listingId}'`)}` +
+        `?$filter=${encodeURIComponent(`OriginatingSystemName eq '${originatingSystem}' and ListingId eq '${listingId}'`)}` +
         `&$expand=Media&$top=1`;
-      const page = await fetchPage(apiUrl, 0);
+      const page = await withRequestPriority('url_refresh', () => fetchPage(apiUrl, 0));
       if (page.value.length > 0) {
         const record = page.value[0] as Record<string, unknown>;
         const mediaArray = record.Media as Array<Record<string, unknown>> | undefined;
@@ -0,0 +1,384 @@
+import { and, asc, eq, lt, sql } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { properties } from '../db/schema/properties.js';
+import { members } from '../db/schema/members.js';
+import { offices } from '../db/schema/offices.js';
+import { openHouses } from '../db/schema/open-houses.js';
+import { reconciliationRuns, reconciliationRefetches } from '../db/schema/monitoring.js';
+import {
+  buildKeyListUrl,
+  buildKeyLookupUrl,
+  fetchAllPages,
+  getKeyFields,
+  KEY_LOOKUP_BATCH_SIZE,
+  type ResourceType,
+} from '../api/mlsgrid-client.js';
+import { processRecord } from './replication-cycle.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+
+/** Lookup records can't be fetched by key, so they're left to regular replication. */
+export const RECONCILED_RESOURCES: ResourceType[] = ['Property', 'Member', 'Office', 'OpenHouse'];
+
+export interface ReconciliationResult {
+  runId: number;
+  resource: ResourceType;
+  originatingSystem: string;
+  status: 'completed' | 'failed' | 'deletes_skipped';
+  remoteCount: number;
+  localCount: number;
+  staleCount: number;
+  missingCount: number;
+  outdatedCount: number;
+  softDeleted: number;
+  refetched: number;
+  refetchFailed: number;
+  error?: string;
+}
+
+interface LocalKey {
+  viewable: boolean;
+  modificationTs: Date;
+}
+
+interface RemoteKey {
+  lookupId: string;
+  modificationTs: Date | null;
+}
+
+// Deletes below this count are always applied, so small tables aren't blocked
+// by the percentage guard over a handful of records
+const MIN_GUARDED_DELETES = 25;
+const REFETCH_MAX_ATTEMPTS = 3;
+
+// Reconciliation API requests are logged to replication_requests under this id
+const RECONCILIATION_REQUEST_RUN_ID = 0;
+
+/**
+ * Compare the full set of viewable keys upstream with the local table and fix
+ * whatever replication missed:
+ *
+ * - Local records the API no longer returns as viewable are soft-deleted by
+ *   feeding a synthetic MlgCanView=false record through the normal processor.
+ * - Keys the API returns that are absent (or hidden) locally, or whose
+ *   ModificationTimestamp is newer upstream, are queued for re-fetch.
+ *
+ * Deletes are skipped entirely when they would exceed
+ * RECONCILIATION_MAX_DELETE_PCT of local records — a truncated or filtered
+ * scan must never wipe the table. Must not run concurrently with the
+ * replication cycle for the same (system, resource) pair.
+ */
+export async function runReconciliation(
+  resource: ResourceType,
+  originatingSystem: string,
+): Promise<ReconciliationResult> {
+  const db = getDb();
+  const env = getEnv();
+  const logger = getLogger();
+
+  const scanStartedAt = new Date();
+  const [run] = await db
+    .insert(reconciliationRuns)
+    .values({ resourceType: resource, originatingSystem, startedAt: scanStartedAt, status: 'running' })
+    .returning({ id: reconciliationRuns.id });
+
+  const result: ReconciliationResult = {
+    runId: run.id,
+    resource,
+    originatingSystem,
+    status: 'completed',
+    remoteCount: 0,
+    localCount: 0,
+    staleCount: 0,
+    missingCount: 0,
+    outdatedCount: 0,
+    softDeleted: 0,
+    refetched: 0,
+    refetchFailed: 0,
+  };
+  let refetchQueued = 0;
+  let apiRequestsMade = 0;
+
+  logger.info({ resource, originatingSystem, runId: run.id }, `Starting ${originatingSystem} ${resource} key reconciliation`);
+
+  try {
+    // 1. Full key-only scan of viewable records upstream
+    const { keyField, lookupField } = getKeyFields(resource);
+    const remote = new Map<string, RemoteKey>();
+    for await (const page of fetchAllPages(buildKeyListUrl(resource, originatingSystem), RECONCILIATION_REQUEST_RUN_ID)) {
+      apiRequestsMade++;
+      for (const record of page.value) {
+        const key = record[keyField] as string | undefined;
+        if (!key) continue;
+        const modTs = record.ModificationTimestamp as string | undefined;
+        remote.set(key, {
+          lookupId: (record[lookupField] as string | undefined) ?? key,
+          modificationTs: modTs ? new Date(modTs) : null,
+        });
+      }
+    }
+
+    // 2. Local key set (viewable and hidden)
+    const local = await loadLocalKeys(resource, originatingSystem);
+
+    // 3. Diff
+    const stale: Array<[string, LocalKey]> = [];
+    for (const [key, row] of local) {
+      if (!row.viewable) continue;
+      result.localCount++;
+      // Records modified after the scan started may simply have moved between pages
+      if (!remote.has(key) && row.modificationTs < scanStartedAt) {
+        stale.push([key, row]);
+      }
+    }
+
+    const toRefetch: Array<{ key: string; lookupId: string; reason: 'missing' | 'outdated' }> = [];
+    for (const [key, remoteRow] of remote) {
+      const row = local.get(key);
+      if (!row || !row.viewable) {
+        toRefetch.push({ key, lookupId: remoteRow.lookupId, reason: 'missing' });
+      } else if (remoteRow.modificationTs && remoteRow.modificationTs > row.modificationTs) {
+        toRefetch.push({ key, lookupId: remoteRow.lookupId, reason: 'outdated' });
+      }
+    }
+
+    result.remoteCount = remote.size;
+    result.staleCount = stale.length;
+    result.missingCount = toRefetch.filter((r) => r.reason === 'missing').length;
+    result.outdatedCount = toRefetch.length - result.missingCount;
+
+    logger.info(
+      {
+        resource,
+        originatingSystem,
+        remoteCount: result.remoteCount,
+        localCount: result.localCount,
+        staleCount: result.staleCount,
+        missingCount: result.missingCount,
+        outdatedCount: result.outdatedCount,
+      },
+      'Reconciliation diff computed',
+    );
+
+    // 4. Soft-delete stale records, unless the count trips the safety threshold
+    const maxDeletes = Math.max(MIN_GUARDED_DELETES, (result.localCount * env.RECONCILIATION_MAX_DELETE_PCT) / 100);
+    if (stale.length > maxDeletes) {
+      result.status = 'deletes_skipped';
+      result.error = `${stale.length} stale records exceeds the ${env.RECONCILIATION_MAX_DELETE_PCT}% delete threshold (${Math.floor(maxDeletes)}) — deletes skipped`;
+      logger.error({ resource, originatingSystem, staleCount: stale.length, maxDeletes }, result.error);
+    } else {
+      for (const [key, row] of stale) {
+        try {
+          // Keep the local timestamp: the real delete time upstream is unknown
+          await processRecord(
+            resource,
+            {
+              [keyField]: key,
+              OriginatingSystemName: originatingSystem,
+              MlgCanView: false,
+              ModificationTimestamp: row.modificationTs.toISOString(),
+            },
+            false,
+            RECONCILIATION_REQUEST_RUN_ID,
+          );
+          result.softDeleted++;
+        } catch (err) {
+          logger.error({ err, resource, key }, 'Reconciliation soft-delete failed — continuing');
+        }
+      }
+    }
+
+    // 5. Queue re-fetches, then work the queue (including leftovers from earlier runs)
+    if (toRefetch.length > 0) {
+      const now = new Date();
+      for (let i = 0; i < toRefetch.length; i += 500) {
+        await db
+          .insert(reconciliationRefetches)
+          .values(
+            toRefetch.slice(i, i + 500).map((r) => ({
+              resourceType: resource,
+              originatingSystem,
+              recordKey: r.key,
+              lookupId: r.lookupId,
+              reason: r.reason,
+              status: 'pending',
+              reconciliationRunId: run.id,
+              queuedAt: now,
+            })),
+          )
+          .onConflictDoUpdate({
+            target: [reconciliationRefetches.resourceType, reconciliationRefetches.originatingSystem, reconciliationRefetches.recordKey],
+            set: {
+              lookupId: sql`excluded.lookup_id`,
+              reason: sql`excluded.reason`,
+              status: 'pending',
+              attempts: 0,
+              lastError: null,
+              reconciliationRunId: run.id,
+              queuedAt: now,
+              completedAt: null,
+            },
+          });
+      }
+      refetchQueued = toRefetch.length;
+    }
+
+    const refetch = await processRefetchQueue(resource, originatingSystem);
+    result.refetched = refetch.refetched;
+    result.refetchFailed = refetch.failed;
+    apiRequestsMade += refetch.requests;
+  } catch (err) {
+    result.status = 'failed';
+    result.error = err instanceof Error ? err.message : String(err);
+    logger.error({ err, resource, originatingSystem }, 'Reconciliation failed');
+  }
+
+  await db
+    .update(reconciliationRuns)
+    .set({
+      completedAt: new Date(),
+      status: result.status,
+      remoteCount: result.remoteCount,
+      localCount: result.localCount,
+      staleCount: result.staleCount,
+      missingCount: result.missingCount,
+      outdatedCount: result.outdatedCount,
+      softDeleted: result.softDeleted,
+      refetchQueued,
+      refetched: result.refetched,
+      refetchFailed: result.refetchFailed,
+      apiRequestsMade,
+      errorMessage: result.error ?? null,
+    })
+    .where(eq(reconciliationRuns.id, run.id));
+
+  logger.info({ ...result }, 'Reconciliation complete');
+  return result;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch pending re-fetch entries in batches of KEY_LOOKUP_BATCH_SIZE ids and
+ * run whatever comes back through the normal record processor. Ids the API
+ * doesn't return are marked not_found; request failures are retried on the
+ * next run up to REFETCH_MAX_ATTEMPTS times.
+ */
+async function processRefetchQueue(
+  resource: ResourceType,
+  originatingSystem: string,
+): Promise<{ refetched: number; failed: number; requests: number }> {
+  const db = getDb();
+  const env = getEnv();
+  const logger = getLogger();
+  const { keyField } = getKeyFields(resource);
+
+  const pending = await db
+    .select()
+    .from(reconciliationRefetches)
+    .where(
+      and(
+        eq(reconciliationRefetches.resourceType, resource),
+        eq(reconciliationRefetches.originatingSystem, originatingSystem),
+        eq(reconciliationRefetches.status, 'pending'),
+        lt(reconciliationRefetches.attempts, REFETCH_MAX_ATTEMPTS),
+      ),
+    )
+    .orderBy(asc(reconciliationRefetches.queuedAt), asc(reconciliationRefetches.id))
+    .limit(env.RECONCILIATION_REFETCH_LIMIT * KEY_LOOKUP_BATCH_SIZE);
+
+  let refetched = 0;
+  let failed = 0;
+  let requests = 0;
+
+  for (let i = 0; i < pending.length; i += KEY_LOOKUP_BATCH_SIZE) {
+    const batch = pending.slice(i, i + KEY_LOOKUP_BATCH_SIZE);
+    const url = buildKeyLookupUrl(resource, originatingSystem, batch.map((r) => r.lookupId));
+
+    const returned = new Set<string>();
+    let requestError: string | null = null;
+    try {
+      for await (const page of fetchAllPages(url, RECONCILIATION_REQUEST_RUN_ID)) {
+        requests++;
+        for (const record of page.value) {
+          const key = record[keyField] as string | undefined;
+          if (!key) continue;
+          await processRecord(resource, record, false, RECONCILIATION_REQUEST_RUN_ID);
+          returned.add(key);
+        }
+      }
+    } catch (err) {
+      requestError = err instanceof Error ? err.message : String(err);
+      logger.warn({ err, resource, originatingSystem, keys: batch.map((r) => r.recordKey) }, 'Reconciliation re-fetch failed');
+    }
+
+    for (const entry of batch) {
+      if (returned.has(entry.recordKey)) {
+        refetched++;
+        await db
+          .update(reconciliationRefetches)
+          .set({ status: 'completed', attempts: entry.attempts + 1, lastError: null, completedAt: new Date() })
+          .where(eq(reconciliationRefetches.id, entry.id));
+      } else if (requestError) {
+        const attempts = entry.attempts + 1;
+        const exhausted = attempts >= REFETCH_MAX_ATTEMPTS;
+        if (exhausted) failed++;
+        await db
+          .update(reconciliationRefetches)
+          .set({ status: exhausted ? 'failed' : 'pending', attempts, lastError: requestError })
+          .where(eq(reconciliationRefetches.id, entry.id));
+      } else {
+        // Not returned even without the MlgCanView filter — gone upstream
+        await db
+          .update(reconciliationRefetches)
+          .set({ status: 'not_found', attempts: entry.attempts + 1, completedAt: new Date() })
+          .where(eq(reconciliationRefetches.id, entry.id));
+      }
+    }
+  }
+
+  if (pending.length > 0) {
+    logger.info({ resource, originatingSystem, queued: pending.length, refetched, failed }, 'Reconciliation re-fetch queue processed');
+  }
+  return { refetched, failed, requests };
+}
+
+/**
+ * Load every local key for a (system, resource) pair with its visibility and
+ * modification timestamp. Open houses are hard-deleted, so all rows are viewable.
+ */
+async function loadLocalKeys(resource: ResourceType, originatingSystem: string): Promise<Map<string, LocalKey>> {
+  const db = getDb();
+
+  let rows: Array<{ key: string; viewable: boolean; modificationTs: Date }>;
+  switch (resource) {
+    case 'Property':
+      rows = await db
+        .select({ key: properties.listingKey, viewable: properties.mlgCanView, modificationTs: properties.modificationTs })
+        .from(properties)
+        .where(eq(properties.originatingSystem, originatingSystem));
+      break;
+    case 'Member':
+      rows = await db
+        .select({ key: members.memberKey, viewable: members.mlgCanView, modificationTs: members.modificationTs })
+        .from(members)
+        .where(eq(members.originatingSystem, originatingSystem));
+      break;
+    case 'Office':
+      rows = await db
+        .select({ key: offices.officeKey, viewable: offices.mlgCanView, modificationTs: offices.modificationTs })
+        .from(offices)
+        .where(eq(offices.originatingSystem, originatingSystem));
+      break;
+    case 'OpenHouse':
+      rows = await db
+        .select({ key: openHouses.openHouseKey, viewable: openHouses.mlgCanView, modificationTs: openHouses.modificationTs })
+        .from(openHouses)
+        .where(eq(openHouses.originatingSystem, originatingSystem));
+      break;
+    default:
+      throw new Error(`Reconciliation is not supported for ${resource}`);
+  }
+
+  return new Map(rows.map((r) => [r.key, { viewable: r.viewable, modificationTs: r.modificationTs }]));
+}
@@ -1,5 +1,5 @@
-import { eq, and, desc, inArray, sql } from 'drizzle-orm';
-import { getDb } from '../db/connection.js';
+import { eq, and, desc, inArray, ne } from 'drizzle-orm';
+import { getDb, type DbExecutor } from '../db/connection.js';
 import { properties } from '../db/schema/properties.js';
 import { members } from '../db/schema/members.js';
 import { offices } from '../db/schema/offices.js';
@@ -7,10 +7,12 @@ import { replicationRuns } from '../db/schema/monitoring.js';
 import {
   buildInitialImportUrl,
   buildReplicationUrl,
-  fetchAllPages,
+  fetchPage,
+  MlsGridApiError,
+  type MlsGridPageResult,
   type ResourceType,
 } from '../api/mlsgrid-client.js';
-import { processPropertyRecord } from './property-processor.js';
+import { processPropertyPage, processPropertyRecord, type ProcessingStats } from './property-processor.js';
 import {
   processMemberRecord,
   processOfficeRecord,
@@ -18,11 +20,19 @@ import {
   processLookupRecord,
 } from './resource-processors.js';
 import { getMediaDownloader } from './media-downloader.js';
-import { getEnv } from '../config/env.js';
+import { HwmTracker } from './hwm-tracker.js';
+import { recordDeadLetters, resolveSupersededDeadLetters } from './dead-letter.js';
+import { KeyedWorkerPool } from '../lib/worker-pool.js';
+import { recordReplicationHwm, recordReplicationRun, recordRecordsProcessed } from '../lib/metrics.js';
+import { dispatchAlerts } from '../alerts/dispatch.js';
+import type { AlertEvent } from '../alerts/notify.js';
+import { flushDriftObservations } from '../metadata/drift-tracker.js';
 import { getLogger } from '../lib/logger.js';
+import { getEnv } from '../config/env.js';
 
 export interface CycleResult {
   runId: number;
+  originatingSystem: string;
   status: 'completed' | 'failed' | 'partial';
   totalRecords: number;
   inserted: number;
@@ -33,34 +43,93 @@ export interface CycleResult {
   error?: string;
 }
 
+/** Outcome of writing one API page. */
+export interface PageResult {
+  stats: ProcessingStats;
+  committed: Record<string, unknown>[];
+  failed: Array<{ record: Record<string, unknown>; error: unknown }>;
+}
+
+/**
+ * Where the next run for a (system, resource) pair should start.
+ * `resume` is set when the previous run was interrupted mid-pagination and
+ * left a nextLink checkpoint behind.
+ */
+export interface RunPlan {
+  isInitialImport: boolean;
+  hwm: Date | null;
+  resume: {
+    runId: number;
+    nextLink: string;
+    pagesCompleted: number;
+    hwmEnd: Date | null;
+  } | null;
+}
+
+/**
+ * Run modes that own the HWM and pagination cursor for a (system, resource) pair.
+ * Other modes (e.g. 'resync') are logged to replication_runs but must never be
+ * used to derive where replication continues, or to judge its freshness.
+ */
+export const HWM_RUN_MODES = ['initial_import', 'replication'];
+
+export interface CycleOptions {
+  /** Worker replica running the cycle, recorded on its replication_runs row. */
+  instanceId?: string;
+  /**
+   * Checked between pages: once aborted the cycle stops and ends 'partial' (or
+   * 'failed' before its first page), keeping its nextLink checkpoint for whoever
+   * resumes it. The scheduler aborts when this replica stops leading.
+   */
+  signal?: AbortSignal;
+}
+
 /**
- * Run a single replication cycle for a given resource type.
+ * Run a single replication cycle for a given (originating system, resource) pair.
  * Handles initial import vs replication mode, HWM management, and error recovery.
  */
-export async function runReplicationCycle(resource: ResourceType): Promise<CycleResult> {
+export async function runReplicationCycle(
+  resource: ResourceType,
+  originatingSystem: string,
+  options: CycleOptions = {},
+): Promise<CycleResult> {
   const db = getDb();
   const logger = getLogger();
-  const env = getEnv();
-  const originatingSystem = env.MLSGRID_ORIGINATING_SYSTEM;
 
-  // Determine run mode and HWM
-  const { isInitialImport, hwm } = await determineRunMode(resource);
+  // Determine run mode, HWM and any saved pagination cursor
+  const { isInitialImport, hwm, resume } = await determineRunMode(resource, originatingSystem);
   const runMode = isInitialImport ? 'initial_import' : 'replication';
+  recordReplicationHwm(originatingSystem, resource, hwm);
 
   logger.info(
-    { resource, runMode, hwm: hwm?.toISOString() ?? 'none' },
-    `Starting ${resource} replication cycle`,
+    {
+      resource,
+      originatingSystem,
+      runMode,
+      hwm: hwm?.toISOString() ?? 'none',
+      resumedFromRunId: resume?.runId,
+      resumedAtPage: resume?.pagesCompleted,
+    },
+    resume
+      ? `Resuming ${originatingSystem} ${resource} replication cycle from saved cursor`
+      : `Starting ${originatingSystem} ${resource} replication cycle`,
   );
 
   // Create replication run record
+  const startedAt = new Date();
   const [run] = await db
     .insert(replicationRuns)
     .values({
       resourceType: resource,
+      originatingSystem,
       runMode,
-      startedAt: new Date(),
+      startedAt,
       status: 'running',
+      instanceId: options.instanceId ?? null,
       hwmStart: hwm,
+      nextLink: resume?.nextLink ?? null,
+      pagesCompleted: resume?.pagesCompleted ?? 0,
+      resumedFromRunId: resume?.runId ?? null,
     })
     .returning({ id: replicationRuns.id });
 
@@ -79,17 +148,20 @@ export async function runReplicationCycle(resource: ResourceType): Promise<Cycle
   let updated = 0;
   let deleted = 0;
   let mediaQueued = 0;
-  let hwmEnd: Date | null = hwm;
+  let hwmEnd: Date | null = resume?.hwmEnd ?? hwm;
+  const hwmTracker = new HwmTracker<Record<string, unknown>>(hwmEnd);
+  let pagesCompleted = resume?.pagesCompleted ?? 0;
+  let nextLink: string | null = resume?.nextLink ?? null;
   let status: 'completed' | 'failed' | 'partial' = 'completed';
   let errorMsg: string | undefined;
 
-  // Build dedup set for `ge` resume strategy
+  // Build dedup set for `ge` resume strategy (not needed when continuing from a cursor)
   let dedupSet: Set<string> | null = null;
-  if (hwm && !isInitialImport) {
-    dedupSet = await buildDedupSet(resource, hwm);
+  if (hwm && !isInitialImport && !resume) {
+    dedupSet = await buildDedupSet(resource, originatingSystem, hwm);
     if (dedupSet.size > 0) {
       logger.info(
-        { resource, dedupCount: dedupSet.size },
+        { resource, originatingSystem, dedupCount: dedupSet.size },
         'Loaded dedup set for ge resume',
       );
     }
@@ -97,12 +169,19 @@ export async function runReplicationCycle(resource: ResourceType): Promise<Cycle
 
   try {
     // Build URL
-    const url = isInitialImport
+    const filterUrl = isInitialImport
       ? buildInitialImportUrl(resource, originatingSystem)
       : buildReplicationUrl(resource, originatingSystem, hwm!, true); // useGe=true for resume safety
 
+    const pages = resume
+      ? fetchPagesFromCursor(resume.nextLink, filterUrl, runId, () => {
+          pagesCompleted = 0;
+        })
+      : fetchPagesFromCursor(filterUrl, null, runId);
+
     // Iterate through all pages
-    for await (const page of fetchAllPages(url, runId)) {
+    for await (const page of pages) {
+      const pending: Record<string, unknown>[] = [];
       for (const record of page.value) {
         const recordKey = getRecordKey(resource, record);
 
@@ -115,48 +194,77 @@ export async function runReplicationCycle(resource: ResourceType): Promise<Cycle
         if (dedupSet && dedupSet.size === 0) {
           dedupSet = null;
         }
+        pending.push(record);
+        hwmTracker.add(record, record.ModificationTimestamp as string | undefined);
+      }
 
-        try {
-          const stats = await processRecord(resource, record, isInitialImport, runId);
-          inserted += stats.inserted;
-          updated += stats.updated;
-          deleted += stats.deleted;
-          mediaQueued += stats.mediaQueued;
-          totalRecords++;
-
-          // Track HWM
-          const modTs = record.ModificationTimestamp as string | undefined;
-          if (modTs) {
-            const ts = new Date(modTs);
-            if (!hwmEnd || ts > hwmEnd) {
-              hwmEnd = ts;
-            }
-          }
-        } catch (recordErr) {
-          logger.error(
-            { err: recordErr, recordKey, resource },
-            'Error processing individual record — continuing',
-          );
-          // Per-record errors don't fail the whole cycle
-        }
+      // Per-record errors don't fail the whole cycle. Records finish out of order,
+      // so the HWM only moves past a record once everything before it has settled.
+      const pageResult = await processPage(resource, pending, isInitialImport, runId, (record) =>
+        hwmTracker.settle(record),
+      );
+      inserted += pageResult.stats.inserted;
+      updated += pageResult.stats.updated;
+      deleted += pageResult.stats.deleted;
+      mediaQueued += pageResult.stats.mediaQueued;
+      totalRecords += pageResult.committed.length;
+      recordRecordsProcessed(originatingSystem, resource, {
+        inserted: pageResult.stats.inserted,
+        updated: pageResult.stats.updated,
+        deleted: pageResult.stats.deleted,
+        failed: pageResult.failed.length,
+      });
+
+      // Failed records are only passed by the HWM once they're safely dead-lettered
+      if (pageResult.failed.length > 0) {
+        await recordDeadLetters(resource, originatingSystem, runId, pageResult.failed);
+        pageResult.failed.forEach(({ record }) => hwmTracker.settle(record));
       }
+      await resolveSupersededDeadLetters(resource, originatingSystem, pageResult.committed);
+      hwmEnd = hwmTracker.value;
+
+      // Checkpoint: the page is committed, so the next run can continue from its nextLink
+      pagesCompleted++;
+      nextLink = page.nextLink;
+      await db
+        .update(replicationRuns)
+        .set({
+          nextLink,
+          pagesCompleted,
+          hwmEnd,
+          totalRecordsReceived: totalRecords,
+          recordsInserted: inserted,
+          recordsUpdated: updated,
+          recordsDeleted: deleted,
+          mediaDownloaded: mediaQueued,
+        })
+        .where(eq(replicationRuns.id, runId));
 
       logger.info(
         {
           resource,
+          originatingSystem,
+          page: pagesCompleted,
           pageRecords: page.value.length,
           totalRecords,
           inserted,
           updated,
           deleted,
+          failed: pageResult.failed.length,
         },
         'Page processed',
       );
+
+      // Stop before fetching the next page once this replica no longer owns the cycle
+      options.signal?.throwIfAborted();
     }
   } catch (err) {
+    // Records of an interrupted page that did settle may still advance the HWM;
+    // the page itself is re-fetched from the saved nextLink.
+    hwmEnd = hwmTracker.value;
     errorMsg = err instanceof Error ? err.message : String(err);
     status = totalRecords > 0 ? 'partial' : 'failed';
-    logger.error({ err, resource, totalRecords }, `Replication cycle ${status}`);
+    logger.error({ err, resource, originatingSystem, totalRecords }, `Replication cycle ${status}`);
   }
 
   // Update replication run record
@@ -167,6 +275,9 @@ export async function runReplicationCycle(resource: ResourceType): Promise<Cycle
       status,
       errorMessage: errorMsg ?? null,
       hwmEnd,
+      // Keep the last committed cursor on failure so the next run can resume from it
+      nextLink: status === 'completed' ? null : nextLink,
+      pagesCompleted,
       totalRecordsReceived: totalRecords,
       recordsInserted: inserted,
       recordsUpdated: updated,
@@ -174,15 +285,18 @@ export async function runReplicationCycle(resource: ResourceType): Promise<Cycle
       mediaDownloaded: mediaQueued,
     })
     .where(eq(replicationRuns.id, runId));
+  recordReplicationRun(originatingSystem, resource, status, Date.now() - startedAt.getTime());
+  recordReplicationHwm(originatingSystem, resource, hwmEnd);
 
   // Post-replication tasks
-  if (resource === 'Property' && status !== 'failed') {
-    await refreshMaterializedViews();
+  if (resource === 'Property') {
+    await flushDriftObservations();
   }
 
   logger.info(
     {
       resource,
+      originatingSystem,
       runId,
       status,
       totalRecords,
@@ -195,25 +309,107 @@ export async function runReplicationCycle(resource: ResourceType): Promise<Cycle
     `Replication cycle complete`,
   );
 
-  return { runId, status, totalRecords, inserted, updated, deleted, mediaQueued, hwmEnd, error: errorMsg };
+  return { runId, originatingSystem, status, totalRecords, inserted, updated, deleted, mediaQueued, hwmEnd, error: errorMsg };
+}
+
+/**
+ * Iterate pages starting at `startUrl` (a filter URL or a saved nextLink).
+ * If a saved cursor is rejected on the first request (4xx other than 429),
+ * restart from `fallbackUrl` instead of failing the run.
+ */
+async function* fetchPagesFromCursor<T = Record<string, unknown>>(
+  startUrl: string,
+  fallbackUrl: string | null,
+  runId: number,
+  onFallback?: () => void,
+): AsyncGenerator<MlsGridPageResult<T>> {
+  let url: string | null = startUrl;
+  let isFirstPage = true;
+
+  while (url) {
+    let result: MlsGridPageResult<T>;
+    try {
+      result = await fetchPage<T>(url, runId);
+    } catch (err) {
+      const cursorRejected =
+        err instanceof MlsGridApiError && err.statusCode >= 400 && err.statusCode < 500;
+      if (isFirstPage && fallbackUrl && cursorRejected) {
+        getLogger().warn(
+          { runId, statusCode: (err as MlsGridApiError).statusCode },
+          'Saved nextLink cursor rejected — restarting from filter URL',
+        );
+        url = fallbackUrl;
+        fallbackUrl = null;
+        onFallback?.();
+        continue;
+      }
+      throw err;
+    }
+
+    isFirstPage = false;
+    yield result;
+    url = result.nextLink;
+  }
 }
 
 /**
  * Determine whether this is an initial import or a replication run.
- * Returns the HWM (high-water mark) timestamp if in replication mode.
+ * Returns the HWM (high-water mark) timestamp if in replication mode, and the
+ * saved pagination cursor if the previous run was interrupted mid-pagination.
+ * HWMs and cursors are tracked independently per originating system.
  */
-async function determineRunMode(
+export async function determineRunMode(
   resource: ResourceType,
-): Promise<{ isInitialImport: boolean; hwm: Date | null }> {
+  originatingSystem: string,
+): Promise<RunPlan> {
   const db = getDb();
 
-  // Look for the most recent completed/partial run for this resource
+  // An interrupted run (failed, partial, or a stopped replica's 'running' row marked
+  // partial by the next leader) that left a cursor behind is continued from exactly where it stopped.
+  const [latestRun] = await db
+    .select({
+      id: replicationRuns.id,
+      runMode: replicationRuns.runMode,
+      status: replicationRuns.status,
+      hwmStart: replicationRuns.hwmStart,
+      hwmEnd: replicationRuns.hwmEnd,
+      nextLink: replicationRuns.nextLink,
+      pagesCompleted: replicationRuns.pagesCompleted,
+    })
+    .from(replicationRuns)
+    .where(
+      and(
+        eq(replicationRuns.resourceType, resource),
+        eq(replicationRuns.originatingSystem, originatingSystem),
+        inArray(replicationRuns.runMode, HWM_RUN_MODES),
+        ne(replicationRuns.status, 'running'),
+      ),
+    )
+    .orderBy(desc(replicationRuns.startedAt))
+    .limit(1);
+
+  if (latestRun?.nextLink && latestRun.status !== 'completed') {
+    return {
+      isInitialImport: latestRun.runMode === 'initial_import',
+      hwm: latestRun.hwmStart,
+      resume: {
+        runId: latestRun.id,
+        nextLink: latestRun.nextLink,
+        pagesCompleted: latestRun.pagesCompleted ?? 0,
+        hwmEnd: latestRun.hwmEnd,
+      },
+    };
+  }
+
+  // Look for the most recent completed/partial run for this (system, resource)
   const lastRun = await db
     .select({ hwmEnd: replicationRuns.hwmEnd, status: replicationRuns.status })
     .from(replicationRuns)
     .where(
       and(
         eq(replicationRuns.resourceType, resource),
+        eq(replicationRuns.originatingSystem, originatingSystem),
+        inArray(replicationRuns.runMode, HWM_RUN_MODES),
         inArray(replicationRuns.status, ['completed', 'partial']),
       ),
     )
@@ -221,17 +417,21 @@ async function determineRunMode(
     .limit(1);
 
   if (lastRun.length === 0 || !lastRun[0].hwmEnd) {
-    return { isInitialImport: true, hwm: null };
+    return { isInitialImport: true, hwm: null, resume: null };
   }
 
-  return { isInitialImport: false, hwm: lastRun[0].hwmEnd };
+  return { isInitialImport: false, hwm: lastRun[0].hwmEnd, resume: null };
 }
 
 /**
  * Build the dedup set for `ge` resume strategy.
  * Returns a Set of record keys that have modification_ts equal to the HWM.
  */
-async function buildDedupSet(resource: ResourceType, hwm: Date): Promise<Set<string>> {
+async function buildDedupSet(
+  resource: ResourceType,
+  originatingSystem: string,
+  hwm: Date,
+): Promise<Set<string>> {
   const db = getDb();
 
   switch (resource) {
@@ -239,21 +439,21 @@ async function buildDedupSet(resource: ResourceType, hwm: Date): Promise<Set<str
       const rows = await db
         .select({ key: properties.listingKey })
         .from(properties)
-        .where(eq(properties.modificationTs, hwm));
+        .where(and(eq(properties.originatingSystem, originatingSystem), eq(properties.modificationTs, hwm)));
       return new Set(rows.map((r) => r.key));
     }
     case 'Member': {
       const rows = await db
         .select({ key: members.memberKey })
         .from(members)
-        .where(eq(members.modificationTs, hwm));
+        .where(and(eq(members.originatingSystem, originatingSystem), eq(members.modificationTs, hwm)));
       return new Set(rows.map((r) => r.key));
     }
     case 'Office': {
       const rows = await db
         .select({ key: offices.officeKey })
         .from(offices)
-        .where(eq(offices.modificationTs, hwm));
+        .where(and(eq(offices.originatingSystem, originatingSystem), eq(offices.modificationTs, hwm)));
       return new Set(rows.map((r) => r.key));
     }
     default:
@@ -261,33 +461,133 @@ async function buildDedupSet(resource: ResourceType, hwm: Date): Promise<Set<str
   }
 }
 
+/**
+ * Write one API page. Non-media writes for the whole page are committed in a
+ * single transaction; if it fails, records are retried individually on a
+ * worker pool (serialized per record key) so a bad record only costs itself.
+ * Property media is downloaded after the commit. `onSettled` is called for
+ * each record once it is done; failed records are returned in `failed` instead.
+ */
+export async function processPage(
+  resource: ResourceType,
+  records: Record<string, unknown>[],
+  isInitialImport: boolean,
+  runId: number,
+  onSettled?: (record: Record<string, unknown>) => void,
+): Promise<PageResult> {
+  if (resource === 'Property') {
+    const result = await processPropertyPage(records, { isInitialImport, runId }, onSettled);
+    return result;
+  }
+
+  const db = getDb();
+  const logger = getLogger();
+  const result: PageResult = {
+    stats: { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 },
+    committed: [],
+    failed: [],
+  };
+  if (records.length === 0) return result;
+
+  const addStats = (stats: ProcessingStats) => {
+    result.stats.inserted += stats.inserted;
+    result.stats.updated += stats.updated;
+    result.stats.deleted += stats.deleted;
+    result.stats.mediaQueued += stats.mediaQueued;
+  };
+
+  try {
+    // One connection per transaction, so records are written sequentially here
+    const alerts: AlertEvent[] = [];
+    const pageStats = await db.transaction(async (tx) => {
+      const all: ProcessingStats[] = [];
+      for (const record of records) {
+        all.push(await writeResourceRecord(resource, record, isInitialImport, tx, alerts));
+      }
+      return all;
+    });
+    pageStats.forEach(addStats);
+    await dispatchAlerts(alerts);
+    result.committed.push(...records);
+    records.forEach((record) => onSettled?.(record));
+    return result;
+  } catch (err) {
+    logger.warn({ err, resource, records: records.length }, 'Page transaction failed — retrying records individually');
+  }
+
+  const pool = new KeyedWorkerPool(getEnv().WORKER_RECORD_CONCURRENCY);
+  const committed = new Set<Record<string, unknown>>();
+  await Promise.all(
+    records.map((record) => {
+      const recordKey = getRecordKey(resource, record);
+      return pool.run(recordKey, async () => {
+        try {
+          const alerts: AlertEvent[] = [];
+          addStats(await writeResourceRecord(resource, record, isInitialImport, db, alerts));
+          await dispatchAlerts(alerts);
+          committed.add(record);
+          onSettled?.(record);
+        } catch (recordErr) {
+          result.failed.push({ record, error: recordErr });
+          logger.error(
+            { err: recordErr, recordKey, resource },
+            'Error processing individual record — continuing',
+          );
+        }
+      });
+    }),
+  );
+  result.committed = records.filter((record) => committed.has(record));
+  return result;
+}
+
 /**
  * Route a record to the appropriate processor based on resource type.
+ * Also used by reconciliation to apply re-fetched records and synthetic deletes.
  */
-async function processRecord(
+export async function processRecord(
   resource: ResourceType,
   record: Record<string, unknown>,
   isInitialImport: boolean,
   runId: number,
-) {
+): Promise<ProcessingStats> {
+  if (resource === 'Property') {
+    return processPropertyRecord(record, { isInitialImport, runId });
+  }
+  const alerts: AlertEvent[] = [];
+  const stats = await writeResourceRecord(resource, record, isInitialImport, getDb(), alerts);
+  await dispatchAlerts(alerts);
+  return stats;
+}
+
+/**
+ * Write a non-Property record with the given executor (the page transaction,
+ * or the pool when retrying records individually). Alert events are added to
+ * `alerts` for the caller to dispatch after commit.
+ */
+function writeResourceRecord(
+  resource: Exclude<ResourceType, 'Property'>,
+  record: Record<string, unknown>,
+  isInitialImport: boolean,
+  db: DbExecutor,
+  alerts: AlertEvent[],
+): Promise<ProcessingStats> {
   switch (resource) {
-    case 'Property':
-      return processPropertyRecord(record as any, { isInitialImport, runId });
     case 'Member':
-      return processMemberRecord(record, isInitialImport);
+      return processMemberRecord(record, isInitialImport, db);
     case 'Office':
-      return processOfficeRecord(record, isInitialImport);
+      return processOfficeRecord(record, isInitialImport, db);
     case 'OpenHouse':
-      return processOpenHouseRecord(record, isInitialImport);
+      return processOpenHouseRecord(record, isInitialImport, db, alerts);
     case 'Lookup':
-      return processLookupRecord(record, isInitialImport);
+      return processLookupRecord(record, isInitialImport, db);
   }
 }
 
 /**
  * Get the primary key from a record based on resource type.
  */
-function getRecordKey(resource: ResourceType, record: Record<string, unknown>): string | null {
+export function getRecordKey(resource: ResourceType, record: Record<string, unknown>): string | null {
   switch (resource) {
     case 'Property':
       return (record.ListingKey as string) ?? null;
@@ -301,29 +601,3 @@ function getRecordKey(resource: ResourceType, record: Record<string, unknown>):
       return (record.LookupKey as string) ?? null;
   }
 }
-
-/**
- * Refresh materialized views after Property replication.
- * Skips if the view doesn't exist (Phase 2 creates it).
- */
-async function refreshMaterializedViews(): Promise<void> {
-  const db = getDb();
-  const logger = getLogger();
-
-  try {
-    // Check if search_suggestions view exists before refreshing
-    const result = await db.execute(sql`
-      SELECT EXISTS (
-        SELECT 1 FROM pg_matviews WHERE matviewname = 'search_suggestions'
-      ) as exists
-    `);
-
-    const exists = (result as any)?.[0]?.exists ?? false;
-    if (exists) {
-      await db.execute(sql`REFRESH MATERIALIZED VIEW CONCURRENTLY search_suggestions`);
-      logger.info('Refreshed search_suggestions materialized view');
-    }
-  } catch (err) {
-    logger.warn({ err }, 'Failed to refresh materialized views (non-fatal)');
-  }
-}
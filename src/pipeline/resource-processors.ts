@@ -1,20 +1,28 @@
-import { eq } from 'drizzle-orm';
-import { getDb } from '../db/connection.js';
+import { and, eq } from 'drizzle-orm';
+import { getDb, type DbExecutor } from '../db/connection.js';
 import { members } from '../db/schema/members.js';
 import { offices } from '../db/schema/offices.js';
 import { openHouses } from '../db/schema/open-houses.js';
 import { lookups } from '../db/schema/lookups.js';
 import { media } from '../db/schema/media.js';
+import { properties } from '../db/schema/properties.js';
 import { transformMediaRecords } from '../transform/property-mapper.js';
 import type { ProcessingStats } from './property-processor.js';
+import { buildUpsertEvents, buildHiddenEvent, buildDeletedEvent, writeChangeEvents } from './change-events.js';
+import type { AlertEvent } from '../alerts/notify.js';
+
+// Each processor takes an optional executor so a whole page can be written in
+// one transaction (see processPage in replication-cycle.ts). Change events go
+// through the same executor, so they commit together with the data; alert
+// events are collected for the caller to dispatch once it has committed.
 
 // ─── Member Processor ────────────────────────────────────────────────────────
 
 export async function processMemberRecord(
   raw: Record<string, unknown>,
   _isInitialImport: boolean,
+  db: DbExecutor = getDb(),
 ): Promise<ProcessingStats> {
-  const db = getDb();
   const stats: ProcessingStats = { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 };
 
   const memberKey = raw.MemberKey as string;
@@ -22,10 +30,21 @@ export async function processMemberRecord(
 
   // Check MlgCanView
   if (raw.MlgCanView === false) {
-    await db
+    const [hidden] = await db
       .update(members)
       .set({ mlgCanView: false, deletedAt: new Date(), updatedAt: new Date() })
-      .where(eq(members.memberKey, memberKey));
+      .where(and(eq(members.memberKey, memberKey), eq(members.mlgCanView, true)))
+      .returning({ originatingSystem: members.originatingSystem });
+    if (hidden) {
+      await writeChangeEvents(db, [
+        buildHiddenEvent({
+          resourceType: 'Member',
+          resourceKey: memberKey,
+          originatingSystem: hidden.originatingSystem,
+          modificationTs: raw.ModificationTimestamp ? new Date(raw.ModificationTimestamp as string) : null,
+        }),
+      ]);
+    }
     stats.deleted = 1;
     return stats;
   }
@@ -58,7 +77,7 @@ export async function processMemberRecord(
 
   // Check for existing
   const existing = await db
-    .select({ memberKey: members.memberKey, photosChangeTs: members.photosChangeTs })
+    .select()
     .from(members)
     .where(eq(members.memberKey, memberKey))
     .limit(1);
@@ -71,6 +90,16 @@ export async function processMemberRecord(
     stats.updated = 1;
   }
 
+  await writeChangeEvents(
+    db,
+    buildUpsertEvents(
+      { resourceType: 'Member', resourceKey: memberKey, originatingSystem: memberData.originatingSystem, modificationTs: memberData.modificationTs },
+      existing[0] ?? null,
+      memberData,
+      { derived: { photosChangeTs: 'photos_changed' } },
+    ),
+  );
+
   // Handle media if PhotosChangeTimestamp changed
   const mediaRecords = raw.Media as Array<Record<string, unknown>> | undefined;
   if (mediaRecords && mediaRecords.length > 0) {
@@ -117,18 +146,29 @@ export async function processMemberRecord(
 export async function processOfficeRecord(
   raw: Record<string, unknown>,
   _isInitialImport: boolean,
+  db: DbExecutor = getDb(),
 ): Promise<ProcessingStats> {
-  const db = getDb();
   const stats: ProcessingStats = { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 };
 
   const officeKey = raw.OfficeKey as string;
   if (!officeKey) return stats;
 
   if (raw.MlgCanView === false) {
-    await db
+    const [hidden] = await db
       .update(offices)
       .set({ mlgCanView: false, deletedAt: new Date(), updatedAt: new Date() })
-      .where(eq(offices.officeKey, officeKey));
+      .where(and(eq(offices.officeKey, officeKey), eq(offices.mlgCanView, true)))
+      .returning({ originatingSystem: offices.originatingSystem });
+    if (hidden) {
+      await writeChangeEvents(db, [
+        buildHiddenEvent({
+          resourceType: 'Office',
+          resourceKey: officeKey,
+          originatingSystem: hidden.originatingSystem,
+          modificationTs: raw.ModificationTimestamp ? new Date(raw.ModificationTimestamp as string) : null,
+        }),
+      ]);
+    }
     stats.deleted = 1;
     return stats;
   }
@@ -161,7 +201,7 @@ export async function processOfficeRecord(
   };
 
   const existing = await db
-    .select({ officeKey: offices.officeKey, photosChangeTs: offices.photosChangeTs })
+    .select()
     .from(offices)
     .where(eq(offices.officeKey, officeKey))
     .limit(1);
@@ -174,6 +214,16 @@ export async function processOfficeRecord(
     stats.updated = 1;
   }
 
+  await writeChangeEvents(
+    db,
+    buildUpsertEvents(
+      { resourceType: 'Office', resourceKey: officeKey, originatingSystem: officeData.originatingSystem, modificationTs: officeData.modificationTs },
+      existing[0] ?? null,
+      officeData,
+      { derived: { photosChangeTs: 'photos_changed' } },
+    ),
+  );
+
   // Handle media
   const mediaRecords = raw.Media as Array<Record<string, unknown>> | undefined;
   if (mediaRecords && mediaRecords.length > 0) {
@@ -219,16 +269,41 @@ export async function processOfficeRecord(
 
 export async function processOpenHouseRecord(
   raw: Record<string, unknown>,
-  _isInitialImport: boolean,
+  isInitialImport: boolean,
+  db: DbExecutor = getDb(),
+  alerts: AlertEvent[] = [],
 ): Promise<ProcessingStats> {
-  const db = getDb();
   const stats: ProcessingStats = { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 };
 
   const openHouseKey = raw.OpenHouseKey as string;
   if (!openHouseKey) return stats;
 
   if (raw.MlgCanView === false) {
-    await db.delete(openHouses).where(eq(openHouses.openHouseKey, openHouseKey));
+    // Open houses are hard-deleted, so consumers get 'deleted' rather than 'hidden'
+    const [removed] = await db
+      .delete(openHouses)
+      .where(eq(openHouses.openHouseKey, openHouseKey))
+      .returning({
+        originatingSystem: openHouses.originatingSystem,
+        listingId: openHouses.listingId,
+        openHouseStart: openHouses.openHouseStart,
+      });
+    if (removed) {
+      await writeChangeEvents(db, [
+        buildDeletedEvent({
+          resourceType: 'OpenHouse',
+          resourceKey: openHouseKey,
+          originatingSystem: removed.originatingSystem,
+          modificationTs: raw.ModificationTimestamp ? new Date(raw.ModificationTimestamp as string) : null,
+        }),
+      ]);
+      if (!isInitialImport) {
+        await pushOpenHouseAlert(db, alerts, 'open_house_cancelled', openHouseKey, removed.originatingSystem, removed.listingId, {
+          oldValue: removed.openHouseStart?.toISOString() ?? null,
+          newValue: null,
+        });
+      }
+    }
     stats.deleted = 1;
     return stats;
   }
@@ -265,6 +340,11 @@ export async function processOpenHouseRecord(
     updatedAt: new Date(),
   };
 
+  const [existing] = await db
+    .select()
+    .from(openHouses)
+    .where(eq(openHouses.openHouseKey, openHouseKey));
+
   await db
     .insert(openHouses)
     .values(openHouseData)
@@ -273,17 +353,72 @@ export async function processOpenHouseRecord(
       set: openHouseData,
     });
 
-  stats.inserted = 1; // Simplified — could check for existing
+  await writeChangeEvents(
+    db,
+    buildUpsertEvents(
+      { resourceType: 'OpenHouse', resourceKey: openHouseKey, originatingSystem: openHouseData.originatingSystem, modificationTs: openHouseData.modificationTs },
+      existing ?? null,
+      openHouseData,
+    ),
+  );
+
+  // Scheduled when first seen or moved to a new time; cancelled when the MLS marks it so
+  if (!isInitialImport) {
+    const start = openHouseData.openHouseStart?.toISOString() ?? null;
+    const previousStart = existing?.openHouseStart?.toISOString() ?? null;
+    if (raw.OpenHouseStatus === 'Canceled') {
+      if (existing) {
+        await pushOpenHouseAlert(db, alerts, 'open_house_cancelled', openHouseKey, openHouseData.originatingSystem, listingId, {
+          oldValue: previousStart,
+          newValue: null,
+        });
+      }
+    } else if (!existing || previousStart !== start) {
+      await pushOpenHouseAlert(db, alerts, 'open_house_scheduled', openHouseKey, openHouseData.originatingSystem, listingId, {
+        oldValue: previousStart,
+        newValue: start,
+      });
+    }
+  }
+
+  if (existing) {
+    stats.updated = 1;
+  } else {
+    stats.inserted = 1;
+  }
   return stats;
 }
 
+/**
+ * Queue an open house alert against its listing. Open houses reference the
+ * listing by ListingId, which is only unique within an originating system;
+ * the alert needs the ListingKey, so an open house whose listing isn't stored
+ * locally gets no alert.
+ */
+async function pushOpenHouseAlert(
+  db: DbExecutor,
+  alerts: AlertEvent[],
+  type: 'open_house_scheduled' | 'open_house_cancelled',
+  openHouseKey: string,
+  originatingSystem: string,
+  listingId: string,
+  values: { oldValue: string | null; newValue: string | null },
+): Promise<void> {
+  const [listing] = await db
+    .select({ listingKey: properties.listingKey })
+    .from(properties)
+    .where(and(eq(properties.originatingSystem, originatingSystem), eq(properties.listingId, listingId)));
+  if (!listing) return;
+  alerts.push({ type, listingKey: listing.listingKey, openHouseKey, ...values });
+}
+
 // ─── Lookup Processor ────────────────────────────────────────────────────────
 
 export async function processLookupRecord(
   raw: Record<string, unknown>,
   _isInitialImport: boolean,
+  db: DbExecutor = getDb(),
 ): Promise<ProcessingStats> {
-  const db = getDb();
   const stats: ProcessingStats = { inserted: 0, updated: 0, deleted: 0, mediaQueued: 0 };
 
   const lookupKey = raw.LookupKey as string;
@@ -0,0 +1,270 @@
+import { eq, inArray, or } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { properties } from '../db/schema/properties.js';
+import { replicationRuns } from '../db/schema/monitoring.js';
+import {
+  buildKeyLookupUrl,
+  buildModificationRangeUrl,
+  fetchAllPages,
+  KEY_LOOKUP_BATCH_SIZE,
+} from '../api/mlsgrid-client.js';
+import { processPropertyPage } from './property-processor.js';
+import { recordDeadLetters, resolveSupersededDeadLetters } from './dead-letter.js';
+import type { MlsGridPropertyRecord } from '../transform/property-mapper.js';
+import { flushDriftObservations } from '../metadata/drift-tracker.js';
+import { getOriginatingSystems } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+import { withRequestPriority } from '../lib/rate-limiter.js';
+
+export interface ResyncRequest {
+  listingIds?: string[];
+  /** ListingKeys are not searchable upstream, so they are resolved to ListingIds locally. */
+  listingKeys?: string[];
+  modifiedFrom?: Date;
+  /** Defaults to now when only modifiedFrom is given. */
+  modifiedTo?: Date;
+  /** Restrict to one originating system; by default every configured system is searched. */
+  originatingSystem?: string;
+}
+
+export interface ResyncRunResult {
+  runId: number;
+  originatingSystem: string;
+  status: 'completed' | 'failed' | 'partial';
+  totalRecords: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  mediaQueued: number;
+  /** Requested ListingIds the API didn't return for this system. */
+  notFound: string[];
+  error?: string;
+}
+
+export interface ResyncResult {
+  runs: ResyncRunResult[];
+  /** ListingKeys with no local row to resolve a ListingId from. */
+  unresolvedListingKeys: string[];
+}
+
+export interface ResyncOptions {
+  /** Worker replica running the resync, recorded on its replication_runs rows. */
+  instanceId?: string;
+  /**
+   * Runs each system's resync, e.g. in the scheduler's Property loop slot for
+   * that system so it never overlaps regular replication. Called directly by default.
+   */
+  runExclusive?: <T>(originatingSystem: string, fn: () => Promise<T>) => Promise<T>;
+}
+
+export class ResyncRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResyncRequestError';
+  }
+}
+
+// Upper bound on explicit ids per request — each batch of 6 costs one API request
+const MAX_RESYNC_IDS = 600;
+
+/**
+ * Re-fetch specific listings (by ListingId/ListingKey) and/or every listing
+ * modified within a time range, and push them through processPropertyPage
+ * with media forced back in sync.
+ *
+ * Each originating system gets its own replication_runs row with run mode
+ * 'resync'. Those rows carry no HWM and are ignored by determineRunMode(), so
+ * a re-sync never moves where regular replication continues from. Records
+ * that fail are dead-lettered like in a regular cycle.
+ */
+export async function runResync(request: ResyncRequest, options: ResyncOptions = {}): Promise<ResyncResult> {
+  validateResyncRequest(request);
+
+  const db = getDb();
+  const logger = getLogger();
+  const systems = request.originatingSystem ? [request.originatingSystem] : getOriginatingSystems();
+
+  // Resolve ListingKeys (and known ListingIds) to their ListingId + originating system
+  const idsBySystem = new Map<string, Set<string>>(systems.map((s) => [s, new Set<string>()]));
+  const unresolvedListingKeys: string[] = [];
+
+  const listingKeys = request.listingKeys ?? [];
+  const listingIds = request.listingIds ?? [];
+  const known = listingKeys.length + listingIds.length > 0
+    ? await db
+        .select({
+          listingKey: properties.listingKey,
+          listingId: properties.listingId,
+          originatingSystem: properties.originatingSystem,
+        })
+        .from(properties)
+        .where(
+          or(
+            listingKeys.length > 0 ? inArray(properties.listingKey, listingKeys) : undefined,
+            listingIds.length > 0 ? inArray(properties.listingId, listingIds) : undefined,
+          ),
+        )
+    : [];
+
+  for (const key of listingKeys) {
+    const row = known.find((k) => k.listingKey === key);
+    if (row?.listingId && idsBySystem.has(row.originatingSystem)) {
+      idsBySystem.get(row.originatingSystem)!.add(row.listingId);
+    } else {
+      unresolvedListingKeys.push(key);
+    }
+  }
+  for (const id of listingIds) {
+    const row = known.find((k) => k.listingId === id);
+    if (row && idsBySystem.has(row.originatingSystem)) {
+      idsBySystem.get(row.originatingSystem)!.add(id);
+    } else {
+      // Unknown locally — could belong to any of the target systems
+      for (const ids of idsBySystem.values()) ids.add(id);
+    }
+  }
+
+  if (unresolvedListingKeys.length > 0) {
+    logger.warn({ unresolvedListingKeys }, 'Resync: ListingKeys not found locally — pass their ListingId instead');
+  }
+
+  const range = request.modifiedFrom
+    ? { from: request.modifiedFrom, to: request.modifiedTo ?? new Date() }
+    : null;
+
+  const runExclusive = options.runExclusive ?? ((_system, fn) => fn());
+  const runs: ResyncRunResult[] = [];
+  for (const originatingSystem of systems) {
+    const ids = [...idsBySystem.get(originatingSystem)!];
+    if (ids.length === 0 && !range) continue;
+    runs.push(
+      await runExclusive(originatingSystem, () =>
+        withRequestPriority('backfill', () => runResyncForSystem(originatingSystem, ids, range, options.instanceId)),
+      ),
+    );
+  }
+
+  await flushDriftObservations();
+
+  return { runs, unresolvedListingKeys };
+}
+
+function validateResyncRequest(request: ResyncRequest): void {
+  const idCount = (request.listingIds?.length ?? 0) + (request.listingKeys?.length ?? 0);
+  if (idCount === 0 && !request.modifiedFrom) {
+    throw new ResyncRequestError('Provide listingIds, listingKeys or a modifiedFrom timestamp');
+  }
+  if (idCount > MAX_RESYNC_IDS) {
+    throw new ResyncRequestError(`At most ${MAX_RESYNC_IDS} listings can be re-synced per request`);
+  }
+  if (request.modifiedTo && !request.modifiedFrom) {
+    throw new ResyncRequestError('modifiedTo requires modifiedFrom');
+  }
+  for (const [name, value] of [['modifiedFrom', request.modifiedFrom], ['modifiedTo', request.modifiedTo]] as const) {
+    if (value && Number.isNaN(value.getTime())) {
+      throw new ResyncRequestError(`${name} is not a valid timestamp`);
+    }
+  }
+  if (request.modifiedFrom && request.modifiedTo && request.modifiedFrom > request.modifiedTo) {
+    throw new ResyncRequestError('modifiedFrom must not be after modifiedTo');
+  }
+  if (request.originatingSystem && !getOriginatingSystems().includes(request.originatingSystem)) {
+    throw new ResyncRequestError(`Originating system '${request.originatingSystem}' is not configured`);
+  }
+}
+
+async function runResyncForSystem(
+  originatingSystem: string,
+  listingIds: string[],
+  range: { from: Date; to: Date } | null,
+  instanceId: string | undefined,
+): Promise<ResyncRunResult> {
+  const db = getDb();
+  const logger = getLogger();
+
+  const [run] = await db
+    .insert(replicationRuns)
+    .values({
+      resourceType: 'Property',
+      originatingSystem,
+      runMode: 'resync',
+      instanceId: instanceId ?? null,
+      startedAt: new Date(),
+      status: 'running',
+    })
+    .returning({ id: replicationRuns.id });
+  const runId = run.id;
+
+  logger.info(
+    { runId, originatingSystem, listingIds: listingIds.length, from: range?.from.toISOString(), to: range?.to.toISOString() },
+    'Starting Property resync',
+  );
+
+  const urls: string[] = [];
+  for (let i = 0; i < listingIds.length; i += KEY_LOOKUP_BATCH_SIZE) {
+    urls.push(buildKeyLookupUrl('Property', originatingSystem, listingIds.slice(i, i + KEY_LOOKUP_BATCH_SIZE)));
+  }
+  if (range) {
+    urls.push(buildModificationRangeUrl('Property', originatingSystem, range.from, range.to));
+  }
+
+  const result: ResyncRunResult = {
+    runId,
+    originatingSystem,
+    status: 'completed',
+    totalRecords: 0,
+    inserted: 0,
+    updated: 0,
+    deleted: 0,
+    mediaQueued: 0,
+    notFound: [],
+  };
+  const returnedIds = new Set<string>();
+  let pagesCompleted = 0;
+
+  try {
+    for (const url of urls) {
+      for await (const page of fetchAllPages<MlsGridPropertyRecord>(url, runId)) {
+        for (const record of page.value) {
+          if (record.ListingId) returnedIds.add(record.ListingId);
+        }
+        // Failed records don't stop the resync; they're retried from the dead-letter queue
+        const pageResult = await processPropertyPage(page.value, { isInitialImport: false, runId, forceMediaSync: true });
+        if (pageResult.failed.length > 0) {
+          await recordDeadLetters('Property', originatingSystem, runId, pageResult.failed);
+        }
+        await resolveSupersededDeadLetters('Property', originatingSystem, pageResult.committed);
+        result.inserted += pageResult.stats.inserted;
+        result.updated += pageResult.stats.updated;
+        result.deleted += pageResult.stats.deleted;
+        result.mediaQueued += pageResult.stats.mediaQueued;
+        result.totalRecords += pageResult.committed.length;
+        pagesCompleted++;
+      }
+    }
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    result.status = result.totalRecords > 0 ? 'partial' : 'failed';
+    logger.error({ err, runId, originatingSystem }, `Property resync ${result.status}`);
+  }
+
+  result.notFound = listingIds.filter((id) => !returnedIds.has(id));
+
+  await db
+    .update(replicationRuns)
+    .set({
+      completedAt: new Date(),
+      status: result.status,
+      errorMessage: result.error ?? null,
+      pagesCompleted,
+      totalRecordsReceived: result.totalRecords,
+      recordsInserted: result.inserted,
+      recordsUpdated: result.updated,
+      recordsDeleted: result.deleted,
+      mediaDownloaded: result.mediaQueued,
+    })
+    .where(eq(replicationRuns.id, runId));
+
+  logger.info({ ...result, notFound: result.notFound.length }, 'Property resync complete');
+  return result;
+}
@@ -0,0 +1,263 @@
+import { and, asc, desc, eq, gt, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { chunkRows, excludedSet } from '../db/batch.js';
+import { properties, type NewProperty } from '../db/schema/properties.js';
+import { rawResponses } from '../db/schema/raw-responses.js';
+import { retransformJobs } from '../db/schema/monitoring.js';
+import { transformProperty, type MlsGridPropertyRecord } from '../transform/property-mapper.js';
+import { getLogger } from '../lib/logger.js';
+
+export interface RetransformOptions {
+  batchSize?: number;
+  /** Only re-derive listings from this originating system. */
+  originatingSystem?: string;
+  /** Start a new job from the beginning even if an unfinished one exists. */
+  restart?: boolean;
+  /** Polled between batches; returning true stops the job as 'interrupted'. */
+  shouldStop?: () => boolean;
+}
+
+export interface RetransformResult {
+  jobId: number;
+  status: 'completed' | 'failed' | 'interrupted';
+  processedRows: number;
+  updatedRows: number;
+  skippedRows: number;
+  errorCount: number;
+  resumedFrom: string | null;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+// Columns whose current value reflects replication state that raw_responses
+// doesn't capture (soft deletes only touch the properties row), so a
+// re-transform must never overwrite them.
+const PRESERVED_COLUMNS = new Set<string>(['listingKey', 'mlgCanView', 'modificationTs', 'createdAt', 'deletedAt']);
+
+/**
+ * Re-run transformProperty() over every stored raw_responses row and upsert
+ * the result into `properties`. No API requests are made and media, rooms,
+ * history tables and raw_responses themselves are left untouched.
+ *
+ * Progress is checkpointed per batch in retransform_jobs (keyset cursor on
+ * listing_key), so an interrupted or failed job continues where it stopped
+ * the next time it is started.
+ */
+export async function runRetransformJob(options: RetransformOptions = {}): Promise<RetransformResult> {
+  const db = getDb();
+  const logger = getLogger();
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const originatingSystem = options.originatingSystem ?? null;
+
+  const job = await startOrResumeJob(batchSize, originatingSystem, options.restart ?? false);
+  const resumedFrom = job.lastListingKey;
+
+  let cursor = job.lastListingKey;
+  let processedRows = job.processedRows;
+  let updatedRows = job.updatedRows;
+  let skippedRows = job.skippedRows;
+  let errorCount = job.errorCount;
+  let status: RetransformResult['status'] = 'completed';
+  let errorMessage: string | null = null;
+
+  logger.info(
+    { jobId: job.id, batchSize, originatingSystem, resumedFrom, totalRows: job.totalRows },
+    resumedFrom ? 'Re-transform job resuming from saved cursor' : 'Re-transform job starting',
+  );
+
+  try {
+    while (true) {
+      if (options.shouldStop?.()) {
+        status = 'interrupted';
+        break;
+      }
+
+      const conditions: SQL[] = [];
+      if (cursor) conditions.push(gt(rawResponses.listingKey, cursor));
+      if (originatingSystem) conditions.push(eq(rawResponses.originatingSystem, originatingSystem));
+
+      const batch = await db
+        .select({ listingKey: rawResponses.listingKey, rawData: rawResponses.rawData })
+        .from(rawResponses)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(asc(rawResponses.listingKey))
+        .limit(batchSize);
+
+      if (batch.length === 0) break;
+
+      const result = await upsertBatch(batch);
+      processedRows += batch.length;
+      updatedRows += result.updated;
+      skippedRows += batch.length - result.updated;
+      errorCount += result.errors;
+      cursor = batch[batch.length - 1].listingKey;
+
+      await db
+        .update(retransformJobs)
+        .set({ lastListingKey: cursor, processedRows, updatedRows, skippedRows, errorCount, updatedAt: new Date() })
+        .where(eq(retransformJobs.id, job.id));
+
+      logger.info(
+        { jobId: job.id, processedRows, updatedRows, skippedRows, errorCount, totalRows: job.totalRows, cursor },
+        'Re-transform batch complete',
+      );
+    }
+  } catch (err) {
+    status = 'failed';
+    errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error({ err, jobId: job.id, cursor }, 'Re-transform job failed — resume to continue from the last batch');
+  }
+
+  await db
+    .update(retransformJobs)
+    .set({
+      status,
+      errorMessage,
+      updatedAt: new Date(),
+      completedAt: status === 'completed' ? new Date() : null,
+    })
+    .where(eq(retransformJobs.id, job.id));
+
+  logger.info({ jobId: job.id, status, processedRows, updatedRows, skippedRows, errorCount }, 'Re-transform job finished');
+
+  return { jobId: job.id, status, processedRows, updatedRows, skippedRows, errorCount, resumedFrom };
+}
+
+/**
+ * Most recent re-transform job, for the admin CLI and dashboard.
+ */
+export async function getLatestRetransformJob() {
+  const db = getDb();
+  const [job] = await db.select().from(retransformJobs).orderBy(desc(retransformJobs.startedAt)).limit(1);
+  return job ?? null;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function startOrResumeJob(batchSize: number, originatingSystem: string | null, restart: boolean) {
+  const db = getDb();
+  const logger = getLogger();
+
+  // An unfinished job for the same scope is continued rather than started over
+  const [unfinished] = await db
+    .select()
+    .from(retransformJobs)
+    .where(
+      and(
+        inArray(retransformJobs.status, ['running', 'failed', 'interrupted']),
+        originatingSystem
+          ? eq(retransformJobs.originatingSystem, originatingSystem)
+          : sql`${retransformJobs.originatingSystem} IS NULL`,
+      ),
+    )
+    .orderBy(desc(retransformJobs.startedAt))
+    .limit(1);
+
+  if (unfinished && !restart) {
+    const [resumed] = await db
+      .update(retransformJobs)
+      .set({ status: 'running', batchSize, errorMessage: null, updatedAt: new Date() })
+      .where(eq(retransformJobs.id, unfinished.id))
+      .returning();
+    return resumed;
+  }
+
+  if (unfinished) {
+    logger.info({ jobId: unfinished.id }, 'Re-transform restart requested — abandoning unfinished job');
+    await db
+      .update(retransformJobs)
+      .set({ status: 'interrupted', errorMessage: 'Superseded by a restarted job', updatedAt: new Date() })
+      .where(eq(retransformJobs.id, unfinished.id));
+  }
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(rawResponses)
+    .where(originatingSystem ? eq(rawResponses.originatingSystem, originatingSystem) : undefined);
+
+  const now = new Date();
+  const [created] = await db
+    .insert(retransformJobs)
+    .values({
+      status: 'running',
+      originatingSystem,
+      batchSize,
+      startedAt: now,
+      updatedAt: now,
+      totalRows: count,
+    })
+    .returning();
+  return created;
+}
+
+/**
+ * Transform and upsert one batch with a single multi-row statement. If the
+ * statement fails (e.g. one malformed record), retry row by row so a single
+ * bad record doesn't block the rest of the batch.
+ */
+async function upsertBatch(
+  batch: Array<{ listingKey: string; rawData: unknown }>,
+): Promise<{ updated: number; errors: number }> {
+  const logger = getLogger();
+  const rows: NewProperty[] = [];
+  let errors = 0;
+
+  for (const { listingKey, rawData } of batch) {
+    try {
+      rows.push(transformProperty(rawData as MlsGridPropertyRecord));
+    } catch (err) {
+      errors++;
+      logger.warn({ err, listingKey }, 'Re-transform: mapper failed for record — skipping');
+    }
+  }
+
+  if (rows.length === 0) return { updated: 0, errors };
+
+  try {
+    return { updated: await upsertRows(rows), errors };
+  } catch (err) {
+    logger.warn({ err, rows: rows.length }, 'Re-transform: batch upsert failed — retrying row by row');
+  }
+
+  let updated = 0;
+  for (const row of rows) {
+    try {
+      updated += await upsertRows([row]);
+    } catch (err) {
+      errors++;
+      logger.warn({ err, listingKey: row.listingKey }, 'Re-transform: upsert failed for record — skipping');
+    }
+  }
+  return { updated, errors };
+}
+
+/**
+ * Upsert transformed rows, overwriting mapped columns from EXCLUDED but keeping
+ * PRESERVED_COLUMNS. Rows the replication loop has already moved past (the
+ * stored row is newer than the raw snapshot) are left alone, except hidden
+ * listings whose modification_ts was bumped by the soft delete itself.
+ * Returns the number of rows written.
+ */
+async function upsertRows(rows: NewProperty[]): Promise<number> {
+  const db = getDb();
+  const set = excludedSet(properties, Object.keys(rows[0]).filter((key) => !PRESERVED_COLUMNS.has(key)));
+
+  let written = 0;
+  for (const chunk of chunkRows(rows)) {
+    const result = await db
+      .insert(properties)
+      .values(chunk)
+      .onConflictDoUpdate({
+        target: properties.listingKey,
+        set,
+        where: or(
+          sql`${properties.modificationTs} <= excluded.modification_ts`,
+          eq(properties.mlgCanView, false),
+        ),
+      })
+      .returning({ listingKey: properties.listingKey });
+    written += result.length;
+  }
+
+  return written;
+}
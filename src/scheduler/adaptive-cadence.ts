@@ -0,0 +1,147 @@
+import { getEnv, getCadenceBounds, getConfiguredCadenceSec, setAdaptiveCadence } from '../config/env.js';
+import { getRateLimiter } from '../lib/rate-limiter.js';
+import { getLogger } from '../lib/logger.js';
+import type { ResourceType } from '../api/mlsgrid-client.js';
+
+/**
+ * Adaptive replication cadence (CADENCE_MODE=adaptive).
+ *
+ * Each (originating system, resource) loop keeps its own learned base interval,
+ * aimed at cycles that return about CADENCE_TARGET_RECORDS records: after each
+ * cycle it's scaled by target / records returned — an empty or near-empty cycle
+ * lengthens it by at most half, a busy one at most halves it — always within
+ * the resource's CADENCE_*_MIN/MAX bounds. The cadence actually waited is that
+ * base scaled by the time-of-day profile for the current hour in JOB_TIMEZONE
+ * and stretched once more than half the daily API soft cap has been spent, then
+ * clamped to the bounds again. It's recomputed after every successful cycle and
+ * published through getCadenceSec() (and the leader's worker_instances row, for
+ * standbys), so health staleness follows it and an admin cadence override still
+ * wins.
+ */
+
+// Per-cycle limits on how far the base interval moves
+const MAX_GROWTH = 1.5;
+const MAX_SHRINK = 0.5;
+
+// Daily budget pacing: no stretch below this share of the daily soft cap, then
+// linearly up to BUDGET_MAX_STRETCH at the cap
+const BUDGET_PACING_FROM = 0.5;
+const BUDGET_MAX_STRETCH = 5;
+
+export interface AdaptiveCadenceState {
+  originatingSystem: string;
+  resource: ResourceType;
+  baseSec: number;
+  cadenceSec: number;
+  minSec: number;
+  maxSec: number;
+  lastRecords: number;
+  timeOfDayFactor: number;
+  budgetFactor: number;
+  updatedAt: Date;
+}
+
+export function createAdaptiveCadence() {
+  const logger = getLogger();
+  // Keyed like the scheduler's loops, e.g. "actris:Property"
+  const states = new Map<string, AdaptiveCadenceState>();
+
+  return {
+    /** Feed a completed cycle's record count and publish the loop's next cadence. */
+    async recordCycle(originatingSystem: string, resource: ResourceType, records: number): Promise<number> {
+      const key = `${originatingSystem}:${resource}`;
+      const bounds = getCadenceBounds(resource);
+      const { minSec, maxSec } = bounds;
+      const previous = states.get(key)?.baseSec ?? getConfiguredCadenceSec(resource);
+      const baseSec = nextBaseSec(previous, records, getEnv().CADENCE_TARGET_RECORDS, bounds);
+
+      const timeOfDayFactor = getTimeOfDayFactor(new Date());
+      const budgetFactor = await getBudgetFactor();
+      const cadenceSec = Math.round(clamp(baseSec * timeOfDayFactor * budgetFactor, minSec, maxSec));
+
+      states.set(key, {
+        originatingSystem,
+        resource,
+        baseSec,
+        cadenceSec,
+        minSec,
+        maxSec,
+        lastRecords: records,
+        timeOfDayFactor,
+        budgetFactor,
+        updatedAt: new Date(),
+      });
+      setAdaptiveCadence(originatingSystem, resource, cadenceSec);
+      logger.debug({ originatingSystem, resource, records, baseSec, timeOfDayFactor, budgetFactor, cadenceSec }, 'Adaptive cadence updated');
+      return cadenceSec;
+    },
+
+    getState(): Record<string, AdaptiveCadenceState> {
+      return Object.fromEntries([...states].map(([key, state]) => [key, { ...state }]));
+    },
+
+    /** Drop learned intervals and fall back to the configured cadences. */
+    reset(): void {
+      for (const { originatingSystem, resource } of states.values()) setAdaptiveCadence(originatingSystem, resource, null);
+      states.clear();
+    },
+  };
+}
+
+export type AdaptiveCadence = ReturnType<typeof createAdaptiveCadence>;
+
+/**
+ * Interval factor for the local hour of `at` in JOB_TIMEZONE, from
+ * CADENCE_PROFILE_WEEKEND on Saturday and Sunday, CADENCE_PROFILE_WEEKDAY otherwise.
+ * Hours no range covers use 1; the first matching range wins.
+ */
+export function getTimeOfDayFactor(at: Date): number {
+  const env = getEnv();
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: env.JOB_TIMEZONE,
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const weekday = parts.find((p) => p.type === 'weekday')?.value;
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value);
+
+  const profile = weekday === 'Sat' || weekday === 'Sun' ? env.CADENCE_PROFILE_WEEKEND : env.CADENCE_PROFILE_WEEKDAY;
+  for (const range of profile.split(',')) {
+    const match = /^(\d{1,2})-(\d{1,2}):(\d+(?:\.\d+)?)$/.exec(range.trim());
+    if (match && hour >= Number(match[1]) && hour < Number(match[2])) return Number(match[3]);
+  }
+  return 1;
+}
+
+/** Next base interval after a cycle that returned `records`, within the bounds. */
+export function nextBaseSec(
+  previousSec: number,
+  records: number,
+  targetRecords: number,
+  { minSec, maxSec }: { minSec: number; maxSec: number },
+): number {
+  const step = records > 0 ? clamp(targetRecords / records, MAX_SHRINK, MAX_GROWTH) : MAX_GROWTH;
+  return clamp(previousSec * step, minSec, maxSec);
+}
+
+/** Stretch factor for the share of the daily API soft cap used in the last 24h. */
+export function getBudgetFactorFor(usedShare: number): number {
+  if (usedShare <= BUDGET_PACING_FROM) return 1;
+  const progress = Math.min((usedShare - BUDGET_PACING_FROM) / (1 - BUDGET_PACING_FROM), 1);
+  return 1 + progress * (BUDGET_MAX_STRETCH - 1);
+}
+
+async function getBudgetFactor(): Promise<number> {
+  try {
+    const { lastDay } = (await getRateLimiter().getUsageStats()).api;
+    return getBudgetFactorFor(lastDay.current / lastDay.softLimit);
+  } catch (err) {
+    getLogger().warn({ err }, 'Failed to read API budget for adaptive cadence');
+    return 1;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -1,4 +1,4 @@
-import { eq, and, lt, isNotNull, sql, inArray } from 'drizzle-orm';
+import { eq, and, lt, inArray, isNotNull, sql } from 'drizzle-orm';
 import { getDb } from '../db/connection.js';
 import { properties } from '../db/schema/properties.js';
 import { media } from '../db/schema/media.js';
@@ -7,328 +7,663 @@ import { unitTypes } from '../db/schema/unit-types.js';
 import { rawResponses } from '../db/schema/raw-responses.js';
 import { priceHistory, statusHistory, propertyChangeLog } from '../db/schema/history.js';
 import { replicationRuns } from '../db/schema/monitoring.js';
-import { runReplicationCycle } from '../pipeline/replication-cycle.js';
+import { runReplicationCycle, determineRunMode, HWM_RUN_MODES } from '../pipeline/replication-cycle.js';
+import { runReconciliation, RECONCILED_RESOURCES } from '../pipeline/reconciliation.js';
+import { retryDueDeadLetters } from '../pipeline/dead-letter.js';
+import { buildDeletedEvent, writeChangeEvents, pruneChangeEvents } from '../pipeline/change-events.js';
+import { deliverDueWebhooks } from '../alerts/webhooks.js';
+import { runNotificationDispatch } from '../alerts/notification-dispatcher.js';
+import { createEmailChannel } from '../alerts/email.js';
+import { runOpsAlertPass, recordBackupOutcome } from '../alerts/ops-alerts.js';
 import { runDatabaseBackup, pruneBackups } from '../backup/db-backup.js';
 import { createMediaDownloader, getMediaDownloader } from '../pipeline/media-downloader.js';
-import { createRateLimiter } from '../lib/rate-limiter.js';
+import { syncMetadata } from '../metadata/metadata-sync.js';
+import { createRateLimiter, withRequestPriority } from '../lib/rate-limiter.js';
 import { createR2Client } from '../storage/r2-client.js';
-import { getEnv } from '../config/env.js';
+import { getEnv, getOriginatingSystems, getCadenceSec, setCadenceOverride } from '../config/env.js';
 import { getLogger } from '../lib/logger.js';
+import { createLeaderElection, listWorkerInstances } from './leader-election.js';
+import { createAdaptiveCadence } from './adaptive-cadence.js';
+import {
+  recordJobRun,
+  recordSkippedJobRun,
+  markInterruptedJobRuns,
+  scheduleJobs,
+  type MaintenanceJob,
+  type JobTrigger,
+} from './jobs.js';
 import type { ResourceType } from '../api/mlsgrid-client.js';
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+const RESOURCE_TYPES: ResourceType[] = ['Property', 'Member', 'Office', 'OpenHouse', 'Lookup'];
+
 interface ResourceSchedulerState {
+  originatingSystem: string;
+  resource: ResourceType;
   running: boolean;
   lastCycleEnd: Date | null;
+  paused: boolean; // set through the admin API; the in-flight cycle (if any) still finishes
+  triggered: boolean; // start the next cycle without waiting out the cadence
+}
+
+/**
+ * Thrown by the scheduler control methods (pause, trigger, startJob, …) for
+ * requests that can't be carried out in the scheduler's current state.
+ */
+export class SchedulerControlError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'not_started' | 'not_leader' | 'conflict',
+  ) {
+    super(message);
+    this.name = 'SchedulerControlError';
+  }
+}
+
+/**
+ * Scheduler state key for an (originating system, resource) pair, e.g. "actris:Property".
+ */
+export function resourceStateKey(originatingSystem: string, resource: ResourceType): string {
+  return `${originatingSystem}:${resource}`;
 }
 
 export function createScheduler() {
   const logger = getLogger();
   const env = getEnv();
-
-  const resourceStates: Record<ResourceType, ResourceSchedulerState> = {
-    Property: { running: false, lastCycleEnd: null },
-    Member: { running: false, lastCycleEnd: null },
-    Office: { running: false, lastCycleEnd: null },
-    OpenHouse: { running: false, lastCycleEnd: null },
-    Lookup: { running: false, lastCycleEnd: null },
-  };
+  const originatingSystems = getOriginatingSystems();
+
+  // One state entry (and one loop) per (system, resource) pair
+  const resourceStates: Record<string, ResourceSchedulerState> = {};
+  for (const originatingSystem of originatingSystems) {
+    for (const resource of RESOURCE_TYPES) {
+      resourceStates[resourceStateKey(originatingSystem, resource)] = {
+        originatingSystem,
+        resource,
+        running: false,
+        lastCycleEnd: null,
+        paused: false,
+        triggered: false,
+      };
+    }
+  }
 
   let isRunning = false;
   let initialImportComplete = false;
-
-  const cadences: Record<ResourceType, number> = {
-    Property: env.CADENCE_PROPERTY * 1000,
-    Member: env.CADENCE_MEMBER * 1000,
-    Office: env.CADENCE_OFFICE * 1000,
-    OpenHouse: env.CADENCE_OPEN_HOUSE * 1000,
-    Lookup: env.CADENCE_LOOKUP * 1000,
-  };
+  let resourceLoopsStarted = false;
+  const activeJobs = new Set<MaintenanceJob>();
+  let stopCronJobs: (() => void) | null = null;
+  const adaptiveCadence = env.CADENCE_MODE === 'adaptive' ? createAdaptiveCadence() : null;
+
+  // Leadership: each election starts a new term; loops belong to the term that started them
+  let leading = false;
+  let leaderTerm = 0;
+  const isLeading = (term: number) => isRunning && leading && term === leaderTerm;
+
+  // Aborted on demotion so this term's in-flight cycles stop between pages
+  let termAbort = new AbortController();
+  const cycleOptions = () => ({ instanceId: election.instanceId, signal: termAbort.signal });
+
+  const election = createLeaderElection({
+    onElected() {
+      leading = true;
+      termAbort = new AbortController();
+      const term = ++leaderTerm;
+      lead(term).catch((err) => logger.error({ err, term }, 'Leader startup failed'));
+    },
+    onDemoted(reason) {
+      leading = false;
+      resourceLoopsStarted = false;
+      termAbort.abort(new Error(`Replica stopped leading: ${reason}`));
+      stopCronJobs?.();
+      stopCronJobs = null;
+      try {
+        getMediaDownloader().stop();
+      } catch {
+        // Never started
+      }
+    },
+    cadences: getCadences,
+  });
+
+  // Effective cadence of every loop, keyed like resourceStates
+  function getCadences(): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(resourceStates).map(([key, state]) => [key, getCadenceSec(state.resource, state.originatingSystem)]),
+    );
+  }
 
   /**
-   * Run a single resource's replication loop.
+   * Run a single (system, resource) replication loop.
    * Non-overlapping: waits cadence AFTER completion before starting next cycle.
+   * In adaptive mode each completed cycle's record count feeds the next cadence.
    */
-  async function runResourceLoop(resource: ResourceType): Promise<void> {
-    const state = resourceStates[resource];
+  async function runResourceLoop(originatingSystem: string, resource: ResourceType, term: number): Promise<void> {
+    const state = resourceStates[resourceStateKey(originatingSystem, resource)];
 
-    while (isRunning) {
-      if (state.running) {
+    while (isLeading(term)) {
+      if (state.running || state.paused) {
         await sleep(1000);
         continue;
       }
 
       state.running = true;
+      state.triggered = false;
       try {
-        const result = await runReplicationCycle(resource);
+        const result = await runReplicationCycle(resource, originatingSystem, cycleOptions());
         state.lastCycleEnd = new Date();
 
         logger.info(
           {
             resource,
+            originatingSystem,
             status: result.status,
             records: result.totalRecords,
             hwmEnd: result.hwmEnd?.toISOString(),
           },
           `${resource} cycle completed`,
         );
+
+        if (adaptiveCadence) await adaptiveCadence.recordCycle(originatingSystem, resource, result.totalRecords);
+      } catch (err) {
+        logger.error({ err, resource, originatingSystem }, `${resource} cycle failed`);
+      }
+
+      // Dead-letter retries run inside the same slot, so an old payload never races this pair's newer writes
+      try {
+        if (isLeading(term)) await retryDueDeadLetters(resource, originatingSystem);
       } catch (err) {
-        logger.error({ err, resource }, `${resource} cycle failed`);
+        logger.error({ err, resource, originatingSystem }, `${resource} dead-letter retry failed`);
       } finally {
         state.running = false;
       }
 
-      // Wait cadence after completion
-      if (isRunning) {
-        const cadence = cadences[resource];
-        logger.debug({ resource, cadenceMs: cadence }, `Waiting before next ${resource} cycle`);
-        await sleep(cadence);
+      // Wait cadence after completion. Checked every second so a trigger or a
+      // cadence change from the admin API takes effect without waiting this out.
+      const cycleEnd = Date.now();
+      logger.debug(
+        { resource, originatingSystem, cadenceMs: getCadenceSec(resource, originatingSystem) * 1000 },
+        `Waiting before next ${resource} cycle`,
+      );
+      while (isLeading(term) && !state.triggered && Date.now() - cycleEnd < getCadenceSec(resource, originatingSystem) * 1000) {
+        await sleep(Math.min(1000, cycleEnd + getCadenceSec(resource, originatingSystem) * 1000 - Date.now()));
       }
     }
   }
 
+  function assertLeading(): void {
+    if (!isRunning) {
+      throw new SchedulerControlError('Scheduler is not running', 'not_started');
+    }
+    if (!leading) {
+      throw new SchedulerControlError(`This replica is a standby; send the request to the leader`, 'not_leader');
+    }
+  }
+
+  function getResourceState(originatingSystem: string, resource: string): ResourceSchedulerState {
+    const state = resourceStates[resourceStateKey(originatingSystem, resource as ResourceType)];
+    if (!state) {
+      throw new SchedulerControlError(`Unknown resource loop ${originatingSystem}:${resource}`, 'not_found');
+    }
+    return state;
+  }
+
   /**
-   * Run the initial import in dependency order:
-   * Property → (Member + Office in parallel) → OpenHouse
-   * Lookup can run at any time.
+   * Run the initial import for every configured originating system.
+   * Systems are imported one after another so their imports don't compete
+   * for the shared API budget.
    */
-  async function runInitialImport(): Promise<void> {
-    logger.info('Starting initial import sequence');
+  async function runInitialImport(term: number): Promise<void> {
+    logger.info({ originatingSystems }, 'Starting initial import sequence');
 
-    const db = getDb();
+    await takeOverRunningCycles(term);
+    if (!isLeading(term)) return;
+
+    for (const originatingSystem of originatingSystems) {
+      await runInitialImportForSystem(originatingSystem, term);
+      if (!isLeading(term)) return;
+    }
 
-    // Clean up stale 'running' records from previous server restarts
-    const staleRunning = await db
-      .select({ id: replicationRuns.id })
-      .from(replicationRuns)
-      .where(eq(replicationRuns.status, 'running'));
+    initialImportComplete = true;
+    logger.info('Initial import sequence complete');
+  }
 
-    if (staleRunning.length > 0) {
-      logger.warn(
-        { count: staleRunning.length },
-        'Found stale running records from previous restarts — marking as partial',
-      );
-      for (const run of staleRunning) {
+  /**
+   * Settle replication/initial-import runs still marked 'running' before this
+   * term starts any. Runs of replicas that are gone (a restart, a crash) are
+   * marked partial; their nextLink checkpoints are kept, so they resume. Runs
+   * of a live replica — a previous leader winding down after losing the lock,
+   * or this one's previous term — are waited for, so two cycles never page
+   * through the same cursor. Resync runs of gone replicas (or of the CLI, which
+   * records none) are marked failed; a CLI resync still going sets its own
+   * status when it finishes.
+   */
+  async function takeOverRunningCycles(term: number): Promise<void> {
+    const db = getDb();
+    while (isLeading(term)) {
+      const running = await db
+        .select({ id: replicationRuns.id, instanceId: replicationRuns.instanceId, runMode: replicationRuns.runMode })
+        .from(replicationRuns)
+        .where(and(eq(replicationRuns.status, 'running'), inArray(replicationRuns.runMode, [...HWM_RUN_MODES, 'resync'])));
+      if (running.length === 0) return;
+
+      const alive = new Set((await listWorkerInstances()).filter((w) => w.alive).map((w) => w.instanceId));
+      alive.add(election.instanceId);
+      const isOrphaned = (run: (typeof running)[number]) => !run.instanceId || !alive.has(run.instanceId);
+      const orphanedCycles = running.filter((run) => run.runMode !== 'resync' && isOrphaned(run)).map((run) => run.id);
+      const orphanedResyncs = running.filter((run) => run.runMode === 'resync' && isOrphaned(run)).map((run) => run.id);
+
+      if (orphanedCycles.length > 0) {
+        logger.warn({ count: orphanedCycles.length }, 'Found running records left by stopped replicas — marking as partial');
+        await db
+          .update(replicationRuns)
+          .set({ status: 'partial', completedAt: new Date(), errorMessage: 'Worker stopped before completion' })
+          .where(and(inArray(replicationRuns.id, orphanedCycles), eq(replicationRuns.status, 'running')));
+      }
+      if (orphanedResyncs.length > 0) {
+        logger.warn({ count: orphanedResyncs.length }, 'Found resyncs left running by stopped replicas — marking as failed');
         await db
           .update(replicationRuns)
-          .set({
-            status: 'partial',
-            completedAt: new Date(),
-            errorMessage: 'Server restarted before completion',
-          })
-          .where(eq(replicationRuns.id, run.id));
+          .set({ status: 'failed', completedAt: new Date(), errorMessage: 'Worker stopped before the resync completed' })
+          .where(and(inArray(replicationRuns.id, orphanedResyncs), eq(replicationRuns.status, 'running')));
       }
+
+      const live = running.filter((run) => run.runMode !== 'resync' && !isOrphaned(run));
+      if (live.length === 0) return;
+
+      logger.info({ count: live.length }, 'Waiting for cycles still running on another replica (or a previous term) to stop');
+      await sleep(env.LEADER_HEARTBEAT_INTERVAL_SEC * 1000);
     }
+  }
 
-    // Check if initial import is needed by looking for any completed or partial runs
-    const existingRuns = await db
-      .select({ id: replicationRuns.id })
-      .from(replicationRuns)
-      .where(inArray(replicationRuns.status, ['completed', 'partial']))
-      .limit(1);
+  /**
+   * Run one system's initial import in dependency order:
+   * Property → (Member + Office in parallel) → OpenHouse
+   * Lookup can run at any time.
+   *
+   * Only resources that still need an initial import are run. An import that was
+   * interrupted mid-pagination continues from its saved nextLink cursor.
+   */
+  async function runInitialImportForSystem(originatingSystem: string, term: number): Promise<void> {
+    const pending = new Set<ResourceType>();
+    for (const resource of RESOURCE_TYPES) {
+      const plan = await determineRunMode(resource, originatingSystem);
+      if (plan.isInitialImport) {
+        pending.add(resource);
+        if (plan.resume) {
+          logger.info(
+            { originatingSystem, resource, resumedFromRunId: plan.resume.runId, pagesCompleted: plan.resume.pagesCompleted },
+            'Interrupted initial import found — will continue from saved cursor',
+          );
+        }
+      }
+    }
 
-    if (existingRuns.length > 0) {
-      logger.info('Previous completed/partial runs found — skipping initial import sequence');
-      initialImportComplete = true;
+    if (pending.size === 0) {
+      logger.info(
+        { originatingSystem },
+        'Initial import already complete — skipping initial import sequence',
+      );
       return;
     }
 
+    logger.info({ originatingSystem, resources: [...pending] }, 'Initial import needed');
+
     // Step 1: Property (must complete first — parent for FKs)
-    logger.info('Initial import: Property');
-    await runReplicationCycle('Property');
+    if (pending.has('Property')) {
+      logger.info({ originatingSystem }, 'Initial import: Property');
+      await runReplicationCycle('Property', originatingSystem, cycleOptions());
+    }
+
+    if (!isLeading(term)) return;
 
     // Step 2: Member + Office in parallel (independent of each other)
-    logger.info('Initial import: Member + Office (parallel)');
-    await Promise.all([
-      runReplicationCycle('Member'),
-      runReplicationCycle('Office'),
-    ]);
+    const memberAndOffice = (['Member', 'Office'] as const).filter((r) => pending.has(r));
+    if (memberAndOffice.length > 0) {
+      logger.info({ originatingSystem, resources: memberAndOffice }, 'Initial import: Member + Office (parallel)');
+      await Promise.all(memberAndOffice.map((r) => runReplicationCycle(r, originatingSystem, cycleOptions())));
+    }
+
+    if (!isLeading(term)) return;
 
     // Step 3: OpenHouse (depends on Property)
-    logger.info('Initial import: OpenHouse');
-    await runReplicationCycle('OpenHouse');
+    if (pending.has('OpenHouse')) {
+      logger.info({ originatingSystem }, 'Initial import: OpenHouse');
+      await runReplicationCycle('OpenHouse', originatingSystem, cycleOptions());
+    }
+
+    if (!isLeading(term)) return;
 
     // Step 4: Lookup (independent, can run anytime)
-    logger.info('Initial import: Lookup');
-    await runReplicationCycle('Lookup');
+    if (pending.has('Lookup')) {
+      logger.info({ originatingSystem }, 'Initial import: Lookup');
+      await runReplicationCycle('Lookup', originatingSystem, cycleOptions());
+    }
 
-    initialImportComplete = true;
-    logger.info('Initial import sequence complete');
+    logger.info({ originatingSystem }, 'Initial import complete for originating system');
   }
 
   /**
-   * Daily cleanup job: hard-delete records where deleted_at > 30 days.
+   * Cleanup job: hard-delete records where deleted_at > 30 days.
    */
   async function runCleanupJob(): Promise<void> {
     const db = getDb();
     const logger = getLogger();
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
+    // Find properties to hard-delete
+    const toDelete = await db
+      .select({ listingKey: properties.listingKey, originatingSystem: properties.originatingSystem })
+      .from(properties)
+      .where(
+        and(
+          isNotNull(properties.deletedAt),
+          lt(properties.deletedAt, thirtyDaysAgo),
+        ),
+      );
+
+    if (toDelete.length === 0) {
+      logger.info('Cleanup job: no records to hard-delete');
+      return;
+    }
+
+    const keys = toDelete.map((r) => r.listingKey);
+    logger.info({ count: keys.length }, 'Cleanup job: hard-deleting old soft-deleted records');
+
+    // Cascade delete across all related tables; the 'deleted' event commits with it
+    for (const { listingKey: key, originatingSystem } of toDelete) {
+      await db.transaction(async (tx) => {
+        await tx.delete(propertyChangeLog).where(eq(propertyChangeLog.listingKey, key));
+        await tx.delete(statusHistory).where(eq(statusHistory.listingKey, key));
+        await tx.delete(priceHistory).where(eq(priceHistory.listingKey, key));
+        await tx.delete(media).where(eq(media.listingKey, key));
+        await tx.delete(rooms).where(eq(rooms.listingKey, key));
+        await tx.delete(unitTypes).where(eq(unitTypes.listingKey, key));
+        await tx.delete(rawResponses).where(eq(rawResponses.listingKey, key));
+        await tx.delete(properties).where(eq(properties.listingKey, key));
+        await writeChangeEvents(tx, [
+          buildDeletedEvent({ resourceType: 'Property', resourceKey: key, originatingSystem, modificationTs: null }),
+        ]);
+      });
+    }
+
+    logger.info({ count: keys.length }, 'Cleanup job: hard-delete complete');
+  }
+
+  /**
+   * Database backup to R2. Old backups are pruned by the backup_prune job
+   * (hourly for 24h → daily for 30d → monthly forever).
+   */
+  async function runBackupJob(): Promise<void> {
     try {
-      // Find properties to hard-delete
-      const toDelete = await db
-        .select({ listingKey: properties.listingKey })
-        .from(properties)
-        .where(
-          and(
-            isNotNull(properties.deletedAt),
-            lt(properties.deletedAt, thirtyDaysAgo),
-          ),
-        );
+      logger.info('Database backup: starting');
+      const result = await runDatabaseBackup();
+      logger.info({ key: result.key, durationMs: result.durationMs }, 'Database backup: upload complete');
+      recordBackupOutcome(null);
+    } catch (err) {
+      recordBackupOutcome(err);
+      throw err;
+    }
+  }
 
-      if (toDelete.length === 0) {
-        logger.info('Cleanup job: no records to hard-delete');
-        return;
-      }
+  async function runBackupPruneJob(): Promise<void> {
+    const pruned = await pruneBackups();
+    logger.info({ pruned }, 'Database backup: old backups pruned');
+  }
 
-      const keys = toDelete.map((r) => r.listingKey);
-      logger.info({ count: keys.length }, 'Cleanup job: hard-deleting old soft-deleted records');
-
-      // Cascade delete across all related tables
-      for (const key of keys) {
-        await db.delete(propertyChangeLog).where(eq(propertyChangeLog.listingKey, key));
-        await db.delete(statusHistory).where(eq(statusHistory.listingKey, key));
-        await db.delete(priceHistory).where(eq(priceHistory.listingKey, key));
-        await db.delete(media).where(eq(media.listingKey, key));
-        await db.delete(rooms).where(eq(rooms.listingKey, key));
-        await db.delete(unitTypes).where(eq(unitTypes.listingKey, key));
-        await db.delete(rawResponses).where(eq(rawResponses.listingKey, key));
-        await db.delete(properties).where(eq(properties.listingKey, key));
+  /**
+   * Key reconciliation of every (system, resource) pair, one at a time. Each
+   * pair is reconciled in its loop's slot (marked running), so it never
+   * overlaps that pair's replication; paused pairs are left alone.
+   */
+  async function runReconciliationJob(): Promise<void> {
+    if (!resourceLoopsStarted) {
+      logger.info('Reconciliation skipped — initial import not complete');
+      return;
+    }
+
+    let failed = 0;
+    for (const state of Object.values(resourceStates)) {
+      if (!isRunning || !leading) break;
+      if (!RECONCILED_RESOURCES.includes(state.resource) || state.paused) continue;
+      while (state.running) await sleep(1000);
+
+      state.running = true;
+      try {
+        await withRequestPriority('backfill', () => runReconciliation(state.resource, state.originatingSystem));
+      } catch (err) {
+        failed++;
+        logger.error({ err, resource: state.resource, originatingSystem: state.originatingSystem }, `${state.resource} reconciliation failed`);
+      } finally {
+        state.running = false;
       }
+    }
 
-      logger.info({ count: keys.length }, 'Cleanup job: hard-delete complete');
-    } catch (err) {
-      logger.error({ err }, 'Cleanup job failed');
+    if (failed > 0) throw new Error(`${failed} reconciliation(s) failed`);
+  }
+
+  /**
+   * Refresh materialized views. Skips if the view doesn't exist (Phase 2 creates it).
+   */
+  async function runMaterializedViewRefreshJob(): Promise<void> {
+    const db = getDb();
+    const result = await db.execute<{ exists: boolean }>(sql`
+      SELECT EXISTS (
+        SELECT 1 FROM pg_matviews WHERE matviewname = 'search_suggestions'
+      ) as exists
+    `);
+
+    if (result.rows[0]?.exists) {
+      await db.execute(sql`REFRESH MATERIALIZED VIEW CONCURRENTLY search_suggestions`);
+      logger.info('Refreshed search_suggestions materialized view');
     }
   }
 
-  return {
-    async start(): Promise<void> {
-      isRunning = true;
+  const jobRunners: Record<MaintenanceJob, () => Promise<void>> = {
+    media_recovery: () => getMediaDownloader().recoverFailedMedia(),
+    cleanup: async () => {
+      await runCleanupJob();
+      await pruneChangeEvents();
+    },
+    backup: runBackupJob,
+    backup_prune: runBackupPruneJob,
+    reconciliation: runReconciliationJob,
+    materialized_view_refresh: runMaterializedViewRefreshJob,
+  };
 
-      // Initialize shared services
-      createRateLimiter();
-      createR2Client();
-      createMediaDownloader(); // Initialize singleton (kept for potential fallback use)
+  /**
+   * Run a maintenance job, recorded in job_runs, unless it's already running
+   * (a scheduled run and an admin request never overlap).
+   */
+  async function runJob(job: MaintenanceJob, trigger: JobTrigger): Promise<void> {
+    if (activeJobs.has(job)) {
+      throw new SchedulerControlError(`Job ${job} is already running`, 'conflict');
+    }
+    activeJobs.add(job);
+    try {
+      await recordJobRun(job, trigger, election.instanceId, jobRunners[job]);
+    } finally {
+      activeJobs.delete(job);
+    }
+  }
+
+  /** Cron run of a job; skipped (and recorded as such) while the previous run is still going. */
+  async function runScheduledJob(job: MaintenanceJob): Promise<void> {
+    if (activeJobs.has(job)) {
+      logger.info({ job }, 'Scheduled job skipped — already running');
+      await recordSkippedJobRun(job, 'schedule', election.instanceId, 'Previous run still in progress');
+      return;
+    }
+    logger.info({ job }, 'Scheduled job: starting');
+    await runJob(job, 'schedule');
+  }
 
-      // Initialize rate limiter from DB history (for restart recovery)
-      // This is a best-effort initialization — empty counters are safe
+  /**
+   * Everything only the leader does: replication, media, jobs and the outbox
+   * loops. Runs once per leadership term; every loop ends when its term does
+   * (stepping down, or stop()), after finishing the work in hand.
+   */
+  async function lead(term: number): Promise<void> {
+    // Initialize rate limiter from DB history (for restart recovery, and to count
+    // requests a previous leader made). Best-effort — empty counters are safe
+    try {
+      const db = getDb();
+      const oneDayAgo = new Date(Date.now() - 86_400_000);
+      const oneHourAgo = new Date(Date.now() - 3_600_000);
+
+      // Load recent API request timestamps
+      const recentRequests = await db
+        .select({ requestedAt: sql<string>`requested_at` })
+        .from(sql`replication_requests`)
+        .where(sql`requested_at > ${oneDayAgo}`);
+
+      // Load media download bytes from the rolling 60-minute window
+      const recentMedia = await db
+        .select({
+          downloadedAt: sql<string>`downloaded_at`,
+          bytes: sql<number>`file_size_bytes`,
+        })
+        .from(sql`media_downloads`)
+        .where(sql`downloaded_at >= ${oneHourAgo} AND status = 'success'`);
+
+      const rateLimiter = createRateLimiter();
+      rateLimiter.initializeFromHistory(
+        recentRequests.map((r) => new Date(r.requestedAt)),
+        recentMedia
+          .filter((r) => r.bytes != null)
+          .map((r) => ({ timestamp: new Date(r.downloadedAt), bytes: r.bytes })),
+      );
+    } catch (err) {
+      logger.warn({ err }, 'Failed to initialize rate limiter from history (starting fresh)');
+    }
+
+    // Job runs a previous leader never finished
+    try {
+      const interrupted = await markInterruptedJobRuns(election.instanceId);
+      if (interrupted > 0) logger.warn({ interrupted }, 'Marked job runs left running by a previous leader as interrupted');
+    } catch (err) {
+      logger.warn({ err }, 'Failed to mark interrupted job runs');
+    }
+
+    // Evaluate ops alert rules; new and resolved problems go to OPS_ALERT_WEBHOOK_URL.
+    // Started before the initial import, which makes the most API calls and is the
+    // likeliest to run into 429s or failing runs.
+    (async () => {
+      while (isLeading(term)) {
+        try {
+          await runOpsAlertPass();
+        } catch (err) {
+          logger.error({ err }, 'Ops alert pass failed');
+        }
+        await sleep(env.OPS_ALERT_INTERVAL_SEC * 1000);
+      }
+    })();
+
+    // Media is primarily downloaded inline during record processing (URLs expire ~11h).
+    // The decoupled media download loop runs as a fallback to process any
+    // pending_download rows from previous runs or edge cases.
+    const downloader = getMediaDownloader();
+    await downloader.start();
+
+    // Recover any failed/expired media from previous runs before starting replication.
+    // This fetches fresh MediaURLs from the API for expired items and re-downloads them.
+    // Rate limits are honoured automatically via the shared downloadMedia()/fetchPage() helpers.
+    try {
+      await runJob('media_recovery', 'startup');
+    } catch (err) {
+      logger.error({ err }, 'Startup media recovery failed');
+    }
+
+    // Schedule $metadata snapshots. Started before the initial import so drift
+    // found while importing can be matched against the declared fields.
+    (async () => {
+      while (isLeading(term)) {
+        try {
+          await syncMetadata();
+        } catch (err) {
+          logger.error({ err }, 'MLS Grid $metadata sync failed');
+        }
+        await sleep(env.CADENCE_METADATA * 1000);
+      }
+    })();
+
+    // Run initial import if needed. Retried while still leading — the resource
+    // loops must not start before it completes.
+    while (isLeading(term)) {
       try {
-        const db = getDb();
-        const oneDayAgo = new Date(Date.now() - 86_400_000);
-        const oneHourAgo = new Date(Date.now() - 3_600_000);
-
-        // Load recent API request timestamps
-        const recentRequests = await db
-          .select({ requestedAt: sql<string>`requested_at` })
-          .from(sql`replication_requests`)
-          .where(sql`requested_at > ${oneDayAgo}`);
-
-        // Load media download bytes from the rolling 60-minute window
-        const recentMedia = await db
-          .select({
-            downloadedAt: sql<string>`downloaded_at`,
-            bytes: sql<number>`file_size_bytes`,
-          })
-          .from(sql`media_downloads`)
-          .where(sql`downloaded_at >= ${oneHourAgo} AND status = 'success'`);
-
-        const rateLimiter = createRateLimiter();
-        rateLimiter.initializeFromHistory(
-          recentRequests.map((r) => new Date(r.requestedAt)),
-          recentMedia
-            .filter((r) => r.bytes != null)
-            .map((r) => ({ timestamp: new Date(r.downloadedAt), bytes: r.bytes })),
-        );
+        await runInitialImport(term);
+        break;
       } catch (err) {
-        logger.warn({ err }, 'Failed to initialize rate limiter from history (starting fresh)');
+        logger.error({ err }, 'Initial import failed — retrying in 60s');
+        await sleep(60_000);
       }
+    }
+    if (!isLeading(term)) return;
 
-      // Media is primarily downloaded inline during record processing (URLs expire ~11h).
-      // The decoupled media download loop runs as a fallback to process any
-      // pending_download rows from previous runs or edge cases.
-      const downloader = getMediaDownloader();
-      await downloader.start();
-
-      // Recover any failed/expired media from previous runs before starting replication.
-      // This fetches fresh MediaURLs from the API for expired items and re-downloads them.
-      // Rate limits are honoured automatically via the shared downloadMedia()/fetchPage() helpers.
-      await downloader.recoverFailedMedia();
-
-      // Run initial import if needed
-      await runInitialImport();
-
-      // Start independent scheduler loops for each resource
-      logger.info('Starting independent resource scheduler loops');
-
-      // Fire-and-forget — each loop runs independently
-      runResourceLoop('Property');
-      runResourceLoop('Member');
-      runResourceLoop('Office');
-      runResourceLoop('OpenHouse');
-      runResourceLoop('Lookup');
-
-      // Schedule periodic media recovery (every 30 minutes) to pick up
-      // expired media that accumulated since the last recovery pass.
-      const MEDIA_RECOVERY_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
-      (async () => {
-        while (isRunning) {
-          await sleep(MEDIA_RECOVERY_INTERVAL_MS);
-          if (isRunning) {
-            try {
-              logger.info('Periodic media recovery: starting');
-              await downloader.recoverFailedMedia();
-            } catch (err) {
-              logger.error({ err }, 'Periodic media recovery failed');
-            }
-          }
+    // Start independent scheduler loops for each (system, resource) pair.
+    // All loops share the single rate limiter — MLS Grid enforces limits per token.
+    logger.info({ originatingSystems }, 'Starting independent resource scheduler loops');
+
+    // Fire-and-forget — each loop runs independently
+    for (const state of Object.values(resourceStates)) {
+      runResourceLoop(state.originatingSystem, state.resource, term);
+    }
+    resourceLoopsStarted = true;
+
+    // Deliver queued webhook events (retries are due according to their backoff)
+    (async () => {
+      while (isLeading(term)) {
+        try {
+          await deliverDueWebhooks();
+        } catch (err) {
+          logger.error({ err }, 'Webhook delivery pass failed');
         }
-      })();
+        await sleep(env.WEBHOOK_DELIVERY_INTERVAL_SEC * 1000);
+      }
+    })();
 
-      // Schedule daily cleanup (runs alongside Lookup cadence)
+    // Email saved-search notifications (instant, or batched into hourly/daily digests)
+    if (env.SMTP_URL) {
+      const emailChannel = createEmailChannel();
       (async () => {
-        while (isRunning) {
-          await sleep(cadences.Lookup); // Once daily
-          if (isRunning) {
-            await runCleanupJob();
+        while (isLeading(term)) {
+          try {
+            await runNotificationDispatch(emailChannel);
+          } catch (err) {
+            logger.error({ err }, 'Notification dispatch pass failed');
           }
+          await sleep(env.NOTIFICATION_DISPATCH_INTERVAL_SEC * 1000);
         }
       })();
+    } else {
+      logger.info('SMTP_URL not set — notification emails disabled');
+    }
 
-      // Schedule hourly database backup to R2 with tiered retention
-      // (hourly for 24h → daily for 30d → monthly forever)
-      if (env.BACKUP_ENABLED) {
-        const DB_BACKUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
-        (async () => {
-          // Delay first backup 5 minutes after startup to let initial import settle
-          await sleep(5 * 60 * 1000);
-
-          while (isRunning) {
-            try {
-              logger.info('Hourly database backup: starting');
-              const result = await runDatabaseBackup();
-              logger.info(
-                { key: result.key, durationMs: result.durationMs },
-                'Hourly database backup: upload complete',
-              );
-
-              const pruned = await pruneBackups();
-              if (pruned > 0) {
-                logger.info({ pruned }, 'Hourly database backup: old backups pruned');
-              }
-            } catch (err) {
-              logger.error({ err }, 'Hourly database backup failed');
-            }
-
-            await sleep(DB_BACKUP_INTERVAL_MS);
-          }
-        })();
-      } else {
-        logger.info('Database backup is disabled (BACKUP_ENABLED=false)');
-      }
+    // Maintenance jobs on their cron schedules (CRON_*, in JOB_TIMEZONE)
+    if (!env.BACKUP_ENABLED) {
+      logger.info('Database backup is disabled (BACKUP_ENABLED=false)');
+    }
+    stopCronJobs?.();
+    stopCronJobs = scheduleJobs((job) => {
+      if (!isLeading(term)) return;
+      runScheduledJob(job).catch((err) => logger.error({ err, job }, 'Scheduled job failed'));
+    });
+  }
+
+  return {
+    async start(): Promise<void> {
+      isRunning = true;
+
+      // Initialize shared services
+      createRateLimiter();
+      createR2Client();
+      createMediaDownloader(); // Initialize singleton (kept for potential fallback use)
+
+      // Only the elected leader replicates; a standby just keeps heartbeating
+      // (and serving /health) until the leader's lock is released
+      await election.start();
     },
 
     async stop(): Promise<void> {
@@ -344,6 +679,9 @@ export function createScheduler() {
         await sleep(1000);
       }
 
+      stopCronJobs?.();
+      stopCronJobs = null;
+
       // Stop media downloader
       try {
         getMediaDownloader().stop();
@@ -351,6 +689,9 @@ export function createScheduler() {
         // Already stopped or never started
       }
 
+      // Release the leader lock so a standby can take over
+      await election.stop();
+
       logger.info('Scheduler stopped');
     },
 
@@ -358,8 +699,114 @@ export function createScheduler() {
       return {
         isRunning,
         initialImportComplete,
-        resources: { ...resourceStates },
+        originatingSystems,
+        resources: Object.fromEntries(
+          Object.entries(resourceStates).map(([key, state]) => [key, { ...state }]),
+        ),
+        cadencesSec: getCadences(),
+        cadenceMode: env.CADENCE_MODE,
+        adaptiveCadence: adaptiveCadence?.getState() ?? null,
+        activeJobs: [...activeJobs],
+        ...election.getState(),
       };
     },
+
+    // ─── Admin controls ──────────────────────────────────────────────────────
+
+    /**
+     * Stop starting new cycles for a (system, resource) loop until resumed.
+     * Pause state lives in the leader's memory, so standbys refuse it, and a
+     * new leader starts with every loop running.
+     */
+    pause(originatingSystem: string, resource: string) {
+      const state = getResourceState(originatingSystem, resource);
+      assertLeading();
+      if (!state.paused) logger.warn({ originatingSystem, resource }, 'Resource loop paused');
+      state.paused = true;
+      state.triggered = false;
+      return { ...state };
+    },
+
+    resume(originatingSystem: string, resource: string) {
+      const state = getResourceState(originatingSystem, resource);
+      assertLeading();
+      if (state.paused) logger.info({ originatingSystem, resource }, 'Resource loop resumed');
+      state.paused = false;
+      return { ...state };
+    },
+
+    /**
+     * Start the next cycle now instead of after the cadence. When a cycle is
+     * already running, another one follows right after it.
+     */
+    trigger(originatingSystem: string, resource: string) {
+      const state = getResourceState(originatingSystem, resource);
+      assertLeading();
+      if (!resourceLoopsStarted) {
+        throw new SchedulerControlError('Resource loops are not running yet (initial import in progress)', 'not_started');
+      }
+      if (state.paused) {
+        throw new SchedulerControlError(`${originatingSystem}:${resource} is paused — resume it first`, 'conflict');
+      }
+      state.triggered = true;
+      logger.info({ originatingSystem, resource }, 'Resource cycle triggered');
+      return { ...state };
+    },
+
+    /**
+     * Run `fn` in a (system, resource) loop's slot (marked running), after any
+     * cycle in progress, so writes outside the loop — admin re-syncs and
+     * dead-letter retries — never race that pair's replication. Leader only,
+     * once the initial import is done.
+     */
+    async runInResourceSlot<T>(originatingSystem: string, resource: string, fn: () => Promise<T>): Promise<T> {
+      const state = getResourceState(originatingSystem, resource);
+      assertLeading();
+      // The initial import runs its cycles outside the loop slots
+      if (!resourceLoopsStarted) {
+        throw new SchedulerControlError('Resource loops are not running yet (initial import in progress)', 'not_started');
+      }
+      while (state.running) await sleep(1000);
+
+      state.running = true;
+      try {
+        return await fn();
+      } finally {
+        state.running = false;
+      }
+    },
+
+    /**
+     * Change a resource's cadence until restart; null restores the configured
+     * (or, in adaptive mode, the adaptive) value. Leader only, since only the
+     * leader's loops read it.
+     */
+    setCadence(resource: string, cadenceSec: number | null) {
+      assertLeading();
+      if (!RESOURCE_TYPES.includes(resource as ResourceType)) {
+        throw new SchedulerControlError(`Unknown resource ${resource}`, 'not_found');
+      }
+      setCadenceOverride(resource as ResourceType, cadenceSec);
+      // Without an override each system's loop falls back to its own (adaptive) cadence
+      const cadencesSec = Object.fromEntries(
+        originatingSystems.map((system) => [system, getCadenceSec(resource as ResourceType, system)]),
+      );
+      logger.warn({ resource, cadencesSec, override: cadenceSec !== null }, 'Resource cadence changed');
+      return { resource, cadencesSec };
+    },
+
+    /**
+     * Start a maintenance job in the background. Fails on a standby, before
+     * the scheduler has started, or while the job is running.
+     */
+    startJob(job: MaintenanceJob): void {
+      assertLeading();
+      if (activeJobs.has(job)) {
+        throw new SchedulerControlError(`Job ${job} is already running`, 'conflict');
+      }
+      runJob(job, 'admin').catch((err) => logger.error({ err, job }, 'On-demand job failed'));
+    },
   };
 }
+
+export type Scheduler = ReturnType<typeof createScheduler>;
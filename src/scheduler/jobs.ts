@@ -0,0 +1,150 @@
+import { Cron } from 'croner';
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { jobRuns } from '../db/schema/monitoring.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+
+/**
+ * Maintenance jobs: their cron schedules (CRON_* in JOB_TIMEZONE) and the
+ * job_runs history. What each job does lives in the scheduler.
+ */
+
+/** Maintenance jobs, run on their cron schedule or on demand through the admin API. */
+export const MAINTENANCE_JOBS = [
+  'media_recovery',
+  'cleanup',
+  'backup',
+  'backup_prune',
+  'reconciliation',
+  'materialized_view_refresh',
+] as const;
+export type MaintenanceJob = (typeof MAINTENANCE_JOBS)[number];
+
+export type JobTrigger = 'schedule' | 'startup' | 'admin';
+
+/**
+ * Cron expression for each scheduled job. Backup jobs aren't scheduled when
+ * BACKUP_ENABLED is off (they can still be run on demand).
+ */
+export function getJobSchedules(): Partial<Record<MaintenanceJob, string>> {
+  const env = getEnv();
+  return {
+    media_recovery: env.CRON_MEDIA_RECOVERY,
+    cleanup: env.CRON_CLEANUP,
+    ...(env.BACKUP_ENABLED ? { backup: env.CRON_BACKUP, backup_prune: env.CRON_BACKUP_PRUNE } : {}),
+    reconciliation: env.CRON_RECONCILIATION,
+    materialized_view_refresh: env.CRON_MATERIALIZED_VIEW_REFRESH,
+  };
+}
+
+/**
+ * Start a cron timer per scheduled job, calling `fire` at each fire time.
+ * Returns a function that stops them all.
+ */
+export function scheduleJobs(fire: (job: MaintenanceJob) => void): () => void {
+  const timezone = getEnv().JOB_TIMEZONE;
+  const timers = Object.entries(getJobSchedules()).map(
+    ([job, pattern]) => new Cron(pattern, { timezone }, () => fire(job as MaintenanceJob)),
+  );
+  return () => {
+    for (const timer of timers) timer.stop();
+  };
+}
+
+/**
+ * Next fire time of every job, computed from the configuration so any replica
+ * can report it. `nextRunAt` is null for jobs that aren't scheduled.
+ */
+export function getNextJobRuns(): Array<{ job: MaintenanceJob; cron: string | null; nextRunAt: Date | null }> {
+  const timezone = getEnv().JOB_TIMEZONE;
+  const schedules = getJobSchedules();
+  return MAINTENANCE_JOBS.map((job) => {
+    const pattern = schedules[job] ?? null;
+    return {
+      job,
+      cron: pattern,
+      nextRunAt: pattern ? new Cron(pattern, { timezone, paused: true }).nextRun() : null,
+    };
+  });
+}
+
+/**
+ * Run `run` as one job_runs row: 'running' while it goes, then 'completed' or
+ * 'failed' with its duration. Errors are rethrown after they're recorded.
+ */
+export async function recordJobRun(
+  job: MaintenanceJob,
+  trigger: JobTrigger,
+  instanceId: string,
+  run: () => Promise<void>,
+): Promise<void> {
+  const db = getDb();
+  const startedAt = new Date();
+  const [row] = await db
+    .insert(jobRuns)
+    .values({ job, trigger, instanceId, status: 'running', startedAt })
+    .returning({ id: jobRuns.id });
+
+  let error: unknown = null;
+  try {
+    await run();
+  } catch (err) {
+    error = err;
+  }
+
+  const completedAt = new Date();
+  try {
+    await db
+      .update(jobRuns)
+      .set({
+        status: error ? 'failed' : 'completed',
+        completedAt,
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+        errorMessage: error ? (error instanceof Error ? error.message : String(error)) : null,
+      })
+      .where(eq(jobRuns.id, row.id));
+  } catch (err) {
+    getLogger().warn({ err, job, jobRunId: row.id }, 'Failed to record job run outcome');
+  }
+
+  if (error) throw error;
+}
+
+/** Record a scheduled run that didn't happen because the previous one was still going. */
+export async function recordSkippedJobRun(job: MaintenanceJob, trigger: JobTrigger, instanceId: string, reason: string): Promise<void> {
+  const now = new Date();
+  await getDb()
+    .insert(jobRuns)
+    .values({ job, trigger, instanceId, status: 'skipped', startedAt: now, completedAt: now, durationMs: 0, errorMessage: reason });
+}
+
+/**
+ * Mark runs another replica left 'running' as interrupted. Called by a new
+ * leader; a previous leader still finishing a run overwrites this when it's done.
+ */
+export async function markInterruptedJobRuns(instanceId: string): Promise<number> {
+  const rows = await getDb()
+    .update(jobRuns)
+    .set({ status: 'interrupted', completedAt: new Date() })
+    .where(and(eq(jobRuns.status, 'running'), ne(jobRuns.instanceId, instanceId)))
+    .returning({ id: jobRuns.id });
+  return rows.length;
+}
+
+/** Most recent run of each job, for the dashboard. */
+export async function getLatestJobRuns() {
+  return getDb()
+    .selectDistinctOn([jobRuns.job])
+    .from(jobRuns)
+    .orderBy(jobRuns.job, desc(jobRuns.startedAt), desc(jobRuns.id));
+}
+
+export async function listJobRuns(filter: { job?: MaintenanceJob; limit?: number } = {}) {
+  return getDb()
+    .select()
+    .from(jobRuns)
+    .where(filter.job ? eq(jobRuns.job, filter.job) : undefined)
+    .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+    .limit(filter.limit ?? 100);
+}
@@ -0,0 +1,238 @@
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import pg from 'pg';
+import { desc, eq, gt, lt } from 'drizzle-orm';
+import { getDb } from '../db/connection.js';
+import { workerInstances } from '../db/schema/monitoring.js';
+import { getEnv } from '../config/env.js';
+import { getLogger } from '../lib/logger.js';
+
+/**
+ * Leader election between worker replicas sharing one database.
+ *
+ * The leader holds a session-level Postgres advisory lock (LEADER_LOCK_KEY) on a
+ * dedicated connection, outside the pool. Postgres releases the lock as soon as
+ * that session ends — process exit, crash or lost connection — so a standby
+ * trying pg_try_advisory_lock on each heartbeat takes over within one interval.
+ * A leader whose lock connection fails steps down at once, before the server
+ * has necessarily noticed, so two replicas never both believe they lead.
+ *
+ * Every replica upserts its worker_instances row on each heartbeat. The table
+ * plays no part in the election itself; it's used for reporting and by a new
+ * leader to tell which replicas' unfinished runs are orphaned.
+ */
+
+export type WorkerRole = 'leader' | 'standby';
+
+export interface LeaderElectionHandlers {
+  /** Called when this replica acquires the lock. */
+  onElected(): void;
+  /** Called when this replica loses (or gives up) the lock. */
+  onDemoted(reason: string): void;
+  /** Effective cadence per "system:resource" loop, published on the leader's worker_instances row. */
+  cadences?(): Record<string, number>;
+}
+
+// Instances without a heartbeat for this many intervals are reported as gone
+const MISSED_HEARTBEATS_GONE = 3;
+
+// worker_instances rows older than this are deleted by the leader
+const INSTANCE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export function createLeaderElection(handlers: LeaderElectionHandlers) {
+  const env = getEnv();
+  const logger = getLogger();
+
+  const host = hostname();
+  const instanceId = `${host}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const startedAt = new Date();
+
+  let running = false;
+  let role: WorkerRole = 'standby';
+  let leaderSince: Date | null = null;
+  let lockClient: pg.Client | null = null;
+  let loop: Promise<void> | null = null;
+  let wakeUp: (() => void) | null = null;
+
+  // Sleep until the next heartbeat; stop() cuts it short
+  function waitForNextHeartbeat(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, env.LEADER_HEARTBEAT_INTERVAL_SEC * 1000);
+      wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  async function connectLockClient(): Promise<pg.Client> {
+    const client = new pg.Client({
+      connectionString: env.DATABASE_URL,
+      keepAlive: true,
+      // A query stuck on a dead connection fails the heartbeat (and steps down a leader)
+      // within one interval instead of hanging while the server has already dropped the lock
+      connectionTimeoutMillis: env.LEADER_HEARTBEAT_INTERVAL_SEC * 1000,
+      query_timeout: env.LEADER_HEARTBEAT_INTERVAL_SEC * 1000,
+      application_name: `mls-worker-leader-lock:${instanceId}`,
+    });
+    client.on('error', (err) => {
+      logger.error({ err, instanceId }, 'Leader lock connection error');
+      dropLockClient(client, 'Leader lock connection lost');
+    });
+    await client.connect();
+    return client;
+  }
+
+  function dropLockClient(client: pg.Client, reason: string): void {
+    if (lockClient !== client) return;
+    lockClient = null;
+    client.end().catch(() => {
+      // Already closed
+    });
+    demote(reason);
+  }
+
+  function elect(): void {
+    role = 'leader';
+    leaderSince = new Date();
+    logger.info({ instanceId }, 'Elected leader');
+    handlers.onElected();
+  }
+
+  function demote(reason: string): void {
+    if (role !== 'leader') return;
+    role = 'standby';
+    leaderSince = null;
+    logger.warn({ instanceId, reason }, 'Stepped down as leader');
+    handlers.onDemoted(reason);
+  }
+
+  /**
+   * One heartbeat: confirm the lock is still held (leader) or try to take it
+   * (standby), then record this instance's role.
+   */
+  async function heartbeat(): Promise<void> {
+    const client = lockClient ?? (lockClient = await connectLockClient());
+
+    try {
+      if (role === 'leader') {
+        // The lock lives exactly as long as the session; a round trip proves the session is alive
+        await client.query('SELECT 1');
+      } else {
+        const result = await client.query<{ acquired: boolean }>(
+          'SELECT pg_try_advisory_lock($1) AS acquired',
+          [env.LEADER_LOCK_KEY],
+        );
+        if (result.rows[0]?.acquired) elect();
+      }
+    } catch (err) {
+      logger.error({ err, instanceId }, 'Leader lock query failed');
+      dropLockClient(client, 'Leader lock query failed');
+    }
+
+    const now = new Date();
+    const cadencesSec = role === 'leader' ? (handlers.cadences?.() ?? null) : null;
+    const db = getDb();
+    await db
+      .insert(workerInstances)
+      .values({ instanceId, hostname: host, pid: process.pid, role, startedAt, leaderSince, lastHeartbeatAt: now, cadencesSec })
+      .onConflictDoUpdate({
+        target: workerInstances.instanceId,
+        set: { role, leaderSince, lastHeartbeatAt: now, cadencesSec },
+      });
+
+    if (role === 'leader') {
+      await db
+        .delete(workerInstances)
+        .where(lt(workerInstances.lastHeartbeatAt, new Date(now.getTime() - INSTANCE_RETENTION_MS)));
+    }
+  }
+
+  return {
+    instanceId,
+
+    isLeader(): boolean {
+      return role === 'leader';
+    },
+
+    getState() {
+      return { instanceId, role, leaderSince };
+    },
+
+    /**
+     * Run the first election attempt, then keep heartbeating in the background.
+     */
+    async start(): Promise<void> {
+      running = true;
+      try {
+        await heartbeat();
+      } catch (err) {
+        logger.error({ err, instanceId }, 'Leader election heartbeat failed');
+      }
+      if (role === 'standby') {
+        logger.info({ instanceId }, 'Another replica holds the leader lock — running as standby');
+      }
+
+      loop = (async () => {
+        while (running) {
+          await waitForNextHeartbeat();
+          if (!running) break;
+          try {
+            await heartbeat();
+          } catch (err) {
+            logger.error({ err, instanceId }, 'Leader election heartbeat failed');
+          }
+        }
+      })();
+    },
+
+    /**
+     * Stop heartbeating and release the lock (ending the session releases it),
+     * so a standby can take over on its next heartbeat.
+     */
+    async stop(): Promise<void> {
+      running = false;
+      wakeUp?.();
+      await loop;
+
+      if (lockClient) {
+        const client = lockClient;
+        lockClient = null;
+        await client.end().catch(() => {
+          // Already closed
+        });
+      }
+      demote('Shutting down');
+
+      try {
+        await getDb()
+          .update(workerInstances)
+          .set({ role: 'stopped', leaderSince: null, lastHeartbeatAt: new Date(), cadencesSec: null })
+          .where(eq(workerInstances.instanceId, instanceId));
+      } catch (err) {
+        logger.warn({ err, instanceId }, 'Failed to mark worker instance stopped');
+      }
+    },
+  };
+}
+
+export type LeaderElection = ReturnType<typeof createLeaderElection>;
+
+/**
+ * Replicas with a recent heartbeat, leader first. Used by /health and the dashboard.
+ */
+export async function listWorkerInstances() {
+  const goneAfterMs = MISSED_HEARTBEATS_GONE * getEnv().LEADER_HEARTBEAT_INTERVAL_SEC * 1000;
+  const rows = await getDb()
+    .select()
+    .from(workerInstances)
+    .where(gt(workerInstances.lastHeartbeatAt, new Date(Date.now() - INSTANCE_RETENTION_MS)))
+    .orderBy(desc(workerInstances.lastHeartbeatAt));
+
+  return rows
+    .map((row) => ({
+      ...row,
+      alive: row.role !== 'stopped' && Date.now() - row.lastHeartbeatAt.getTime() <= goneAfterMs,
+    }))
+    .sort((a, b) => Number(b.alive && b.role === 'leader') - Number(a.alive && a.role === 'leader'));
+}
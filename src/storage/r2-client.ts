@@ -6,6 +6,7 @@ import {
 } from '@aws-sdk/client-s3';
 import { getEnv } from '../config/env.js';
 import { getLogger } from '../lib/logger.js';
+import { recordMediaFailure } from '../lib/metrics.js';
 
 let _s3: S3Client | null = null;
 
@@ -46,14 +47,19 @@ export async function uploadToR2(
   const env = getEnv();
   const s3 = getR2Client();
 
-  await s3.send(
-    new PutObjectCommand({
-      Bucket: env.R2_BUCKET_NAME,
-      Key: objectKey,
-      Body: body,
-      ContentType: contentType,
-    }),
-  );
+  try {
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: env.R2_BUCKET_NAME,
+        Key: objectKey,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  } catch (err) {
+    recordMediaFailure('r2_upload');
+    throw err;
+  }
 }
 
 /**
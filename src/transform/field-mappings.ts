@@ -0,0 +1,293 @@
+import { getTableColumns } from 'drizzle-orm';
+import { properties, type NewProperty } from '../db/schema/properties.js';
+
+/**
+ * Declarative MLS Grid → `properties` column mapping.
+ *
+ * Adding a column is a two-step change: add it to the Drizzle schema in
+ * src/db/schema/properties.ts, then add an entry here. transformProperty()
+ * applies the spec, and validateFieldMappings() checks it against the schema
+ * at startup so a typo or type mismatch fails fast instead of at insert time.
+ */
+
+/**
+ * How a source value is coerced before it is written:
+ *   numeric   → decimal string (Drizzle `numeric` columns take strings); a
+ *               decimal string is kept as sent, so no precision is lost
+ *   integer   → whole number (fractions truncated; beyond ±2^53 − 1 it's rejected)
+ *   text      → string
+ *   date      → 'YYYY-MM-DD' string
+ *   timestamp → Date
+ *   textArray → string[] (a scalar is wrapped in a one-element array)
+ *   boolean   → boolean ('Y'/'N' and 'true'/'false' strings are accepted)
+ * Values that can't be coerced become null (or the default, if one is set).
+ */
+export type FieldCoercion = 'numeric' | 'integer' | 'text' | 'date' | 'timestamp' | 'textArray' | 'boolean';
+
+export interface FieldMapping {
+  /** Drizzle property name on the `properties` table. */
+  column: keyof NewProperty & string;
+  /** MLS Grid field name on the incoming record. */
+  source: string;
+  type: FieldCoercion;
+  /** Value used when the source field is missing, null or not coercible. */
+  default?: string | number | boolean | string[];
+  /**
+   * For MLS-local fields (e.g. ACT_*) promoted to a real column: also keep
+   * the value in local_fields. Defaults to false — the column replaces it.
+   */
+  keepInLocalFields?: boolean;
+}
+
+// SQL types each coercion may be written to
+const COMPATIBLE_SQL_TYPES: Record<FieldCoercion, (sqlType: string) => boolean> = {
+  numeric: (t) => t === 'numeric',
+  integer: (t) => t === 'integer' || t === 'bigint' || t === 'smallint',
+  text: (t) => t === 'varchar' || t === 'text' || t.startsWith('varchar('),
+  date: (t) => t === 'date',
+  timestamp: (t) => t.startsWith('timestamp'),
+  textArray: (t) => t === 'text[]',
+  boolean: (t) => t === 'boolean',
+};
+
+// Columns transformProperty() derives itself rather than copying from one source field
+const DERIVED_COLUMNS = new Set(['listingIdDisplay', 'geog', 'localFields', 'updatedAt']);
+
+// ─── Property Mapping Spec ───────────────────────────────────────────────────
+
+export const PROPERTY_FIELD_MAPPINGS: readonly FieldMapping[] = [
+  // Primary identifiers
+  { column: 'listingKey', source: 'ListingKey', type: 'text' },
+  { column: 'listingId', source: 'ListingId', type: 'text' },
+  { column: 'originatingSystem', source: 'OriginatingSystemName', type: 'text', default: 'actris' },
+
+  // Pricing
+  { column: 'listPrice', source: 'ListPrice', type: 'numeric' },
+  { column: 'originalListPrice', source: 'OriginalListPrice', type: 'numeric' },
+  { column: 'previousListPrice', source: 'PreviousListPrice', type: 'numeric' },
+
+  // Status
+  { column: 'standardStatus', source: 'StandardStatus', type: 'text' },
+  { column: 'mlsStatus', source: 'MlsStatus', type: 'text' },
+
+  // Property Attributes
+  { column: 'propertyType', source: 'PropertyType', type: 'text' },
+  { column: 'propertySubType', source: 'PropertySubType', type: 'text' },
+  { column: 'bedroomsTotal', source: 'BedroomsTotal', type: 'numeric' },
+  { column: 'bathroomsTotal', source: 'BathroomsTotalInteger', type: 'numeric' },
+  { column: 'bathroomsFull', source: 'BathroomsFull', type: 'numeric' },
+  { column: 'bathroomsHalf', source: 'BathroomsHalf', type: 'numeric' },
+  { column: 'livingArea', source: 'LivingArea', type: 'numeric' },
+  { column: 'livingAreaSource', source: 'LivingAreaSource', type: 'text' },
+  { column: 'lotSizeAcres', source: 'LotSizeAcres', type: 'numeric' },
+  { column: 'lotSizeSqft', source: 'LotSizeSquareFeet', type: 'numeric' },
+  { column: 'yearBuilt', source: 'YearBuilt', type: 'integer' },
+  { column: 'yearBuiltSource', source: 'YearBuiltSource', type: 'text' },
+  { column: 'stories', source: 'Stories', type: 'numeric' },
+  { column: 'garageSpaces', source: 'GarageSpaces', type: 'numeric' },
+  { column: 'parkingTotal', source: 'ParkingTotal', type: 'numeric' },
+  { column: 'fireplacesTotal', source: 'FireplacesTotal', type: 'numeric' },
+  { column: 'newConstructionYn', source: 'NewConstructionYN', type: 'boolean' },
+  { column: 'poolPrivateYn', source: 'PoolPrivateYN', type: 'boolean' },
+  { column: 'waterfrontYn', source: 'WaterfrontYN', type: 'boolean' },
+  { column: 'horseYn', source: 'HorseYN', type: 'boolean' },
+  { column: 'associationYn', source: 'AssociationYN', type: 'boolean' },
+  { column: 'associationFee', source: 'AssociationFee', type: 'numeric' },
+  { column: 'associationFeeFrequency', source: 'AssociationFeeFrequency', type: 'text' },
+  { column: 'associationName', source: 'AssociationName', type: 'text' },
+  { column: 'associationFeeIncludes', source: 'AssociationFeeIncludes', type: 'textArray' },
+  { column: 'associationFee2', source: 'AssociationFee2', type: 'numeric' },
+  { column: 'associationFee2Frequency', source: 'AssociationFee2Frequency', type: 'text' },
+
+  // Location / Geo
+  { column: 'latitude', source: 'Latitude', type: 'numeric' },
+  { column: 'longitude', source: 'Longitude', type: 'numeric' },
+  { column: 'streetNumber', source: 'StreetNumber', type: 'text' },
+  { column: 'streetName', source: 'StreetName', type: 'text' },
+  { column: 'streetSuffix', source: 'StreetSuffix', type: 'text' },
+  { column: 'unparsedAddress', source: 'UnparsedAddress', type: 'text' },
+  { column: 'city', source: 'City', type: 'text' },
+  { column: 'stateOrProvince', source: 'StateOrProvince', type: 'text' },
+  { column: 'postalCode', source: 'PostalCode', type: 'text' },
+  { column: 'countyOrParish', source: 'CountyOrParish', type: 'text' },
+  { column: 'country', source: 'Country', type: 'text' },
+  { column: 'directions', source: 'Directions', type: 'text' },
+  { column: 'subdivisionName', source: 'SubdivisionName', type: 'text' },
+  { column: 'mlsAreaMajor', source: 'MLSAreaMajor', type: 'text' },
+
+  // Agent / Office References
+  { column: 'listAgentKey', source: 'ListAgentKey', type: 'text' },
+  { column: 'listAgentMlsId', source: 'ListAgentMlsId', type: 'text' },
+  { column: 'listAgentFullName', source: 'ListAgentFullName', type: 'text' },
+  { column: 'listAgentEmail', source: 'ListAgentEmail', type: 'text' },
+  { column: 'listAgentPhone', source: 'ListAgentDirectPhone', type: 'text' },
+  { column: 'listOfficeKey', source: 'ListOfficeKey', type: 'text' },
+  { column: 'listOfficeMlsId', source: 'ListOfficeMlsId', type: 'text' },
+  { column: 'listOfficeName', source: 'ListOfficeName', type: 'text' },
+  { column: 'listOfficePhone', source: 'ListOfficePhone', type: 'text' },
+  { column: 'buyerOfficeKey', source: 'BuyerOfficeKey', type: 'text' },
+
+  // Listing Metadata
+  { column: 'listingContractDate', source: 'ListingContractDate', type: 'date' },
+  { column: 'publicRemarks', source: 'PublicRemarks', type: 'text' },
+  { column: 'syndicationRemarks', source: 'SyndicationRemarks', type: 'text' },
+  { column: 'virtualTourUrl', source: 'VirtualTourURLUnbranded', type: 'text' },
+  { column: 'internetDisplayYn', source: 'InternetEntireListingDisplayYN', type: 'boolean' },
+  { column: 'internetValuationYn', source: 'InternetAutomatedValuationDisplayYN', type: 'boolean' },
+
+  // Schools
+  { column: 'elementarySchool', source: 'ElementarySchool', type: 'text' },
+  { column: 'middleSchool', source: 'MiddleOrJuniorSchool', type: 'text' },
+  { column: 'highSchool', source: 'HighSchool', type: 'text' },
+
+  // Tax
+  { column: 'taxAssessedValue', source: 'TaxAssessedValue', type: 'numeric' },
+  { column: 'taxYear', source: 'TaxYear', type: 'integer' },
+  { column: 'taxLegalDesc', source: 'TaxLegalDescription', type: 'text' },
+  { column: 'parcelNumber', source: 'ParcelNumber', type: 'text' },
+  { column: 'taxAnnualAmount', source: 'TaxAnnualAmount', type: 'numeric' },
+
+  // Compensation
+  { column: 'buyerAgencyComp', source: 'BuyerAgencyCompensation', type: 'text' },
+  { column: 'buyerAgencyCompType', source: 'BuyerAgencyCompensationType', type: 'text' },
+  { column: 'subAgencyComp', source: 'SubAgencyCompensation', type: 'text' },
+  { column: 'subAgencyCompType', source: 'SubAgencyCompensationType', type: 'text' },
+
+  // MLS Grid System Fields
+  { column: 'mlgCanView', source: 'MlgCanView', type: 'boolean', default: true },
+  { column: 'mlgCanUse', source: 'MlgCanUse', type: 'textArray' },
+  { column: 'modificationTs', source: 'ModificationTimestamp', type: 'timestamp' },
+  { column: 'originatingModTs', source: 'OriginatingSystemModificationTimestamp', type: 'timestamp' },
+  { column: 'photosChangeTs', source: 'PhotosChangeTimestamp', type: 'timestamp' },
+  { column: 'photosCount', source: 'PhotosCount', type: 'integer' },
+  { column: 'majorChangeTs', source: 'MajorChangeTimestamp', type: 'timestamp' },
+  { column: 'majorChangeType', source: 'MajorChangeType', type: 'text' },
+  { column: 'originalEntryTs', source: 'OriginalEntryTimestamp', type: 'timestamp' },
+
+  // Array/Feature Fields
+  { column: 'appliances', source: 'Appliances', type: 'textArray' },
+  { column: 'architecturalStyle', source: 'ArchitecturalStyle', type: 'textArray' },
+  { column: 'basement', source: 'Basement', type: 'textArray' },
+  { column: 'constructionMaterials', source: 'ConstructionMaterials', type: 'textArray' },
+  { column: 'cooling', source: 'Cooling', type: 'textArray' },
+  { column: 'heating', source: 'Heating', type: 'textArray' },
+  { column: 'exteriorFeatures', source: 'ExteriorFeatures', type: 'textArray' },
+  { column: 'interiorFeatures', source: 'InteriorFeatures', type: 'textArray' },
+  { column: 'flooring', source: 'Flooring', type: 'textArray' },
+  { column: 'roof', source: 'Roof', type: 'textArray' },
+  { column: 'sewer', source: 'Sewer', type: 'textArray' },
+  { column: 'waterSource', source: 'WaterSource', type: 'textArray' },
+  { column: 'utilities', source: 'Utilities', type: 'textArray' },
+  { column: 'lotFeatures', source: 'LotFeatures', type: 'textArray' },
+  { column: 'parkingFeatures', source: 'ParkingFeatures', type: 'textArray' },
+  { column: 'poolFeatures', source: 'PoolFeatures', type: 'textArray' },
+  { column: 'fencing', source: 'Fencing', type: 'textArray' },
+  { column: 'communityFeatures', source: 'CommunityFeatures', type: 'textArray' },
+  { column: 'securityFeatures', source: 'SecurityFeatures', type: 'textArray' },
+  { column: 'levels', source: 'Levels', type: 'textArray' },
+  { column: 'view', source: 'View', type: 'textArray' },
+  { column: 'foundationDetails', source: 'FoundationDetails', type: 'textArray' },
+  { column: 'patioAndPorchFeatures', source: 'PatioAndPorchFeatures', type: 'textArray' },
+  { column: 'waterfrontFeatures', source: 'WaterfrontFeatures', type: 'textArray' },
+  { column: 'windowFeatures', source: 'WindowFeatures', type: 'textArray' },
+  { column: 'greenEnergy', source: 'GreenEnergyEfficient', type: 'textArray' },
+  { column: 'horseAmenities', source: 'HorseAmenities', type: 'textArray' },
+  { column: 'specialConditions', source: 'SpecialListingConditions', type: 'textArray' },
+  { column: 'disclosures', source: 'Disclosures', type: 'textArray' },
+  { column: 'propertyCondition', source: 'PropertyCondition', type: 'textArray' },
+  { column: 'syndicateTo', source: 'SyndicateTo', type: 'textArray' },
+
+  // Promoted local fields — MLS-specific keys that would otherwise only live in
+  // local_fields JSONB
+  { column: 'estimatedTaxes', source: 'ACT_EstimatedTaxes', type: 'numeric' },
+];
+
+// ─── Coercion ────────────────────────────────────────────────────────────────
+
+/**
+ * Coerce a raw MLS Grid value according to a mapping. Returns null (or the
+ * mapping's default) for missing or unparseable values.
+ */
+export function coerceFieldValue(mapping: FieldMapping, value: unknown): unknown {
+  const coerced = value == null ? null : coerce(mapping.type, value);
+  return coerced ?? mapping.default ?? null;
+}
+
+// A plain decimal literal, as Postgres `numeric` accepts it: "1234", "-0.5", "1.5e3"
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+function coerce(type: FieldCoercion, value: unknown): unknown {
+  switch (type) {
+    case 'numeric': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value.toString() : null;
+      const text = String(value).trim();
+      return DECIMAL_PATTERN.test(text) ? text : null;
+    }
+    case 'integer': {
+      const text = String(value).trim();
+      if (typeof value !== 'number' && !DECIMAL_PATTERN.test(text)) return null;
+      const n = Math.trunc(Number(text));
+      return Number.isSafeInteger(n) ? n : null;
+    }
+    case 'text':
+      return typeof value === 'string' ? value : Array.isArray(value) ? value.join(', ') : String(value);
+    case 'date': {
+      if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.substring(0, 10);
+      const d = new Date(value as string);
+      return Number.isNaN(d.getTime()) ? null : d.toISOString().substring(0, 10);
+    }
+    case 'timestamp': {
+      const d = new Date(value as string);
+      return Number.isNaN(d.getTime()) ? null : d;
+    }
+    case 'textArray':
+      return Array.isArray(value) ? value.map(String) : [String(value)];
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string') {
+        if (/^(true|y|yes|1)$/i.test(value.trim())) return true;
+        if (/^(false|n|no|0)$/i.test(value.trim())) return false;
+      }
+      if (typeof value === 'number') return value !== 0;
+      return null;
+  }
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Check the mapping spec against the Drizzle `properties` schema: every column
+ * must exist, be mapped once, not be a derived column, and have a SQL type the
+ * coercion can produce. Throws with every problem listed.
+ */
+export function validateFieldMappings(mappings: readonly FieldMapping[] = PROPERTY_FIELD_MAPPINGS): void {
+  const columns = getTableColumns(properties) as Record<string, { getSQLType(): string }>;
+  const problems: string[] = [];
+  const seenColumns = new Set<string>();
+
+  for (const mapping of mappings) {
+    const label = `${mapping.source} → ${mapping.column}`;
+    const column = columns[mapping.column];
+
+    if (!column) {
+      problems.push(`${label}: column "${mapping.column}" does not exist on properties`);
+      continue;
+    }
+    if (DERIVED_COLUMNS.has(mapping.column)) {
+      problems.push(`${label}: "${mapping.column}" is derived by transformProperty() and can't be mapped`);
+    }
+    if (seenColumns.has(mapping.column)) {
+      problems.push(`${label}: column "${mapping.column}" is mapped more than once`);
+    }
+    seenColumns.add(mapping.column);
+
+    const sqlType = column.getSQLType();
+    if (!COMPATIBLE_SQL_TYPES[mapping.type](sqlType)) {
+      problems.push(`${label}: coercion "${mapping.type}" can't be written to a ${sqlType} column`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid property field mappings:\n${problems.map((p) => `  ${p}`).join('\n')}`);
+  }
+}
@@ -3,6 +3,7 @@ import type { NewRoom } from '../db/schema/rooms.js';
 import type { NewUnitType } from '../db/schema/unit-types.js';
 import type { NewMedia } from '../db/schema/media.js';
 import { buildR2ObjectKey } from '../storage/r2-client.js';
+import { PROPERTY_FIELD_MAPPINGS, coerceFieldValue } from './field-mappings.js';
 
 /**
  * Known MLS-local field prefixes. Any field starting with these + underscore
@@ -15,10 +16,27 @@ const LOCAL_FIELD_PREFIXES = [
   'RMA_', 'RRA_', 'RTC_', 'SAR_', 'SCK_', 'SOM_', 'SPN_', 'SUN_',
 ];
 
-function isLocalField(fieldName: string): boolean {
+export function isLocalField(fieldName: string): boolean {
   return LOCAL_FIELD_PREFIXES.some((prefix) => fieldName.startsWith(prefix));
 }
 
+/**
+ * MLS Grid Property fields that map to a `properties` column. Anything not
+ * listed here is reported as schema drift (see src/metadata/drift-tracker.ts).
+ */
+export const MAPPED_PROPERTY_FIELDS: ReadonlySet<string> = new Set([
+  ...PROPERTY_FIELD_MAPPINGS.map((m) => m.source),
+  // Expanded sub-resources have their own tables
+  'Media', 'Rooms', 'UnitTypes',
+]);
+
+// Local fields promoted to a real column are dropped from local_fields unless kept explicitly
+const PROMOTED_LOCAL_FIELDS: ReadonlySet<string> = new Set(
+  PROPERTY_FIELD_MAPPINGS
+    .filter((m) => isLocalField(m.source) && !m.keepInLocalFields)
+    .map((m) => m.source),
+);
+
 /**
  * Strip the MLS prefix from a listing ID for display purposes.
  * E.g., "ACT1475089" → "1475089"
@@ -186,12 +204,19 @@ export interface MlsGridUnitTypeRecord {
 
 /**
  * Transform an MLS Grid property record into our DB property row.
+ * Column values come from PROPERTY_FIELD_MAPPINGS; only the derived columns
+ * (display ID, geography point, local_fields) are built here.
  */
 export function transformProperty(raw: MlsGridPropertyRecord): NewProperty {
-  // Extract local fields
+  const row: Record<string, unknown> = {};
+  for (const mapping of PROPERTY_FIELD_MAPPINGS) {
+    row[mapping.column] = coerceFieldValue(mapping, raw[mapping.source]);
+  }
+
+  // Extract local fields, minus any promoted to their own column
   const localFields: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(raw)) {
-    if (isLocalField(key)) {
+    if (isLocalField(key) && !PROMOTED_LOCAL_FIELDS.has(key)) {
       localFields[key] = value;
     }
   }
@@ -202,146 +227,12 @@ export function transformProperty(raw: MlsGridPropertyRecord): NewProperty {
   const geog = lat != null && lng != null ? `SRID=4326;POINT(${lng} ${lat})` : null;
 
   return {
-    listingKey: raw.ListingKey!,
-    listingId: raw.ListingId ?? null,
+    ...row,
     listingIdDisplay: stripPrefix(raw.ListingId),
-    originatingSystem: raw.OriginatingSystemName ?? 'actris',
-
-    listPrice: raw.ListPrice?.toString() ?? null,
-    originalListPrice: raw.OriginalListPrice?.toString() ?? null,
-    previousListPrice: raw.PreviousListPrice?.toString() ?? null,
-
-    standardStatus: raw.StandardStatus ?? null,
-    mlsStatus: raw.MlsStatus ?? null,
-
-    propertyType: raw.PropertyType ?? null,
-    propertySubType: raw.PropertySubType ?? null,
-    bedroomsTotal: raw.BedroomsTotal?.toString() ?? null,
-    bathroomsTotal: raw.BathroomsTotalInteger?.toString() ?? null,
-    bathroomsFull: raw.BathroomsFull?.toString() ?? null,
-    bathroomsHalf: raw.BathroomsHalf?.toString() ?? null,
-    livingArea: raw.LivingArea?.toString() ?? null,
-    livingAreaSource: raw.LivingAreaSource ?? null,
-    lotSizeAcres: raw.LotSizeAcres?.toString() ?? null,
-    lotSizeSqft: raw.LotSizeSquareFeet?.toString() ?? null,
-    yearBuilt: raw.YearBuilt ?? null,
-    yearBuiltSource: raw.YearBuiltSource ?? null,
-    stories: raw.Stories?.toString() ?? null,
-    garageSpaces: raw.GarageSpaces?.toString() ?? null,
-    parkingTotal: raw.ParkingTotal?.toString() ?? null,
-    fireplacesTotal: raw.FireplacesTotal?.toString() ?? null,
-    newConstructionYn: raw.NewConstructionYN ?? null,
-    poolPrivateYn: raw.PoolPrivateYN ?? null,
-    waterfrontYn: raw.WaterfrontYN ?? null,
-    horseYn: raw.HorseYN ?? null,
-    associationYn: raw.AssociationYN ?? null,
-    // ── NEW: HOA detail fields ──
-    associationFee: raw.AssociationFee?.toString() ?? null,
-    associationFeeFrequency: raw.AssociationFeeFrequency ?? null,
-    associationName: raw.AssociationName ?? null,
-    associationFeeIncludes: raw.AssociationFeeIncludes ?? null,
-    associationFee2: raw.AssociationFee2?.toString() ?? null,
-    associationFee2Frequency: raw.AssociationFee2Frequency ?? null,
-
     geog,
-    latitude: lat?.toString() ?? null,
-    longitude: lng?.toString() ?? null,
-    streetNumber: raw.StreetNumber ?? null,
-    streetName: raw.StreetName ?? null,
-    streetSuffix: raw.StreetSuffix ?? null,
-    unparsedAddress: raw.UnparsedAddress ?? null,
-    city: raw.City ?? null,
-    stateOrProvince: raw.StateOrProvince ?? null,
-    postalCode: raw.PostalCode ?? null,
-    countyOrParish: raw.CountyOrParish ?? null,
-    country: raw.Country ?? null,
-    directions: raw.Directions ?? null,
-    subdivisionName: raw.SubdivisionName ?? null,
-    mlsAreaMajor: raw.MLSAreaMajor ?? null,
-
-    listAgentKey: raw.ListAgentKey ?? null,
-    listAgentMlsId: raw.ListAgentMlsId ?? null,
-    listAgentFullName: raw.ListAgentFullName ?? null,
-    listAgentEmail: raw.ListAgentEmail ?? null,
-    listAgentPhone: raw.ListAgentDirectPhone ?? null,
-    listOfficeKey: raw.ListOfficeKey ?? null,
-    listOfficeMlsId: raw.ListOfficeMlsId ?? null,
-    listOfficeName: raw.ListOfficeName ?? null,
-    listOfficePhone: raw.ListOfficePhone ?? null,
-    buyerOfficeKey: raw.BuyerOfficeKey ?? null,
-
-    listingContractDate: raw.ListingContractDate ?? null,
-    publicRemarks: raw.PublicRemarks ?? null,
-    syndicationRemarks: raw.SyndicationRemarks ?? null,
-    virtualTourUrl: raw.VirtualTourURLUnbranded ?? null,
-    internetDisplayYn: raw.InternetEntireListingDisplayYN ?? null,
-    internetValuationYn: raw.InternetAutomatedValuationDisplayYN ?? null,
-
-    elementarySchool: raw.ElementarySchool ?? null,
-    middleSchool: raw.MiddleOrJuniorSchool ?? null,
-    highSchool: raw.HighSchool ?? null,
-
-    taxAssessedValue: raw.TaxAssessedValue?.toString() ?? null,
-    taxYear: raw.TaxYear ?? null,
-    taxLegalDesc: raw.TaxLegalDescription ?? null,
-    parcelNumber: raw.ParcelNumber ?? null,
-    // ── NEW: Tax annual amount ──
-    taxAnnualAmount: raw.TaxAnnualAmount?.toString() ?? null,
-
-    buyerAgencyComp: raw.BuyerAgencyCompensation ?? null,
-    buyerAgencyCompType: raw.BuyerAgencyCompensationType ?? null,
-    subAgencyComp: raw.SubAgencyCompensation ?? null,
-    subAgencyCompType: raw.SubAgencyCompensationType ?? null,
-
-    mlgCanView: raw.MlgCanView ?? true,
-    mlgCanUse: raw.MlgCanUse ?? null,
-    modificationTs: new Date(raw.ModificationTimestamp!),
-    originatingModTs: raw.OriginatingSystemModificationTimestamp
-      ? new Date(raw.OriginatingSystemModificationTimestamp)
-      : null,
-    photosChangeTs: raw.PhotosChangeTimestamp ? new Date(raw.PhotosChangeTimestamp) : null,
-    photosCount: raw.PhotosCount ?? null,
-    majorChangeTs: raw.MajorChangeTimestamp ? new Date(raw.MajorChangeTimestamp) : null,
-    majorChangeType: raw.MajorChangeType ?? null,
-    originalEntryTs: raw.OriginalEntryTimestamp
-      ? new Date(raw.OriginalEntryTimestamp)
-      : null,
-
-    appliances: raw.Appliances ?? null,
-    architecturalStyle: raw.ArchitecturalStyle ?? null,
-    basement: raw.Basement ?? null,
-    constructionMaterials: raw.ConstructionMaterials ?? null,
-    cooling: raw.Cooling ?? null,
-    heating: raw.Heating ?? null,
-    exteriorFeatures: raw.ExteriorFeatures ?? null,
-    interiorFeatures: raw.InteriorFeatures ?? null,
-    flooring: raw.Flooring ?? null,
-    roof: raw.Roof ?? null,
-    sewer: raw.Sewer ?? null,
-    waterSource: raw.WaterSource ?? null,
-    utilities: raw.Utilities ?? null,
-    lotFeatures: raw.LotFeatures ?? null,
-    parkingFeatures: raw.ParkingFeatures ?? null,
-    poolFeatures: raw.PoolFeatures ?? null,
-    fencing: raw.Fencing ?? null,
-    communityFeatures: raw.CommunityFeatures ?? null,
-    securityFeatures: raw.SecurityFeatures ?? null,
-    levels: raw.Levels ?? null,
-    view: raw.View ?? null,
-    foundationDetails: raw.FoundationDetails ?? null,
-    patioAndPorchFeatures: raw.PatioAndPorchFeatures ?? null,
-    waterfrontFeatures: raw.WaterfrontFeatures ?? null,
-    windowFeatures: raw.WindowFeatures ?? null,
-    greenEnergy: raw.GreenEnergyEfficient ?? null,
-    horseAmenities: raw.HorseAmenities ?? null,
-    specialConditions: raw.SpecialListingConditions ?? null,
-    disclosures: raw.Disclosures ?? null,
-    propertyCondition: raw.PropertyCondition ?? null,
-    syndicateTo: raw.SyndicateTo ?? null,
-
     localFields: Object.keys(localFields).length > 0 ? localFields : null,
     updatedAt: new Date(),
-  };
+  } as NewProperty;
 }
 
 /**